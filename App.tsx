@@ -18,22 +18,42 @@ import { InstallPwaPrompt } from './components/InstallPwaPrompt'; // New Import
 import { Skeleton } from './components/Skeleton';
 import { CommandPalette } from './components/CommandPalette';
 import { PomodoroTimer } from './components/PomodoroTimer'; 
+import { LockScreen } from './components/LockScreen';
+import { UndoToast } from './components/UndoToast';
 import { StorageService } from './services/storageService';
 import { SyncService } from './services/syncService';
+import { OpLogService } from './services/opLogService';
+import { HistoryService } from './services/historyService';
+import { PersistenceService } from './services/persistenceService';
+import { TabSyncService } from './services/tabSyncService';
+import { SchedulerService } from './services/schedulerService';
+import { ReminderService } from './services/reminderService';
+import { NotificationActionService, TaskNotificationAction } from './services/notificationActionService';
+import { WebhookService } from './services/webhookService';
+import { SecretsService } from './services/secretsService';
+import { AppLockService } from './services/appLockService';
+import { normalizeLegacyTask, normalizeLegacyRule, normalizeTaskRecurrence, normalizeTaskReminders } from './services/storageMigrations';
+import { SyncBackend } from './services/syncBackends';
 import { AuthService } from './services/authService';
 import { NotificationService } from './services/notificationService';
 import { AutomationService } from './services/automationService';
+import { SeriesService, SeriesEditScope } from './services/seriesService';
 import { CopilotService } from './services/copilotService';
 import { DeveloperApiService } from './services/developerApiService';
 import { MonitoringService } from './services/monitoringService'; 
-import { Task, Note, AppState, ViewMode, TaskStatus, User, AppSettings, Goal, AutomationRule, ProjectTemplate, Board, BoardColumn } from './types';
-import { appStore, DEFAULT_COLUMNS } from './lib/store';
+import { Task, Note, AppState, ViewMode, TaskStatus, User, AppSettings, AppSecrets, Goal, AutomationRule, ProjectTemplate, Board, BoardColumn } from './types';
+import { appStore, DEFAULT_COLUMNS, UpdateMeta } from './lib/store';
+import { useStoreSelector } from './lib/useStore';
+import { selectTasksById, selectNotesById } from './lib/selectors';
 import { AiIntentResult } from './services/aiService';
 
 // Test Runner Imports
 import { runner } from './lib/testRunner';
 import { registerTests } from './tests/app.test';
 
+// Changes to these trigger the debounced cloud sync
+const SYNCED_KEYS: (keyof AppState)[] = ['tasks', 'notes', 'goals', 'settings', 'boards', 'globalEvents'];
+
 // Page-level Skeleton
 const PageSkeleton = () => (
   <div className="p-4 space-y-6">
@@ -50,8 +70,12 @@ const PageSkeleton = () => (
 );
 
 const App: React.FC = () => {
-  // Use state only for triggering re-renders from store
-  const [state, setState] = useState<AppState>(appStore.getState());
+  // Only the slices App renders itself; views select their own data
+  const isLoading = useStoreSelector(s => s.isLoading);
+  const user = useStoreSelector(s => s.user);
+  const lastSynced = useStoreSelector(s => s.lastSynced);
+  const settings = useStoreSelector(s => s.settings);
+  const openRouterApiKey = useStoreSelector(s => s.secrets?.openRouterApiKey);
   
   const [viewMode, setViewMode] = useState<ViewMode>('tasks'); 
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
@@ -74,17 +98,12 @@ const App: React.FC = () => {
   const [prefillTaskData, setPrefillTaskData] = useState<{title: string, description: string} | null>(null);
 
   // Undo Stack (Last deleted ID)
-  const lastDeletedTask = useRef<Task | null>(null);
 
   const syncTimeoutRef = useRef<number | null>(null);
 
-  // Subscribe to store updates
-  useEffect(() => {
-    const unsubscribe = appStore.subscribe((newState) => {
-      setState(newState);
-    });
-    return unsubscribe;
-  }, []);
+  // App Lock: startup waits on this until the user unlocks
+  const [isLocked, setIsLocked] = useState(false);
+  const unlockResolver = useRef<(() => void) | null>(null);
 
   // --- Global Listeners (Cmd+K, Shake, Auto-Save on Exit) ---
   useEffect(() => {
@@ -93,17 +112,31 @@ const App: React.FC = () => {
         e.preventDefault();
         setIsCmdPaletteOpen(prev => !prev);
       }
+
+      // Undo/Redo; text fields keep their native undo
+      const target = e.target as HTMLElement;
+      const isEditingText = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if ((e.metaKey || e.ctrlKey) && !isEditingText && !appStore.getState().isLoading) {
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+          e.preventDefault();
+          HistoryService.undo();
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+          e.preventDefault();
+          HistoryService.redo();
+        }
+      }
     };
     
     // Auto-save on visibility change (Mobile/Desktop Exit)
     const handleVisibilityChange = () => {
         if (document.visibilityState === 'hidden') {
             const currentState = appStore.getState();
-            const token = AuthService.getToken();
-            // Only sync if logged in and not currently syncing
-            if (token && currentState.user && currentState.user.provider === 'google') {
+            const backend = SyncService.resolveBackend(currentState);
+            // Only sync if a sync backend is configured
+            if (backend && !currentState.isLoading) {
                 console.log('App hidden: Triggering auto-save to cloud...');
-                SyncService.upload(currentState, token, 'google')
+                runCloudSync(currentState, backend)
                     .then(() => console.log('Auto-save complete'))
                     .catch(e => console.error('Auto-save failed', e));
             }
@@ -148,76 +181,67 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Shake to undo asks first, a shake is easy to trigger by accident
   const handleUndo = async () => {
-    if (lastDeletedTask.current) {
-       if (confirm(`Вернуть удаленную задачу "${lastDeletedTask.current.title}"?`)) {
-          const t = lastDeletedTask.current;
-          await StorageService.addTask(t);
-          appStore.addTask(t);
-          lastDeletedTask.current = null;
-          if (navigator.vibrate) navigator.vibrate(50);
-       }
+    const { undo } = appStore.getHistory();
+    const last = undo[undo.length - 1];
+    if (last && !appStore.getState().isLoading && confirm(`Отменить: ${last.label}?`)) {
+       await HistoryService.undo();
+       if (navigator.vibrate) navigator.vibrate(50);
     }
   };
 
   // --- Initialization & Theme ---
 
   useEffect(() => {
-    if (state.settings.theme === 'dark') {
+    if (settings.theme === 'dark') {
       document.documentElement.classList.add('dark');
     } else {
       document.documentElement.classList.remove('dark');
     }
-  }, [state.settings.theme]);
+  }, [settings.theme]);
 
   const loadData = async () => {
     const measure = MonitoringService.startTransaction('app_load_data');
-    const tasks = await StorageService.getTasks();
+    // Tasks sealed by the app lock skip the schema migration
+    const tasks = (await StorageService.getTasks()).map(t => normalizeTaskReminders(normalizeTaskRecurrence(t)));
     const notes = await StorageService.getNotes();
     const goals = await StorageService.getGoals();
-    const automations = await StorageService.getAutomations();
+    // Rules sealed by the app lock skip the schema migration
+    const automations = (await StorageService.getAutomations()).map(normalizeLegacyRule);
     const templates = await StorageService.getTemplates();
     const memory = await StorageService.getMemory();
-    const legacyColumns = await StorageService.getColumns();
     const loadedBoards = await StorageService.getBoards();
     const globalEvents = await StorageService.getGlobalEvents();
-    
-    // --- Boards Migration & Init ---
-    let finalBoards: Board[] = [];
-    let defaultBoardId = 'default-board';
-
-    if (loadedBoards.length > 0) {
-        finalBoards = loadedBoards;
-        defaultBoardId = loadedBoards[0].id;
-    } else {
-        // Create default board, optionally using legacy columns if they exist
-        const columns = legacyColumns.length > 0 ? legacyColumns : DEFAULT_COLUMNS;
+    const syncConflicts = await StorageService.getSyncConflicts();
+    const tombstones = await StorageService.compactTombstones();
+    const storedSettings = await StorageService.getSettings();
+    const { secrets, locked } = await SecretsService.load();
+
+    // Legacy data is upgraded by the schema migrations (services/storageMigrations.ts).
+    // Boards can still be empty after an overwrite import of a file without boards.
+    let finalBoards: Board[] = loadedBoards;
+    if (finalBoards.length === 0) {
         const defaultBoard: Board = {
-            id: defaultBoardId,
+            id: 'default-board',
             title: 'Главная',
-            columns: columns
+            columns: DEFAULT_COLUMNS,
+            updatedAt: 0 // Loses against any synced version of the default board
         };
         finalBoards = [defaultBoard];
         await StorageService.saveBoard(defaultBoard);
     }
+    const defaultBoardId = finalBoards[0].id;
 
     // --- Task Processing ---
-    const newRecurringTasks = await AutomationService.checkRecurringTasks(tasks);
+    // Occurrences of recurring series are stored by SchedulerService
     let finalTasks = tasks;
-    if (newRecurringTasks.length > 0) {
-      finalTasks = [...tasks, ...newRecurringTasks];
-    }
-    
-    finalTasks = finalTasks.map(t => ({
-      ...t,
-      status: t.status || (t.completed ? 'done' : 'backlog'),
-      tags: t.tags || [],
-      order: t.order || 0,
-      eventType: t.eventType || 'task',
-      color: t.color || '#3b82f6',
-      recurrence: t.recurrence || 'none',
-      boardId: t.boardId || defaultBoardId // Migrate old tasks to default board
-    }));
+
+    // Reattach tasks without a board, or whose board never arrived (synced before boards were merged)
+    const attachedTasks = SyncService.reattachOrphanedTasks(finalTasks, finalBoards);
+    const orphaned = attachedTasks.filter((t, i) => t.boardId !== finalTasks[i].boardId);
+    await Promise.all(orphaned.map(t => StorageService.saveTask(t)));
+    finalTasks = attachedTasks;
     measure.finish();
     
     return { 
@@ -229,7 +253,12 @@ const App: React.FC = () => {
         memory, 
         boards: finalBoards,
         activeBoardId: defaultBoardId,
-        globalEvents
+        globalEvents,
+        syncConflicts,
+        tombstones,
+        settings: { ...appStore.getState().settings, ...storedSettings },
+        secrets,
+        secretsLocked: locked
     };
   };
 
@@ -266,9 +295,18 @@ const App: React.FC = () => {
       let token = authResult?.token || AuthService.getToken();
       
       await StorageService.init();
+
+      if (await AppLockService.init()) {
+        setIsLocked(true);
+        await new Promise<void>(resolve => { unlockResolver.current = resolve; });
+      }
+      await TabSyncService.init();
       DeveloperApiService.init();
       
       const loadedData = await loadData();
+      await OpLogService.init();
+      PersistenceService.init();
+      await HistoryService.init();
 
       let user: User | null = null;
       if (token) {
@@ -282,18 +320,42 @@ const App: React.FC = () => {
       const loadedState = { 
         ...loadedData, 
         user, 
-        settings: state.settings, 
         isLoading: false 
       };
 
-      appStore.setState(loadedState);
+      appStore.setState(loadedState, { source: 'load' });
       NotificationService.requestPermission();
-
-      if (token && user) {
-        await performInitialSync(token, user.provider, loadedState);
+      await applyAppLockConfig();
+
+      await startSync();
+      // Every tab ticks, only the leader runs the rules and fires reminders
+      SchedulerService.init();
+      ReminderService.init();
+      WebhookService.init();
+      NotificationActionService.init();
+      NotificationActionService.onOpenTask(task => {
+         setEditingTask(task);
+         setIsModalOpen(true);
+      });
+
+      // A notification action the service worker could not apply itself (sealed task or unstored series occurrence)
+      const notificationTaskId = params.get('task');
+      if (notificationTaskId) {
+         const notificationAction = (params.get('notification_action') || 'open') as TaskNotificationAction;
+         await NotificationActionService.apply(notificationAction, notificationTaskId, params.get('reminder') || undefined, Number(params.get('at')) || undefined);
+         window.history.replaceState(null, '', window.location.pathname);
       }
 
-      if (loadedState.settings.openRouterApiKey && (action === 'briefing' || !action) && mode !== 'widget' && mode !== 'test') {
+      // Take over from a closed leader: catch up on recurring series, time-based rules and reminders, then sync
+      TabSyncService.onBecomeLeader(async () => {
+        if (appStore.getState().isLoading) return;
+        await refreshData({ source: 'load', persisted: true });
+        await SchedulerService.run();
+        await ReminderService.run();
+        triggerCloudSync(appStore.getState());
+      });
+
+      if (loadedState.secrets.openRouterApiKey && (action === 'briefing' || !action) && mode !== 'widget' && mode !== 'test') {
          CopilotService.generateMorningBriefing(loadedState).then(res => {
            if (res) setBriefing(res);
          });
@@ -303,35 +365,85 @@ const App: React.FC = () => {
     initApp();
   }, []);
 
-  const refreshData = async () => {
+  // Imports made by the user are 'local' so the op log records them; data pulled by sync is not
+  const refreshData = async (meta: UpdateMeta = { source: 'load' }) => {
     setIsSyncing(true);
+    // Reading back from IndexedDB must not drop store changes that are still queued
+    await PersistenceService.flush();
     const data = await loadData();
-    appStore.setState(data);
+    appStore.setState(data, meta);
     setIsSyncing(false);
   };
 
+  // --- App Lock ---
+
+  const applyAppLockConfig = async () => {
+    const config = await AppLockService.getConfig();
+    if (config?.enabled) {
+      AppLockService.watchIdle(config.idleMinutes, handleLockApp);
+    } else {
+      AppLockService.unwatchIdle();
+    }
+  };
+
+  // Drops the key and every decrypted record from memory
+  const handleLockApp = async () => {
+    await PersistenceService.flush();
+    await OpLogService.flush();
+    await HistoryService.flush();
+    AppLockService.lock();
+    appStore.clearHistory();
+    AppLockService.unwatchIdle();
+    appStore.setState({
+      tasks: [], notes: [], goals: [], automations: [], templates: [], memory: [], globalEvents: [],
+      secrets: {}, isLoading: true
+    }, { source: 'load' });
+    setIsLocked(true);
+  };
+
+  const handleUnlocked = async () => {
+    setIsLocked(false);
+    if (unlockResolver.current) {
+      // Startup continues in initApp
+      unlockResolver.current();
+      unlockResolver.current = null;
+      return;
+    }
+    await refreshData();
+    await HistoryService.load();
+    appStore.setState({ isLoading: false }, { source: 'load' });
+    await applyAppLockConfig();
+    await startSync();
+  };
+
   // --- Sync Logic ---
 
-  const performInitialSync = async (token: string, provider: any, localState: AppState) => {
+  // Download + three-way merge + upload; applies whatever the cloud contributed
+  const runCloudSync = async (localState: AppState, backend: SyncBackend) => {
+    const result = await SyncService.sync(localState, backend);
+    if (!result.success || !result.data) throw new Error(result.error || 'Sync failed');
+
+    if (result.hasRemoteChanges) {
+      await handleImportData(result.data, true, true);
+    }
+    appStore.setState({ lastSynced: result.timestamp, syncConflicts: result.conflicts || [] });
+  };
+
+  const performInitialSync = async (backend: SyncBackend, localState: AppState) => {
     setIsSyncing(true);
     try {
-      const cloudResult = await SyncService.download(token, provider);
-      
-      if (cloudResult.data) {
-        const localTime = localState.lastSynced || 0;
-        const cloudTime = cloudResult.updatedAt;
-
-        // Auto-load if cloud is newer (more than 1 minute) or if local is empty
-        const isLocalEmpty = localState.tasks.length === 0 && localState.notes.length === 0;
-        
-        if (isLocalEmpty || cloudTime > localTime + 60000) {
-             const newData = cloudResult.data;
-             await handleImportData(newData, false); // False = overwrite
-             console.log('Auto-loaded data from cloud');
-        } else if (cloudResult.data.settings) {
-            // Just sync settings if data is not newer
-            appStore.setState(prev => ({ settings: { ...prev.settings, ...cloudResult.data?.settings } }));
+      // Fresh device: take the cloud copy as is, it also becomes the merge base
+      const isLocalEmpty = localState.tasks.length === 0 && localState.notes.length === 0;
+
+      if (isLocalEmpty) {
+        const cloudResult = await SyncService.download(backend, localState.secrets?.encryptionPassword);
+        if (cloudResult.data) {
+          await handleImportData(cloudResult.data, false, true); // False = overwrite
+          await StorageService.saveSyncBase(cloudResult.data);
+          console.log('Auto-loaded data from cloud');
         }
+      } else {
+        await runCloudSync(localState, backend);
       }
     } catch (e) {
       console.error("Initial Sync Failed", e);
@@ -341,8 +453,16 @@ const App: React.FC = () => {
     }
   };
 
+  // On startup and on unlock; does nothing while the secrets vault is locked (see SyncService.resolveBackend)
+  const startSync = async () => {
+    const backend = SyncService.resolveBackend(appStore.getState());
+    if (backend && TabSyncService.isLeader()) {
+      await performInitialSync(backend, appStore.getState());
+    }
+  };
+
   const triggerCloudSync = useCallback((newState: AppState) => {
-    if (!newState.user || !AuthService.getToken()) return;
+    if (!SyncService.resolveBackend(newState)) return;
 
     if (syncTimeoutRef.current) {
       clearTimeout(syncTimeoutRef.current);
@@ -351,10 +471,10 @@ const App: React.FC = () => {
     setIsSyncing(true);
     syncTimeoutRef.current = window.setTimeout(async () => {
       try {
-        const token = AuthService.getToken();
-        if (token && newState.user) {
-          await SyncService.upload(newState, token, newState.user.provider);
-          appStore.setState({ lastSynced: Date.now() });
+        const currentState = appStore.getState();
+        const backend = SyncService.resolveBackend(currentState);
+        if (backend && !currentState.isLoading) {
+          await runCloudSync(currentState, backend);
         }
       } catch (e) {
         console.error("Auto-sync failed", e);
@@ -366,11 +486,11 @@ const App: React.FC = () => {
   }, []);
 
   // Monitor state changes for sync
-  useEffect(() => {
-    if (!state.isLoading && state.user) {
+  useEffect(() => appStore.subscribe((state, prev) => {
+    if (!state.isLoading && TabSyncService.isLeader() && SYNCED_KEYS.some(key => state[key] !== prev[key])) {
        triggerCloudSync(state);
     }
-  }, [state.tasks, state.notes, state.goals, state.settings, state.boards, state.globalEvents]);
+  }), [triggerCloudSync]);
 
 
   // --- Handlers ---
@@ -379,28 +499,51 @@ const App: React.FC = () => {
     appStore.setState(prev => ({ settings: { ...prev.settings, ...newSettings } }));
   };
 
+  const handleUpdateSecrets = (newSecrets: Partial<AppSecrets>) => {
+    appStore.setState(prev => ({ secrets: { ...prev.secrets, ...newSecrets } }));
+    SecretsService.save(appStore.getState().secrets || {}).catch((e: Error) => alert(e.message));
+  };
+
+  const handleUnlockSecrets = async (passphrase: string) => {
+    const secrets = await SecretsService.unlock(passphrase);
+    appStore.setState({ secrets, secretsLocked: false });
+    // Sync and webhook signatures waited for the vault
+    await WebhookService.signHeld();
+    await startSync();
+  };
+
+  const handleSetVaultPassphrase = async (passphrase: string | null) => {
+    await SecretsService.setPassphrase(appStore.getState().secrets || {}, passphrase);
+  };
+
   const handleUpdateGoals = (newGoals: Goal[]) => {
-    appStore.setState({ goals: newGoals });
+    appStore.setGoals(newGoals);
   };
 
   const handleUpdateAutomations = (rules: AutomationRule[]) => {
-      appStore.setState({ automations: rules });
+      appStore.setAutomations(rules);
   };
 
   const handleUpdateTemplates = (tpls: ProjectTemplate[]) => {
-      appStore.setState({ templates: tpls });
+      appStore.setTemplates(tpls);
   };
 
-  const handleSaveTask = async (taskData: Partial<Task>) => {
+  const handleSaveTask = async (taskData: Partial<Task>, scope?: SeriesEditScope) => {
     const transaction = MonitoringService.startTransaction('save_task');
+    const state = appStore.getState();
     try {
         if (editingTask) {
-          const oldTask = state.tasks.find(t => t.id === editingTask.id) || null;
+          const oldTask = selectTasksById(state).get(editingTask.id) || null;
           let updatedTask = { ...editingTask, ...taskData, updatedAt: Date.now() };
           updatedTask = await AutomationService.evaluateRules(updatedTask as Task, oldTask, state.automations);
 
-          await StorageService.updateTask(updatedTask.id, updatedTask);
-          appStore.updateTask(updatedTask);
+          if (scope) {
+            // An occurrence of a recurring series, possibly a virtual one from the calendar
+            const { upserts, deletes } = SeriesService.edit(editingTask, updatedTask, scope, appStore.getState().tasks);
+            appStore.saveTasks(upserts, deletes);
+          } else {
+            appStore.updateTask(updatedTask);
+          }
         } else {
           // If no boardId provided (e.g. from quick add), use active board
           const targetBoardId = taskData.boardId || state.activeBoardId || state.boards[0].id;
@@ -417,10 +560,9 @@ const App: React.FC = () => {
             endTime: taskData.endTime,
             eventType: taskData.eventType,
             color: taskData.color,
-            reminderTime: taskData.reminderTime,
-            reminderFired: false,
+            reminders: taskData.reminders ?? ReminderService.defaultsFor(taskData.eventType, state.settings),
             completed: taskData.status === 'done',
-            recurrence: taskData.recurrence || 'none',
+            recurrence: taskData.recurrence,
             timeLogs: taskData.timeLogs,
             order: Date.now(),
             createdAt: Date.now(),
@@ -431,7 +573,6 @@ const App: React.FC = () => {
           };
           
           newTask = await AutomationService.evaluateRules(newTask, null, state.automations);
-          await StorageService.addTask(newTask);
           appStore.addTask(newTask);
         }
     } finally {
@@ -451,13 +592,12 @@ const App: React.FC = () => {
     };
 
     updatedTask = await AutomationService.evaluateRules(updatedTask, task, appStore.getState().automations);
-    
-    await StorageService.updateTask(taskId, updatedTask);
     appStore.updateTask(updatedTask);
   }, []);
 
   const handleUpdateTaskDate = useCallback(async (taskId: string, newDateTimestamp: number) => {
-    const task = appStore.getState().tasks.find(t => t.id === taskId);
+    const tasks = appStore.getState().tasks;
+    const task = SeriesService.resolve(taskId, tasks);
     if (!task) return;
 
     // Preserve time if moving to a new day, or default to start of day
@@ -466,63 +606,87 @@ const App: React.FC = () => {
     newDate.setHours(oldDate.getHours(), oldDate.getMinutes());
 
     const updates: Partial<Task> = {
-        startTime: task.startTime ? newDate.getTime() : undefined,
-        deadline: task.deadline ? newDate.getTime() : (!task.startTime ? newDate.getTime() : undefined),
+        ...SeriesService.moveDates(task, newDate.getTime()),
         updatedAt: Date.now()
     };
 
-    await StorageService.updateTask(taskId, { ...task, ...updates });
-    appStore.updateTask({ ...task, ...updates });
+    if (SeriesService.seriesIdOf(task)) {
+      // Dragging reschedules this occurrence only
+      const { upserts, deletes } = SeriesService.edit(task, { ...task, ...updates }, 'this', tasks);
+      appStore.saveTasks(upserts, deletes);
+    } else {
+      appStore.updateTask({ ...task, ...updates });
+    }
+  }, []);
+
+  const handleSkipOccurrence = useCallback((task: Task) => {
+    const { upserts, deletes } = SeriesService.skip(task, appStore.getState().tasks);
+    appStore.saveTasks(upserts, deletes);
   }, []);
 
   const handleDeleteTask = useCallback(async (id: string) => {
-    const task = state.tasks.find(t => t.id === id);
-    if (task) lastDeletedTask.current = task; // Save for Undo
-    
-    await StorageService.deleteTask(id);
-    appStore.deleteTask(id);
+    const tasks = appStore.getState().tasks;
+    const task = tasks.find(t => t.id === id);
+    // A deleted instance is skipped, otherwise the scheduler would store its occurrence again
+    if (task?.seriesId && SeriesService.masterOf(task, tasks)) {
+      handleSkipOccurrence(task);
+    } else {
+      appStore.deleteTask(id);
+    }
     setIsModalOpen(false);
-  }, [state.tasks]);
+  }, [handleSkipOccurrence]);
 
   const handleSaveNote = async (note: Partial<Note>) => {
-     const existingIndex = state.notes.findIndex(n => n.id === note.id);
-     if (existingIndex >= 0) {
-       const updatedNote = { ...state.notes[existingIndex], ...note, updatedAt: Date.now() };
-       await StorageService.updateNote(note.id!, updatedNote);
-       appStore.setState(prev => ({
-         notes: prev.notes.map(n => n.id === note.id ? updatedNote : n)
-       }));
+     const existing = note.id ? selectNotesById(appStore.getState()).get(note.id) : undefined;
+     if (existing) {
+       appStore.updateNote({ ...existing, ...note, updatedAt: Date.now() });
      } else {
-       const newNote = note as Note; 
-       await StorageService.addNote(newNote);
-       appStore.setState(prev => ({
-         notes: [newNote, ...prev.notes]
-       }));
+       appStore.addNote(note as Note);
      }
   };
 
   const handleDeleteNote = async (id: string) => {
-    await StorageService.deleteNote(id);
-    appStore.setState(prev => ({
-      notes: prev.notes.filter(n => n.id !== id)
-    }));
+    appStore.deleteNote(id);
   };
 
-  const handleImportData = async (data: AppState, merge: boolean) => {
+  // Bulk path: writes straight to IndexedDB, then reloads the store from it
+  const handleImportData = async (data: AppState, merge: boolean, fromSync = false) => {
+    // Queued store writes must not land on top of the imported data
+    await PersistenceService.flush();
     if (!merge) {
-      await Promise.all(state.tasks.map(t => StorageService.deleteTask(t.id)));
-      await Promise.all(state.notes.map(n => StorageService.deleteNote(n.id)));
-      await Promise.all(state.boards.map(b => StorageService.deleteBoard(b.id)));
-      await Promise.all(state.globalEvents.map(e => StorageService.deleteGlobalEvent(e.id)));
+      // Overwrite: wipe without tombstones, otherwise the import would be deleted again on next sync
+      await StorageService.clearEntities();
     }
     
-    if (data.tasks) await Promise.all(data.tasks.map(t => StorageService.addTask(t)));
-    if (data.notes) await Promise.all(data.notes.map(n => StorageService.addNote(n)));
+    // Export files of older versions predate the task migrations
+    if (data.tasks) await Promise.all(data.tasks.map(t => StorageService.saveTask(normalizeLegacyTask(t))));
+    if (data.notes) await Promise.all(data.notes.map(n => StorageService.saveNote(n)));
     if (data.goals) await Promise.all(data.goals.map(g => StorageService.addGoal(g)));
+    if (data.automations) await Promise.all(data.automations.map(r => StorageService.addAutomation(normalizeLegacyRule(r))));
     if (data.boards) await Promise.all(data.boards.map(b => StorageService.saveBoard(b)));
     if (data.globalEvents) await Promise.all(data.globalEvents.map(e => StorageService.addGlobalEvent(e)));
+    // Deletions made on other devices
+    if (data.tombstones) await StorageService.applyTombstones(data.tombstones);
+    // Files exported by older versions may still carry secrets, the local vault stays authoritative
+    if (data.settings) await StorageService.saveSettings({ ...appStore.getState().settings, ...SecretsService.stripSettings(data.settings) });
     
-    await refreshData();
+    // Too large to undo; an overwrite also leaves the old history pointing at entities that are gone
+    await refreshData({ source: fromSync ? 'load' : 'local', skipHistory: true, persisted: true });
+    if (!merge && !fromSync) await HistoryService.clear();
+  };
+
+  const handleResolveConflict = async (conflictId: string, side: 'local' | 'cloud') => {
+    const resolution = SyncService.resolveConflict(appStore.getState(), conflictId, side);
+    if (!resolution) return;
+
+    const { entityType, entity, syncConflicts } = resolution;
+    if (entity) {
+      if (entityType === 'tasks') appStore.updateTask(entity);
+      else if (entityType === 'notes') appStore.updateNote(entity);
+      else if (entityType === 'boards') appStore.updateBoard(entity);
+    }
+    await StorageService.saveSyncConflicts(syncConflicts);
+    appStore.setState({ syncConflicts });
   };
 
   const handleClearData = async () => {
@@ -531,7 +695,8 @@ const App: React.FC = () => {
     appStore.setState({
       tasks: [], notes: [], goals: [], automations: [], templates: [], memory: [], boards: [], globalEvents: [],
       user: null, settings: { theme: 'dark' }, isLoading: false
-    });
+    }, { source: 'local', skipHistory: true, persisted: true });
+    appStore.clearHistory();
   };
 
   const handleLogout = () => {
@@ -540,13 +705,11 @@ const App: React.FC = () => {
   };
 
   const handleUpdateTaskLog = async (taskId: string, start: number, end: number) => {
-    const task = state.tasks.find(t => t.id === taskId);
+    const task = selectTasksById(appStore.getState()).get(taskId);
     if (!task) return;
     
     const newLogs = [...(task.timeLogs || []), { start, end }];
-    const updatedTask = { ...task, timeLogs: newLogs };
-    await StorageService.updateTask(taskId, updatedTask);
-    appStore.updateTask(updatedTask);
+    appStore.updateTask({ ...task, timeLogs: newLogs });
   };
 
   // --- Magic Input Result Handler ---
@@ -562,14 +725,14 @@ const App: React.FC = () => {
           const newBoard: Board = {
               id: boardId,
               title: result.data.title,
-              columns
+              columns,
+              updatedAt: Date.now()
           };
           
-          await StorageService.saveBoard(newBoard);
-          appStore.updateBoard(newBoard);
+          appStore.addBoard(newBoard);
           appStore.setActiveBoard(boardId); // Switch to new board
 
-          // Create Tasks for Board
+          // Create Tasks for Board (same undo step as the board)
           for (const t of result.data.tasks) {
               const colId = columns.find(c => c.title === t.column)?.id || columns[0].id;
               const task: Task = {
@@ -584,7 +747,6 @@ const App: React.FC = () => {
                   updatedAt: Date.now(),
                   order: Date.now()
               };
-              await StorageService.addTask(task);
               appStore.addTask(task);
           }
           setViewMode('board');
@@ -616,11 +778,11 @@ const App: React.FC = () => {
       const newBoard: Board = {
           id: boardId,
           title,
-          columns: colDefs
+          columns: colDefs,
+          updatedAt: Date.now()
       };
       
-      await StorageService.saveBoard(newBoard);
-      appStore.updateBoard(newBoard);
+      appStore.addBoard(newBoard);
       appStore.setActiveBoard(boardId);
       
       if (tasks && tasks.length > 0) {
@@ -638,14 +800,17 @@ const App: React.FC = () => {
                   updatedAt: Date.now(),
                   order: Date.now()
               };
-              await StorageService.addTask(task);
               appStore.addTask(task);
           }
       }
       setViewMode('board');
   };
 
-  if (state.isLoading) {
+  if (isLocked) {
+    return <LockScreen onUnlocked={handleUnlocked} />;
+  }
+
+  if (isLoading) {
     return (
       <div className="flex h-screen items-center justify-center bg-background">
         <Skeleton className="h-12 w-12 rounded-full" />
@@ -656,12 +821,13 @@ const App: React.FC = () => {
   // Check for Widget Mode
   const isWidgetMode = new URLSearchParams(window.location.search).get('mode') === 'widget';
   if (isWidgetMode) {
-    return <WidgetView appState={state} onToggleTask={(id, c) => handleMoveTask(id, c ? 'done' : 'in-progress')} />;
+    return <WidgetView onToggleTask={(id, c) => handleMoveTask(id, c ? 'done' : 'in-progress')} />;
   }
 
   return (
     <>
       <InstallPwaPrompt />
+      <UndoToast />
       {/* Test Runner Overlay */}
       {testResults && (
         <div className="fixed inset-0 z-[100] bg-black/80 flex items-center justify-center p-4">
@@ -699,9 +865,9 @@ const App: React.FC = () => {
         setViewMode={setViewMode}
         isSidebarOpen={isSidebarOpen}
         toggleSidebar={() => setIsSidebarOpen(!isSidebarOpen)}
-        user={state.user}
+        user={user}
         isSyncing={isSyncing}
-        lastSynced={state.lastSynced}
+        lastSynced={lastSynced}
         onNewTask={() => {
            setEditingTask(null);
            setIsModalOpen(true);
@@ -727,18 +893,15 @@ const App: React.FC = () => {
         <CommandPalette 
           isOpen={isCmdPaletteOpen}
           onClose={() => setIsCmdPaletteOpen(false)}
-          tasks={state.tasks}
-          notes={state.notes}
           onNavigate={(mode) => setViewMode(mode)}
           onSelectTask={(task) => { setEditingTask(task); setIsModalOpen(true); }}
           onSelectNote={(note) => { setViewMode('notes'); /* logic to select note */ }}
-          toggleTheme={() => handleUpdateSettings({ theme: state.settings.theme === 'dark' ? 'light' : 'dark' })}
+          toggleTheme={() => handleUpdateSettings({ theme: settings.theme === 'dark' ? 'light' : 'dark' })}
         />
 
         <Suspense fallback={<PageSkeleton />}>
           {viewMode === 'tasks' && (
              <TaskList 
-               tasks={state.tasks} 
                onAdd={async (t) => handleSaveTask({title: t, status: 'backlog'})} 
                onToggle={(id, c) => handleMoveTask(id, c ? 'done' : 'in-progress')}
                onDelete={handleDeleteTask}
@@ -749,7 +912,6 @@ const App: React.FC = () => {
           {viewMode === 'board' && (
             <div className="h-full">
               <KanbanBoard 
-                tasks={state.tasks} 
                 onTaskClick={(t) => { setEditingTask(t); setIsModalOpen(true); }}
                 onMoveTask={handleMoveTask}
                 onAddClick={(s) => { setInitialModalStatus(s); setIsModalOpen(true); }}
@@ -760,8 +922,6 @@ const App: React.FC = () => {
           {viewMode === 'calendar' && (
             <div className="h-full">
               <CalendarView 
-                tasks={state.tasks}
-                notes={state.notes}
                 onTaskClick={(t) => { setEditingTask(t); setIsModalOpen(true); }}
                 onDateClick={(date) => { setInitialModalDate(date); setIsModalOpen(true); }}
                 onTaskDrop={handleUpdateTaskDate}
@@ -772,7 +932,6 @@ const App: React.FC = () => {
           {viewMode === 'notes' && (
             <div className="h-full">
               <NotesView 
-                notes={state.notes}
                 onSaveNote={handleSaveNote}
                 onDeleteNote={handleDeleteNote}
                 onCreateTask={(t, d) => {
@@ -780,37 +939,40 @@ const App: React.FC = () => {
                   setPrefillTaskData({ title: t, description: d || '' });
                   setIsModalOpen(true);
                 }}
-                openRouterApiKey={state.settings.openRouterApiKey}
-                aiModel={state.settings.aiModel}
+                openRouterApiKey={openRouterApiKey}
+                aiModel={settings.aiModel}
               />
             </div>
           )}
 
           {viewMode === 'analytics' && (
             <AnalyticsView 
-              appState={state}
               onUpdateGoals={handleUpdateGoals}
             />
           )}
 
           {viewMode === 'automation' && (
              <AutomationView 
-               appState={state}
                onUpdateAutomations={handleUpdateAutomations}
                onUpdateTemplates={handleUpdateTemplates}
-               onRefresh={refreshData}
+               onUpdateSecrets={handleUpdateSecrets}
              />
           )}
           
           {viewMode === 'settings' && (
             <SettingsView 
-              user={state.user}
-              settings={state.settings}
-              appState={state}
-              lastSynced={state.lastSynced}
+              user={user}
+              settings={settings}
+              lastSynced={lastSynced}
               onUpdateSettings={handleUpdateSettings}
+              onUpdateSecrets={handleUpdateSecrets}
+              onUnlockSecrets={handleUnlockSecrets}
+              onSetVaultPassphrase={handleSetVaultPassphrase}
+              onAppLockChanged={applyAppLockConfig}
+              onLockApp={handleLockApp}
               onImportData={handleImportData}
               onClearData={handleClearData}
+              onResolveConflict={handleResolveConflict}
               onLogout={handleLogout}
             />
           )}
@@ -826,28 +988,31 @@ const App: React.FC = () => {
         isOpen={isModalOpen}
         onClose={() => setIsModalOpen(false)}
         onSave={handleSaveTask}
+        onSkipOccurrence={handleSkipOccurrence}
         initialStatus={initialModalStatus}
         initialDate={initialModalDate}
         taskToEdit={editingTask}
         initialData={prefillTaskData}
-        openRouterApiKey={state.settings.openRouterApiKey}
-        aiModel={state.settings.aiModel}
+        openRouterApiKey={openRouterApiKey}
+        aiModel={settings.aiModel}
       />
 
       <MagicInput 
         isOpen={isMagicOpen}
         onClose={() => setIsMagicOpen(false)}
-        appState={state}
         onResult={handleMagicResult}
       />
 
       <Suspense fallback={null}>
         <ChatAssistant 
-          appState={state}
           isOpen={isChatOpen}
           onToggle={() => setIsChatOpen(!isChatOpen)}
-          onUpdateSettings={(key, tone, voice) => handleUpdateSettings({ openRouterApiKey: key, assistantTone: tone, voiceEnabled: voice })}
+          onUpdateSettings={(key, tone, voice) => {
+            handleUpdateSecrets({ openRouterApiKey: key });
+            handleUpdateSettings({ assistantTone: tone, voiceEnabled: voice });
+          }}
           onAddTask={async (t) => {
+            const { activeBoardId, boards, automations } = appStore.getState();
             const nt: any = { 
                 ...t, 
                 id: crypto.randomUUID(), 
@@ -858,15 +1023,14 @@ const App: React.FC = () => {
                 color: '#3b82f6', 
                 completed: false, 
                 order: Date.now(),
-                boardId: state.activeBoardId || state.boards[0]?.id
+                boardId: activeBoardId || boards[0]?.id
             };
-            const processed = await AutomationService.evaluateRules(nt, null, state.automations);
-            await StorageService.addTask(processed);
+            const processed = await AutomationService.evaluateRules(nt, null, automations);
             appStore.addTask(processed);
           }}
           onUpdateTask={async (id, u) => {
-            await StorageService.updateTask(id, u);
-            appStore.updateTask({ ...state.tasks.find(t => t.id === id)!, ...u });
+            const task = appStore.getState().tasks.find(t => t.id === id);
+            if (task) appStore.updateTask({ ...task, ...u });
           }}
           onAddNote={handleSaveNote}
           onCreateBoard={handleCreateBoard} // New Prop
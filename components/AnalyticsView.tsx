@@ -1,13 +1,13 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { AppState, Goal, DashboardWidgetConfig, Task } from '../types';
+import { Goal, DashboardWidgetConfig, Task } from '../types';
 import { StorageService } from '../services/storageService';
 import { AiService } from '../services/aiService';
 import { AnalyticsService } from '../services/analyticsService';
 import { WorkerService } from '../services/workerService';
+import { useStoreSelector } from '../lib/useStore';
 
 interface AnalyticsViewProps {
-  appState: AppState;
   onUpdateGoals: (goals: Goal[]) => void;
 }
 
@@ -19,9 +19,11 @@ const DEFAULT_WIDGETS: DashboardWidgetConfig[] = [
   { id: 'w_gantt', type: 'gantt', title: 'Хронология и Зависимости', w: 'col-span-1 md:col-span-3' },
 ];
 
-export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ appState, onUpdateGoals }) => {
+export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ onUpdateGoals }) => {
+  const tasks = useStoreSelector(s => s.tasks);
+  const dashboardLayout = useStoreSelector(s => s.settings.dashboardLayout);
   const [widgets, setWidgets] = useState<DashboardWidgetConfig[]>(
-    appState.settings.dashboardLayout || DEFAULT_WIDGETS
+    dashboardLayout || DEFAULT_WIDGETS
   );
   const [report, setReport] = useState<string>('');
   const [isGenerating, setIsGenerating] = useState(false);
@@ -37,15 +39,15 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ appState, onUpdate
 
   useEffect(() => {
     // Basic stats
-    setWeeklyStats(AnalyticsService.getWeeklyActivity(appState.tasks));
-    setStatusStats(AnalyticsService.getStatusDistribution(appState.tasks));
+    setWeeklyStats(AnalyticsService.getWeeklyActivity(tasks));
+    setStatusStats(AnalyticsService.getStatusDistribution(tasks));
 
     // Advanced Stats
-    setHeatmapData(AnalyticsService.getHeatmapData(appState.tasks));
-    setTimeStats(AnalyticsService.getTimeStats(appState.tasks));
-    setBottlenecks(AnalyticsService.detectBottlenecks(appState.tasks));
-    setPrediction(AnalyticsService.predictCompletion(appState.tasks));
-  }, [appState.tasks]);
+    setHeatmapData(AnalyticsService.getHeatmapData(tasks));
+    setTimeStats(AnalyticsService.getTimeStats(tasks));
+    setBottlenecks(AnalyticsService.detectBottlenecks(tasks));
+    setPrediction(AnalyticsService.predictCompletion(tasks));
+  }, [tasks]);
 
   const handlePrintReport = () => {
     const printWindow = window.open('', '_blank');
@@ -114,7 +116,7 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ appState, onUpdate
 
   const renderGantt = () => {
     // Simplified Gantt: Just active tasks with timeline
-    const activeTasks = appState.tasks
+    const activeTasks = tasks
       .filter(t => !t.completed && t.deadline)
       .sort((a, b) => (a.startTime || a.createdAt) - (b.startTime || b.createdAt))
       .slice(0, 10);
@@ -150,7 +152,7 @@ export const AnalyticsView: React.FC<AnalyticsViewProps> = ({ appState, onUpdate
   const renderWidgetContent = (type: string) => {
     switch(type) {
       case 'summary':
-        const done = appState.tasks.filter(t => t.completed).length;
+        const done = tasks.filter(t => t.completed).length;
         return (
           <div className="flex justify-around items-center h-full">
             <div className="text-center">
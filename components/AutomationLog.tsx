@@ -0,0 +1,191 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { AutomationLogEntry, AutomationRunSource, ActionResult, WebhookDelivery } from '../types';
+import { AutomationLogService } from '../services/automationLogService';
+import { WebhookService } from '../services/webhookService';
+import { describeCondition, describeActions, fieldLabel } from './RuleEditor';
+
+const PAGE_SIZE = 50;
+
+const SOURCE_LABELS: Record<AutomationRunSource, string> = {
+  edit: 'Сохранение',
+  scheduler: 'Планировщик',
+};
+
+type Deliveries = Map<string, WebhookDelivery>;
+
+const isFailed = (result: ActionResult, deliveries: Deliveries) =>
+  !!result.error || (!!result.deliveryId && deliveries.get(result.deliveryId)?.state === 'failed');
+
+const describeDelivery = (delivery: WebhookDelivery | undefined): string => {
+  if (!delivery) return '';
+  switch (delivery.state) {
+    case 'awaiting_secret': return ' — ждёт разблокировки хранилища секретов';
+    case 'delivered': return ` — HTTP ${delivery.status}`;
+    case 'failed': return ` — не доставлен: ${delivery.status !== undefined ? `HTTP ${delivery.status}` : delivery.error}`;
+    case 'pending': return delivery.attempts > 0
+      ? ` — повтор в ${new Date(delivery.nextAttemptAt).toLocaleTimeString()} (попыток: ${delivery.attempts})`
+      : ' — в очереди';
+  }
+};
+
+// Queued webhook calls referenced by log entries, refreshed after every pass over the queue
+const useDeliveries = (): Deliveries => {
+  const [deliveries, setDeliveries] = useState<Deliveries>(new Map());
+  useEffect(() => {
+    const load = () => WebhookService.getDeliveries()
+      .then(list => setDeliveries(new Map(list.map(d => [d.id, d]))))
+      .catch(console.error);
+    load();
+    const unsubscribeQueue = WebhookService.subscribe(load);
+    const unsubscribeLog = AutomationLogService.subscribe(load);
+    return () => { unsubscribeQueue(); unsubscribeLog(); };
+  }, []);
+  return deliveries;
+};
+
+export const formatValue = (value: any): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// --- Entry ---
+
+const LogEntryItem: React.FC<{ entry: AutomationLogEntry, deliveries: Deliveries, showTask: boolean }> = ({ entry, deliveries, showTask }) => {
+  const failed = !!entry.loop || entry.actions.some(result => isFailed(result, deliveries));
+
+  return (
+    <div className={`bg-bg-surface border rounded-lg p-3 text-sm space-y-1 ${failed ? 'border-error/50' : 'border-border'}`}>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="font-semibold text-text-main">{entry.ruleName}</span>
+        {showTask && <span className="text-text-muted truncate">→ {entry.taskTitle}</span>}
+        <span className="text-xs px-1.5 py-0.5 rounded bg-bg-panel text-text-muted">{SOURCE_LABELS[entry.source]}</span>
+        {!!entry.depth && <span className="text-xs px-1.5 py-0.5 rounded bg-bg-panel text-text-muted">Цепочка, шаг {entry.depth + 1}</span>}
+        <span className="ml-auto text-xs text-text-muted">{new Date(entry.timestamp).toLocaleString()}</span>
+      </div>
+      <div className="text-text-muted">
+        <span className="font-medium">Условие:</span> {entry.matched.map(describeCondition).join(' И ') || '—'}
+      </div>
+      <div className="text-text-muted">
+        <span className="font-medium">Действия:</span>{' '}
+        {entry.actions.map((result, i) => (
+          <span key={i} className={isFailed(result, deliveries) ? 'text-error' : ''}>
+            {i > 0 && ', '}
+            {describeActions([result])}
+            {result.deliveryId && describeDelivery(deliveries.get(result.deliveryId))}
+            {result.error && ` — ${result.error}`}
+          </span>
+        ))}
+      </div>
+      {entry.changes.length > 0 && (
+        <ul className="text-xs text-text-muted pl-4 list-disc">
+          {entry.changes.map(change => (
+            <li key={change.field}>
+              {fieldLabel(change.field)}: <span className="line-through">{formatValue(change.before)}</span> → <span className="text-text-main">{formatValue(change.after)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {entry.loop && (
+        <div className="text-error">Цепочка остановлена, правила зациклились: {entry.loop.join(' → ')}</div>
+      )}
+    </div>
+  );
+};
+
+// --- Full log (AutomationView) ---
+
+export const AutomationLog: React.FC = () => {
+  const [entries, setEntries] = useState<AutomationLogEntry[]>([]);
+  const deliveries = useDeliveries();
+  const [ruleId, setRuleId] = useState('');
+  const [source, setSource] = useState<AutomationRunSource | ''>('');
+  const [search, setSearch] = useState('');
+  const [onlyFailed, setOnlyFailed] = useState(false);
+  const [visible, setVisible] = useState(PAGE_SIZE);
+
+  useEffect(() => {
+    AutomationLogService.getEntries().then(setEntries).catch(console.error);
+    return AutomationLogService.subscribe(entry => setEntries(prev => [entry, ...prev]));
+  }, []);
+
+  // Rules as named in the log, so deleted rules stay filterable
+  const ruleOptions = useMemo(() => {
+    const names = new Map<string, string>();
+    entries.forEach(e => { if (!names.has(e.ruleId)) names.set(e.ruleId, e.ruleName); });
+    return Array.from(names, ([id, name]) => ({ id, name }));
+  }, [entries]);
+
+  const filtered = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    return entries.filter(e =>
+      (!ruleId || e.ruleId === ruleId) &&
+      (!source || e.source === source) &&
+      (!query || e.taskTitle.toLowerCase().includes(query)) &&
+      (!onlyFailed || !!e.loop || e.actions.some(result => isFailed(result, deliveries)))
+    );
+  }, [entries, deliveries, ruleId, source, search, onlyFailed]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={ruleId} onChange={e => setRuleId(e.target.value)} className="input-field !w-auto text-sm">
+          <option value="">Все правила</option>
+          {ruleOptions.map(r => <option key={r.id} value={r.id}>{r.name}</option>)}
+        </select>
+        <select value={source} onChange={e => setSource(e.target.value as AutomationRunSource | '')} className="input-field !w-auto text-sm">
+          <option value="">Любой запуск</option>
+          {(Object.keys(SOURCE_LABELS) as AutomationRunSource[]).map(s => <option key={s} value={s}>{SOURCE_LABELS[s]}</option>)}
+        </select>
+        <input
+          value={search}
+          onChange={e => setSearch(e.target.value)}
+          className="input-field flex-1 min-w-[160px] text-sm"
+          placeholder="Поиск по задаче"
+        />
+        <label className="flex items-center gap-2 text-sm text-text-muted">
+          <input type="checkbox" checked={onlyFailed} onChange={e => setOnlyFailed(e.target.checked)} className="accent-primary" />
+          Только ошибки
+        </label>
+      </div>
+
+      {filtered.slice(0, visible).map(entry => <LogEntryItem key={entry.id} entry={entry} deliveries={deliveries} showTask />)}
+
+      {filtered.length === 0 && <p className="text-text-muted text-sm">Запусков пока нет.</p>}
+      {filtered.length > visible && (
+        <button onClick={() => setVisible(v => v + PAGE_SIZE)} className="text-sm text-primary hover:underline">
+          Показать ещё ({filtered.length - visible})
+        </button>
+      )}
+    </div>
+  );
+};
+
+// --- Per task (TaskModal) ---
+
+export const TaskAutomationHistory: React.FC<{ taskId: string }> = ({ taskId }) => {
+  const [entries, setEntries] = useState<AutomationLogEntry[]>([]);
+  const deliveries = useDeliveries();
+
+  useEffect(() => {
+    AutomationLogService.getForTask(taskId).then(setEntries).catch(console.error);
+    return AutomationLogService.subscribe(entry => {
+      if (entry.taskId === taskId) setEntries(prev => [entry, ...prev]);
+    });
+  }, [taskId]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <details className="rounded-lg border border-border p-3">
+      <summary className="text-sm font-medium text-text-muted cursor-pointer">
+        Почему изменилось: правила автоматизации ({entries.length})
+      </summary>
+      <div className="space-y-2 mt-3">
+        {entries.map(entry => <LogEntryItem key={entry.id} entry={entry} deliveries={deliveries} showTask={false} />)}
+      </div>
+    </details>
+  );
+};
@@ -0,0 +1,219 @@
+
+import React, { useState } from 'react';
+import { AutomationRule, Task, WeatherType } from '../types';
+import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
+import { AutomationSimulator, SimulationEvent, SimulationResult, SimulationRun } from '../services/automationSimulator';
+import { FIELD_OPTIONS, WEATHER_LABELS, describeCondition, describeActions, fieldLabel } from './RuleEditor';
+import { formatValue } from './AutomationLog';
+
+type Source = 'scenario' | 'history';
+
+interface ScenarioStep {
+  id: string;
+  taskId: string;
+  field: string; // Empty: the task does not change, only the context (location, weather)
+  value: string;
+  weather: WeatherType | '';
+  location: string; // "lat, lng"
+}
+
+const newStep = (taskId: string): ScenarioStep => ({
+  id: crypto.randomUUID(), taskId, field: 'status', value: '', weather: '', location: ''
+});
+
+// Text of the value input as the task stores it
+const parseValue = (field: string, value: string): any => {
+  switch (field) {
+    case 'tags': return value.split(',').map(t => t.trim()).filter(Boolean);
+    case 'completed': return value === 'true';
+    case 'deadline': return value ? new Date(value).getTime() : undefined;
+    case 'estimatedDuration': return value ? Number(value) : undefined;
+    default: return value;
+  }
+};
+
+const toEvent = (step: ScenarioStep): SimulationEvent => {
+  const [lat, lng] = step.location.split(',').map(s => Number(s.trim()));
+  const hasLocation = step.location.trim() !== '' && !isNaN(lat) && !isNaN(lng);
+  return {
+    taskId: step.taskId,
+    changes: step.field ? { [step.field]: parseValue(step.field, step.value) } : {},
+    context: {
+      weather: step.weather || undefined,
+      location: hasLocation ? { lat, lng } : undefined
+    }
+  };
+};
+
+const describeEvent = (event: SimulationEvent, task: Task | undefined): string => {
+  if (event.label) return `${event.label}: ${task?.title || event.taskId}`;
+  const fields = Object.entries(event.changes).map(([field, value]) => `${fieldLabel(field)} = ${formatValue(value)}`);
+  if (event.context?.weather) fields.push(`погода: ${WEATHER_LABELS[event.context.weather as WeatherType] || event.context.weather}`);
+  if (event.context?.location) fields.push(`место: ${event.context.location.lat}, ${event.context.location.lng}`);
+  return `${task?.title || event.taskId}: ${fields.join(', ') || 'без изменений'}`;
+};
+
+// --- Result ---
+
+const RunItem: React.FC<{ run: SimulationRun }> = ({ run }) => (
+  <div className="text-sm border-l-2 border-border pl-3" style={{ marginLeft: run.depth * 16 }}>
+    <div className="text-text-main">
+      {run.depth > 0 && <span className="text-text-muted">↳ </span>}
+      <span className="font-semibold">{run.ruleName}</span>
+      <span className="text-text-muted"> — {describeActions(run.actions)}</span>
+    </div>
+    <div className="text-xs text-text-muted">Условие: {run.matched.map(describeCondition).join(' И ') || '—'}</div>
+    {run.changes.length > 0 && (
+      <div className="text-xs text-text-muted">
+        {run.changes.map(change => `${fieldLabel(change.field)}: ${formatValue(change.before)} → ${formatValue(change.after)}`).join('; ')}
+      </div>
+    )}
+  </div>
+);
+
+const SimulationReport: React.FC<{ result: SimulationResult, events: SimulationEvent[], tasks: Map<string, Task> }> = ({ result, events, tasks }) => (
+  <div className="space-y-4">
+    <p className="text-sm text-text-muted">
+      Событий: {events.length}, срабатываний правил: {result.runs.length}, изменится задач: {result.tasks.length}.
+    </p>
+
+    {result.loops.map((loop, i) => (
+      <div key={i} className="border border-error/50 rounded-lg p-3 text-sm text-error">
+        {loop.reason === 'repeat' ? 'Зацикливание' : 'Слишком длинная цепочка'} на задаче «{loop.taskTitle}»
+        (событие {loop.eventIndex + 1}): {loop.ruleNames.join(' → ')}
+      </div>
+    ))}
+
+    {result.tasks.length > 0 && (
+      <div className="space-y-2">
+        <h3 className="font-semibold text-text-main">Итоговые изменения</h3>
+        {result.tasks.map(diff => (
+          <div key={diff.after.id} className="bg-bg-surface border border-border rounded-lg p-3 text-sm">
+            <div className="font-medium text-text-main">
+              {diff.after.title || diff.after.id}
+              {!diff.before && <span className="text-xs text-text-muted"> (новая)</span>}
+            </div>
+            <ul className="text-xs text-text-muted pl-4 list-disc">
+              {diff.changes.map(change => (
+                <li key={change.field}>
+                  {fieldLabel(change.field)}: <span className="line-through">{formatValue(change.before)}</span> → <span className="text-text-main">{formatValue(change.after)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    )}
+
+    <div className="space-y-3">
+      <h3 className="font-semibold text-text-main">По событиям</h3>
+      {events.map((event, i) => {
+        const runs = result.runs.filter(r => r.eventIndex === i);
+        return (
+          <div key={i} className="space-y-1">
+            <div className="text-sm text-text-main">{i + 1}. {describeEvent(event, tasks.get(event.taskId))}</div>
+            {runs.map(run => <RunItem key={run.id} run={run} />)}
+            {runs.length === 0 && <div className="text-xs text-text-muted pl-3">Ни одно правило не сработало</div>}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+// --- Simulator (AutomationView) ---
+
+export const AutomationSimulatorPanel: React.FC<{ rules: AutomationRule[] }> = ({ rules }) => {
+  const tasks = useStoreSelector(s => s.tasks);
+  const [source, setSource] = useState<Source>('scenario');
+  const [steps, setSteps] = useState<ScenarioStep[]>([]);
+  const [report, setReport] = useState<{ result: SimulationResult, events: SimulationEvent[], tasks: Map<string, Task> } | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const updateStep = (id: string, patch: Partial<ScenarioStep>) =>
+    setSteps(steps.map(s => (s.id === id ? { ...s, ...patch } : s)));
+
+  const handleRun = async () => {
+    setRunning(true);
+    try {
+      const replay = source === 'history'
+        ? AutomationSimulator.fromHistory(appStore.getHistory().undo, tasks)
+        : { events: steps.filter(s => s.taskId).map(toEvent), tasks };
+      const result = await AutomationSimulator.run(replay.events, replay.tasks, rules);
+      setReport({ result, events: replay.events, tasks: new Map(replay.tasks.map(t => [t.id, t])) });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 text-sm">
+        <label className="flex items-center gap-2 text-text-muted">
+          <input type="radio" checked={source === 'scenario'} onChange={() => setSource('scenario')} className="accent-primary" />
+          Свой сценарий
+        </label>
+        <label className="flex items-center gap-2 text-text-muted">
+          <input type="radio" checked={source === 'history'} onChange={() => setSource('history')} className="accent-primary" />
+          Последние действия (история отмены)
+        </label>
+      </div>
+
+      {source === 'scenario' && (
+        <div className="space-y-2">
+          {steps.map((step, i) => (
+            <div key={step.id} className="flex flex-wrap items-center gap-2">
+              <span className="text-sm text-text-muted w-6">{i + 1}.</span>
+              <select value={step.taskId} onChange={e => updateStep(step.id, { taskId: e.target.value })} className="input-field !w-auto max-w-[220px] text-sm">
+                {tasks.map(t => <option key={t.id} value={t.id}>{t.title}</option>)}
+              </select>
+              <select value={step.field} onChange={e => updateStep(step.id, { field: e.target.value, value: '' })} className="input-field !w-auto text-sm">
+                <option value="">Без изменений</option>
+                {FIELD_OPTIONS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+              </select>
+              {step.field === 'completed' ? (
+                <select value={step.value} onChange={e => updateStep(step.id, { value: e.target.value })} className="input-field !w-auto text-sm">
+                  <option value="false">Нет</option>
+                  <option value="true">Да</option>
+                </select>
+              ) : step.field && (
+                <input
+                  type={step.field === 'deadline' ? 'datetime-local' : 'text'}
+                  value={step.value}
+                  onChange={e => updateStep(step.id, { value: e.target.value })}
+                  className="input-field flex-1 min-w-[120px] text-sm"
+                  placeholder={step.field === 'tags' ? 'Теги через запятую' : 'Новое значение'}
+                />
+              )}
+              <select value={step.weather} onChange={e => updateStep(step.id, { weather: e.target.value as WeatherType | '' })} className="input-field !w-auto text-sm">
+                <option value="">Погода: —</option>
+                {(Object.keys(WEATHER_LABELS) as WeatherType[]).map(w => <option key={w} value={w}>{WEATHER_LABELS[w]}</option>)}
+              </select>
+              <input
+                value={step.location}
+                onChange={e => updateStep(step.id, { location: e.target.value })}
+                className="input-field !w-36 text-sm"
+                placeholder="Место: шир, долг"
+              />
+              <button type="button" onClick={() => setSteps(steps.filter(s => s.id !== step.id))} className="text-text-muted hover:text-error px-1" title="Удалить событие">✕</button>
+            </div>
+          ))}
+          {tasks.length > 0 ? (
+            <button type="button" onClick={() => setSteps([...steps, newStep(tasks[0].id)])} className="text-sm text-primary hover:underline">
+              + Событие
+            </button>
+          ) : (
+            <p className="text-text-muted text-sm">Нет задач для сценария.</p>
+          )}
+        </div>
+      )}
+
+      <button onClick={handleRun} disabled={running} className="btn-primary px-4 py-2 rounded-lg font-medium disabled:opacity-50">
+        {running ? 'Проверка…' : 'Запустить симуляцию'}
+      </button>
+
+      {report && <SimulationReport {...report} />}
+    </div>
+  );
+};
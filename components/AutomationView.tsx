@@ -1,14 +1,19 @@
 
-import React from 'react';
-import { AppState, AutomationRule, ProjectTemplate, Task, Board, BoardColumn } from '../types';
-import { StorageService } from '../services/storageService';
+import React, { useState } from 'react';
+import { AppState, AppSecrets, AutomationRule, ProjectTemplate, Task, Board, BoardColumn } from '../types';
 import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
+import { createSelector } from '../lib/selectors';
+import { normalizeLegacyRule } from '../services/storageMigrations';
+import { AutomationService } from '../services/automationService';
+import { RuleEditor, describeCondition, describeActions } from './RuleEditor';
+import { AutomationLog } from './AutomationLog';
+import { AutomationSimulatorPanel } from './AutomationSimulator';
 
 interface AutomationViewProps {
-  appState: AppState;
   onUpdateAutomations: (rules: AutomationRule[]) => void;
   onUpdateTemplates: (templates: ProjectTemplate[]) => void;
-  onRefresh?: () => void;
+  onUpdateSecrets: (secrets: Partial<AppSecrets>) => void;
 }
 
 const TEMPLATES_LIBRARY: (ProjectTemplate & { category: string, color: string })[] = [
@@ -104,10 +109,49 @@ const TEMPLATES_LIBRARY: (ProjectTemplate & { category: string, color: string })
   }
 ];
 
-export const AutomationView: React.FC<AutomationViewProps> = ({ 
-  onRefresh 
-}) => {
-  
+// Rules synced from devices on an older version may still have the single-trigger shape.
+// Listed in the order they run.
+const selectRules = createSelector((s: AppState) => s.automations, rules => AutomationService.orderRules(rules.map(normalizeLegacyRule)));
+
+const NO_SECRETS: Record<string, string> = {};
+
+export const AutomationView: React.FC<AutomationViewProps> = ({ onUpdateAutomations, onUpdateSecrets }) => {
+  const rules = useStoreSelector(selectRules);
+  const webhookSecrets = useStoreSelector(s => s.secrets?.webhookSecrets || NO_SECRETS);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [isEditorOpen, setIsEditorOpen] = useState(false);
+
+  // --- Rules ---
+
+  const openEditor = (rule: AutomationRule | null) => {
+    setEditingRule(rule);
+    setIsEditorOpen(true);
+  };
+
+  const handleSaveRule = (rule: AutomationRule, secrets: Record<string, string>) => {
+    const exists = rules.some(r => r.id === rule.id);
+    onUpdateAutomations(exists ? rules.map(r => (r.id === rule.id ? rule : r)) : [...rules, rule]);
+
+    // Signing secrets stay in the local vault, keyed by URL; cleared fields remove them
+    const changed = Object.keys(secrets).some(url => secrets[url] !== (webhookSecrets[url] || ''));
+    if (changed) {
+      const next = Object.fromEntries(Object.entries(secrets).filter(([url, secret]) => url && secret));
+      onUpdateSecrets({ webhookSecrets: next });
+    }
+    setIsEditorOpen(false);
+  };
+
+  const handleToggleRule = (rule: AutomationRule) => {
+    onUpdateAutomations(rules.map(r => (r.id === rule.id ? { ...r, isActive: !r.isActive } : r)));
+  };
+
+  const handleDeleteRule = (rule: AutomationRule) => {
+    if (!confirm(`Удалить правило "${rule.name}"?`)) return;
+    onUpdateAutomations(rules.filter(r => r.id !== rule.id));
+  };
+
+  // --- Templates ---
+
   const handleApplyTemplate = async (template: typeof TEMPLATES_LIBRARY[0]) => {
     if(!confirm(`Создать новую доску "${template.name}" и заполнить её задачами?`)) return;
 
@@ -122,11 +166,11 @@ export const AutomationView: React.FC<AutomationViewProps> = ({
     const newBoard: Board = {
         id: boardId,
         title: template.name,
-        columns
+        columns,
+        updatedAt: Date.now()
     };
 
-    await StorageService.saveBoard(newBoard);
-    appStore.updateBoard(newBoard);
+    appStore.addBoard(newBoard);
     appStore.setActiveBoard(boardId);
 
     // 2. Create Tasks
@@ -157,17 +201,77 @@ export const AutomationView: React.FC<AutomationViewProps> = ({
         description: `Создано из шаблона: ${template.name}`,
         order: Date.now()
       };
-      await StorageService.addTask(newTask);
       appStore.addTask(newTask);
     }
 
-    if (onRefresh) onRefresh();
     alert(`Шаблон "${template.name}" успешно применен! Перейдите на доску.`);
   };
 
   return (
     <div className="h-full overflow-y-auto bg-bg-main p-4 lg:p-8">
       <div className="max-w-7xl mx-auto">
+        <div className="mb-6 flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h2 className="text-3xl font-bold text-text-main mb-2">Правила автоматизации</h2>
+            <p className="text-text-muted">
+              Условия проверяются при каждом сохранении задачи, условия по времени — раз в минуту в фоне. Действия выполняются по порядку.
+              Изменения, сделанные правилом, проверяются снова — так строятся цепочки вроде «готово → тег archived → на доску Архив».
+            </p>
+          </div>
+          <button onClick={() => openEditor(null)} className="btn-primary px-4 py-2 rounded-lg font-medium">
+            + Новое правило
+          </button>
+        </div>
+
+        <div className="space-y-3 mb-12">
+          {rules.map(rule => (
+            <div key={rule.id} className={`bg-bg-surface border border-border rounded-xl p-4 flex items-start gap-4 shadow-card ${rule.isActive ? '' : 'opacity-60'}`}>
+              <input
+                type="checkbox"
+                checked={rule.isActive}
+                onChange={() => handleToggleRule(rule)}
+                className="mt-1.5 accent-primary"
+                title={rule.isActive ? 'Выключить' : 'Включить'}
+              />
+              <div className="flex-1 min-w-0">
+                <div className="font-semibold text-text-main">
+                  {rule.name}
+                  {!!rule.priority && <span className="ml-2 text-xs font-normal text-text-muted">порядок {rule.priority}</span>}
+                </div>
+                <div className="text-sm text-text-muted mt-1">
+                  <span className="font-medium">Когда:</span> {describeCondition(rule.conditions) || '—'}
+                </div>
+                <div className="text-sm text-text-muted">
+                  <span className="font-medium">То:</span> {describeActions(rule.actions) || '—'}
+                </div>
+              </div>
+              <button onClick={() => openEditor(rule)} className="text-sm text-primary hover:underline">Изменить</button>
+              <button onClick={() => handleDeleteRule(rule)} className="text-sm text-text-muted hover:text-error">Удалить</button>
+            </div>
+          ))}
+          {rules.length === 0 && (
+            <p className="text-text-muted text-sm">Правил пока нет.</p>
+          )}
+        </div>
+
+        <div className="mb-12">
+          <h2 className="text-2xl font-bold text-text-main mb-2">Симуляция</h2>
+          <p className="text-text-muted mb-4">
+            Прогон событий через правила без сохранения, уведомлений и вебхуков. Цепочки правил проходят так же,
+            как при сохранении: видно, какие правила запускают друг друга и где они зацикливаются.
+            Правила с условиями по времени здесь не участвуют.
+          </p>
+          <AutomationSimulatorPanel rules={rules} />
+        </div>
+
+        <div className="mb-12">
+          <h2 className="text-2xl font-bold text-text-main mb-2">Журнал запусков</h2>
+          <p className="text-text-muted mb-4">
+            Что сработало, на какой задаче и что изменилось. Хранятся последние 1000 запусков за 30 дней.
+          </p>
+          <AutomationLog />
+        </div>
+
         <div className="mb-8">
           <h2 className="text-3xl font-bold text-text-main mb-2">Библиотека шаблонов</h2>
           <p className="text-text-muted">
@@ -227,6 +331,10 @@ export const AutomationView: React.FC<AutomationViewProps> = ({
            Хотите создать свой шаблон? Настройте доску и сохраните её конфигурацию (Скоро).
         </div>
       </div>
+
+      {isEditorOpen && (
+        <RuleEditor rule={editingRule} webhookSecrets={webhookSecrets} onSave={handleSaveRule} onCancel={() => setIsEditorOpen(false)} />
+      )}
     </div>
   );
 };
@@ -1,13 +1,13 @@
 
-import React, { useState, useMemo, useEffect } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { Task, Note, WorkSchedule, GlobalEvent } from '../types';
 import { AuthService } from '../services/authService';
 import { GoogleCalendarService } from '../services/googleCalendarService';
-import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
+import { selectTasksByDay, dayKey } from '../lib/selectors';
+import { SeriesService } from '../services/seriesService';
 
 interface CalendarViewProps {
-  tasks: Task[];
-  notes: Note[];
   onTaskClick: (task: Task) => void;
   onDateClick: (date: number) => void;
   onTaskDrop: (taskId: string, date: number) => void;
@@ -18,16 +18,44 @@ type CalendarMode = 'month' | 'day';
 const DAYS = ['Пн', 'Вт', 'Ср', 'Чт', 'Пт', 'Сб', 'Вс'];
 const HOURS = Array.from({ length: 24 }, (_, i) => i);
 
-export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTaskClick, onDateClick, onTaskDrop }) => {
+interface CalendarItem {
+  id: string;
+  title: string;
+  start: Date | null;
+  end: Date | null;
+  color: string;
+  completed: boolean;
+  type: 'task' | 'note' | 'google' | 'global';
+  icon?: string;
+  original: Task | null;
+  virtual?: boolean; // Occurrence of a recurring series that is not stored yet
+}
+
+const toTaskItem = (t: Task): CalendarItem => ({
+  id: t.id,
+  title: t.title,
+  start: t.startTime ? new Date(t.startTime) : (t.deadline ? new Date(t.deadline) : null),
+  end: t.endTime ? new Date(t.endTime) : (t.startTime ? new Date(t.startTime + 3600000) : null),
+  color: t.color || 'var(--color-primary)',
+  completed: t.completed,
+  type: 'task',
+  original: t
+});
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ onTaskClick, onDateClick, onTaskDrop }) => {
   const [currentDate, setCurrentDate] = useState(new Date());
   const [mode, setMode] = useState<CalendarMode>('month');
   const [externalEvents, setExternalEvents] = useState<any[]>([]);
   const [isLoadingEvents, setIsLoadingEvents] = useState(false);
   const [dragOverDate, setDragOverDate] = useState<string | null>(null);
   
-  // Get Global Settings
-  const { settings, globalEvents } = appStore.getState();
-  const workSchedule = settings.workSchedule || { type: 'standard', workDays: [1,2,3,4,5] };
+  const tasksByDay = useStoreSelector(selectTasksByDay);
+  const tasks = useStoreSelector(s => s.tasks);
+  const notes = useStoreSelector(s => s.notes);
+  const globalEvents = useStoreSelector(s => s.globalEvents);
+  const workSchedule = useStoreSelector(s => s.settings.workSchedule) || { type: 'standard', workDays: [1,2,3,4,5] };
+  // Items of a day are rebuilt only when that day's tasks changed
+  const taskItemsCache = useRef(new WeakMap<Task[], CalendarItem[]>());
 
   // Fetch Google Calendar Events
   useEffect(() => {
@@ -48,20 +76,9 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
     fetchEvents();
   }, [currentDate.getMonth(), currentDate.getFullYear()]);
 
-  // Combine Tasks, Events, Global Events, and Notes
-  const allItems = useMemo(() => {
-      const taskItems = tasks.map(t => ({
-          id: t.id,
-          title: t.title,
-          start: t.startTime ? new Date(t.startTime) : (t.deadline ? new Date(t.deadline) : null),
-          end: t.endTime ? new Date(t.endTime) : (t.startTime ? new Date(t.startTime + 3600000) : null),
-          color: t.color || 'var(--color-primary)',
-          completed: t.completed,
-          type: 'task',
-          original: t
-      }));
-
-      const noteItems = notes.map(n => ({
+  // Other sources (notes, Google, global events) grouped by day; tasks come pre-grouped from the store
+  const otherItemsByDay = useMemo(() => {
+      const noteItems: CalendarItem[] = notes.map(n => ({
           id: n.id,
           title: n.title,
           start: new Date(n.updatedAt || n.createdAt),
@@ -72,7 +89,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
           original: null
       }));
 
-      const googleItems = externalEvents.map(e => ({
+      const googleItems: CalendarItem[] = externalEvents.map(e => ({
           id: e.id,
           title: e.summary || '(Без названия)',
           start: e.start.dateTime ? new Date(e.start.dateTime) : new Date(e.start.date),
@@ -83,7 +100,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
           original: null
       }));
       
-      const globalItems = globalEvents.map(e => {
+      const globalItems: CalendarItem[] = globalEvents.map(e => {
           let eventDate = new Date(e.date);
           if (e.isRecurringYearly) {
               eventDate.setFullYear(currentDate.getFullYear());
@@ -101,8 +118,43 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
           };
       });
 
-      return [...taskItems, ...noteItems, ...googleItems, ...globalItems].filter(i => i.start);
-  }, [tasks, notes, externalEvents, globalEvents, currentDate]);
+      const byDay = new Map<string, CalendarItem[]>();
+      [...noteItems, ...googleItems, ...globalItems].forEach(item => {
+          if (!item.start) return;
+          const key = dayKey(item.start);
+          const dayItems = byDay.get(key);
+          if (dayItems) dayItems.push(item);
+          else byDay.set(key, [item]);
+      });
+      return byDay;
+  }, [notes, externalEvents, globalEvents, currentDate]);
+
+  // Future occurrences of recurring series in the displayed month, built on the fly
+  const virtualItemsByDay = useMemo(() => {
+      const from = new Date(currentDate.getFullYear(), currentDate.getMonth(), 1).getTime();
+      const to = new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 1).getTime() - 1;
+      const byDay = new Map<string, CalendarItem[]>();
+      SeriesService.virtualInstances(tasks, from, to).forEach(task => {
+          const item: CalendarItem = { ...toTaskItem(task), virtual: true };
+          if (!item.start) return;
+          const key = dayKey(item.start);
+          const dayItems = byDay.get(key);
+          if (dayItems) dayItems.push(item);
+          else byDay.set(key, [item]);
+      });
+      return byDay;
+  }, [tasks, currentDate.getFullYear(), currentDate.getMonth()]);
+
+  const getDayItems = (date: Date): CalendarItem[] => {
+      const key = dayKey(date);
+      const dayTasks = tasksByDay.get(key);
+      let taskItems: CalendarItem[] = [];
+      if (dayTasks) {
+          taskItems = taskItemsCache.current.get(dayTasks) || dayTasks.map(toTaskItem);
+          taskItemsCache.current.set(dayTasks, taskItems);
+      }
+      return [...taskItems, ...(virtualItemsByDay.get(key) || []), ...(otherItemsByDay.get(key) || [])];
+  };
 
   // --- Helpers ---
   
@@ -217,7 +269,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
           {monthDays.map(day => {
             const date = new Date(currentDate.getFullYear(), currentDate.getMonth(), day);
             const dateStr = date.toISOString().split('T')[0];
-            const dayItems = allItems.filter(i => i.start && isSameDay(i.start, date));
+            const dayItems = getDayItems(date);
             const isToday = isSameDay(date, new Date());
             const isWorking = isWorkDay(date);
             const isOver = dragOverDate === dateStr;
@@ -262,6 +314,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
                         ${item.completed ? 'opacity-50 line-through' : ''}
                         ${item.type === 'global' ? 'font-bold' : ''}
                         ${item.type === 'note' ? 'italic opacity-90' : ''}
+                        ${item.virtual ? 'border-dashed opacity-60' : ''}
                       `}
                       style={{ 
                         backgroundColor: (item.color || 'var(--color-primary)') + '1A', 
@@ -273,6 +326,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
                       {item.type === 'google' && '📅 '}
                       {item.type === 'note' && '📝 '}
                       {item.type === 'global' && (item as any).icon}
+                      {item.virtual && '↻ '}
                       {item.type !== 'global' && item.start && <span className="opacity-75 mr-1">{item.start.getHours()}:{item.start.getMinutes().toString().padStart(2, '0')}</span>}
                       {item.title}
                     </div>
@@ -287,7 +341,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
   };
 
   const renderDayView = () => {
-    const dayItems = allItems.filter(i => i.start && isSameDay(i.start, currentDate));
+    const dayItems = getDayItems(currentDate);
     const isWorking = isWorkDay(currentDate);
 
     return (
@@ -342,7 +396,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
                                 onTaskClick(item.original); 
                             }
                         }}
-                        className="absolute left-1 right-1 rounded-[4px] border-l-4 p-1.5 text-xs shadow-sm overflow-hidden z-10 hover:z-20 cursor-pointer transition-all hover:shadow-md active:cursor-grabbing"
+                        className={`absolute left-1 right-1 rounded-[4px] border-l-4 p-1.5 text-xs shadow-sm overflow-hidden z-10 hover:z-20 cursor-pointer transition-all hover:shadow-md active:cursor-grabbing ${item.virtual ? 'border-dashed opacity-60' : ''}`}
                         style={{
                           top: `${(startMin / 60) * 100}%`,
                           height: `${Math.max((duration / 60) * 100, 30)}%`,
@@ -353,6 +407,7 @@ export const CalendarView: React.FC<CalendarViewProps> = ({ tasks, notes, onTask
                         <div className="font-semibold text-text-main flex items-center gap-1">
                             {item.type === 'google' && '📅'}
                             {item.type === 'note' && '📝'}
+                            {item.virtual && '↻'}
                             {item.title}
                         </div>
                         <div className="text-text-muted">
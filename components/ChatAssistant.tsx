@@ -1,10 +1,11 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { AppState, ChatMessage, Task, Note, AssistantTone } from '../types';
+import { ChatMessage, Task, Note, AssistantTone } from '../types';
 import { AiService } from '../services/aiService';
+import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
 
 interface ChatAssistantProps {
-  appState: AppState;
   isOpen: boolean;
   onToggle: () => void;
   onUpdateSettings: (key: string, tone?: AssistantTone, voice?: boolean) => void;
@@ -15,7 +16,6 @@ interface ChatAssistantProps {
 }
 
 export const ChatAssistant: React.FC<ChatAssistantProps> = ({
-  appState,
   isOpen,
   onToggle,
   onUpdateSettings,
@@ -24,6 +24,7 @@ export const ChatAssistant: React.FC<ChatAssistantProps> = ({
   onAddNote,
   onCreateBoard
 }) => {
+  const aiModel = useStoreSelector(s => s.settings.aiModel);
   const [input, setInput] = useState('');
   const [selectedImage, setSelectedImage] = useState<string | null>(null);
   const [isTyping, setIsTyping] = useState(false);
@@ -68,7 +69,8 @@ export const ChatAssistant: React.FC<ChatAssistantProps> = ({
     setIsTyping(true);
 
     try {
-        const apiKey = appState.settings.openRouterApiKey || '';
+        const appState = appStore.getState();
+        const apiKey = appState.secrets?.openRouterApiKey || '';
         // Allow Local AI even without key
         if (!apiKey && appState.settings.aiModel !== 'local') throw new Error("API Key missing");
         
@@ -185,9 +187,9 @@ export const ChatAssistant: React.FC<ChatAssistantProps> = ({
              <div>
                <h3 className="font-semibold text-text-main">Copilot</h3>
                <div className="flex items-center gap-1">
-                 <span className={`w-2 h-2 rounded-full ${appState.settings.aiModel === 'local' ? 'bg-green-500' : 'bg-blue-500'}`}></span>
+                 <span className={`w-2 h-2 rounded-full ${aiModel === 'local' ? 'bg-green-500' : 'bg-blue-500'}`}></span>
                  <span className="text-xs text-text-muted">
-                   {appState.settings.aiModel === 'local' ? 'Offline (Local)' : 'Online (Cloud)'}
+                   {aiModel === 'local' ? 'Offline (Local)' : 'Online (Cloud)'}
                  </span>
                </div>
              </div>
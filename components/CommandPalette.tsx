@@ -1,12 +1,11 @@
 
 import React, { useState, useEffect, useRef } from 'react';
 import { Task, Note, ViewMode } from '../types';
+import { useStoreSelector } from '../lib/useStore';
 
 interface CommandPaletteProps {
   isOpen: boolean;
   onClose: () => void;
-  tasks: Task[];
-  notes: Note[];
   onNavigate: (view: ViewMode) => void;
   onSelectTask: (task: Task) => void;
   onSelectNote: (note: Note) => void;
@@ -14,8 +13,10 @@ interface CommandPaletteProps {
 }
 
 export const CommandPalette: React.FC<CommandPaletteProps> = ({
-  isOpen, onClose, tasks, notes, onNavigate, onSelectTask, onSelectNote, toggleTheme
+  isOpen, onClose, onNavigate, onSelectTask, onSelectNote, toggleTheme
 }) => {
+  const tasks = useStoreSelector(s => s.tasks);
+  const notes = useStoreSelector(s => s.notes);
   const [query, setQuery] = useState('');
   const [selectedIndex, setSelectedIndex] = useState(0);
   const inputRef = useRef<HTMLInputElement>(null);
@@ -1,24 +1,89 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useMemo } from 'react';
 import { Task, TaskStatus, BoardColumn, Board } from '../types';
 import { appStore, DEFAULT_COLUMNS } from '../lib/store';
-import { StorageService } from '../services/storageService';
+import { useTaskQuery } from '../lib/useTaskQuery';
+import { useStoreSelector } from '../lib/useStore';
+import { selectTasksByBoard, selectTasksByColumn, columnKey, EMPTY_TASKS } from '../lib/selectors';
+
+const COLUMN_PAGE_SIZE = 30;
 
 interface KanbanBoardProps {
-  tasks: Task[];
   onTaskClick: (task: Task) => void;
   onMoveTask: (taskId: string, newStatus: TaskStatus) => void;
   onAddClick: (status: TaskStatus) => void;
 }
 
+interface ColumnTasksProps {
+  boardId: string;
+  status: string;
+  onTaskClick: (task: Task) => void;
+  onDragStart: (e: React.DragEvent, task: Task) => void;
+}
+
+// Cards of one column, read page by page from IndexedDB; re-read only when this column's tasks change
+const ColumnTasks: React.FC<ColumnTasksProps> = ({ boardId, status, onTaskClick, onDragStart }) => {
+  const revision = useStoreSelector(s => selectTasksByColumn(s).get(columnKey(boardId, status)) || EMPTY_TASKS);
+  const { tasks: columnTasks, hasMore, isLoading, loadMore } = useTaskQuery({ boardId, status }, COLUMN_PAGE_SIZE, revision);
+
+  return (
+    <>
+      {columnTasks.map(task => (
+        <div
+        key={task.id}
+        draggable
+        onDragStart={(e) => onDragStart(e, task)}
+        onClick={() => onTaskClick(task)}
+        className="bg-bg-surface p-3 rounded-lg shadow-sm border border-border hover:border-primary/50 cursor-pointer active:cursor-grabbing hover:shadow-md transition-all group relative"
+        >
+        {/* Labels */}
+        {task.tags.length > 0 && (
+            <div className="flex flex-wrap gap-1 mb-2">
+            {task.tags.map(tag => (
+                <div key={tag} className="h-2 w-8 rounded-full bg-primary/20" title={tag}></div>
+            ))}
+            </div>
+        )}
+
+        <div className="text-sm font-medium text-text-main leading-snug mb-1">
+            {task.title}
+        </div>
+
+        <div className="flex items-center justify-between mt-2">
+            <div className="flex items-center gap-2 text-xs text-text-muted">
+                {task.timeLogs && task.timeLogs.length > 0 && <span>⏱</span>}
+                {task.description && <span>≡</span>}
+                {(task.recurrence || task.seriesId) && <span>↻</span>}
+            </div>
+            {task.deadline && (
+                <span className={`text-[10px] px-1.5 py-0.5 rounded ${Date.now() > task.deadline ? 'bg-red-100 text-red-700' : 'bg-bg-panel text-text-muted'}`}>
+                {new Date(task.deadline).toLocaleDateString(undefined, {month:'short', day:'numeric'})}
+                </span>
+            )}
+        </div>
+        </div>
+      ))}
+
+      {hasMore && (
+        <button
+          onClick={loadMore}
+          disabled={isLoading}
+          className="w-full py-1.5 text-xs text-text-muted hover:text-primary rounded-lg transition-colors"
+        >
+          {isLoading ? 'Загрузка...' : 'Показать ещё'}
+        </button>
+      )}
+    </>
+  );
+};
+
 export const KanbanBoard: React.FC<KanbanBoardProps> = ({ 
-  tasks, 
   onTaskClick, 
   onMoveTask,
   onAddClick
 }) => {
-  const [boards, setBoards] = useState<Board[]>(appStore.getState().boards);
-  const [activeBoardId, setActiveBoardId] = useState<string | null>(appStore.getState().activeBoardId);
+  const boards = useStoreSelector(s => s.boards);
+  const activeBoardId = useStoreSelector(s => s.activeBoardId);
   
   const [dragOverCol, setDragOverCol] = useState<string | null>(null);
   const [editingColId, setEditingColId] = useState<string | null>(null);
@@ -33,19 +98,16 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   const [addingTaskColId, setAddingTaskColId] = useState<string | null>(null);
   const [newTaskTitle, setNewTaskTitle] = useState('');
 
-  useEffect(() => {
-     const unsub = appStore.subscribe((state) => {
-         setBoards(state.boards);
-         setActiveBoardId(state.activeBoardId);
-     });
-     return unsub;
-  }, []);
-
   const activeBoard = boards.find(b => b.id === activeBoardId) || boards[0];
   const columns = activeBoard?.columns || [];
   
-  // Filter tasks by active board
-  const boardTasks = tasks.filter(t => t.boardId === activeBoard?.id);
+  // Tasks of the active board; unchanged while only other boards are edited
+  const boardTasks = useStoreSelector(s => (activeBoard && selectTasksByBoard(s).get(activeBoard.id)) || EMPTY_TASKS);
+  const columnCounts = useMemo(() => {
+    const counts = new Map<string, number>();
+    boardTasks.forEach(t => counts.set(t.status, (counts.get(t.status) || 0) + 1));
+    return counts;
+  }, [boardTasks]);
 
   // --- Board Management ---
 
@@ -55,14 +117,12 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
       const newBoard: Board = {
           id: crypto.randomUUID(),
           title: newBoardName,
-          columns: DEFAULT_COLUMNS
+          columns: DEFAULT_COLUMNS,
+          updatedAt: Date.now()
       };
       
-      const updatedBoards = [...boards, newBoard];
-      setBoards(updatedBoards);
-      appStore.setState({ boards: updatedBoards, activeBoardId: newBoard.id }); // Optimistic update
-      
-      await StorageService.saveBoard(newBoard);
+      appStore.addBoard(newBoard);
+      appStore.setActiveBoard(newBoard.id);
       setNewBoardName('');
       setIsCreatingBoard(false);
       setIsBoardMenuOpen(false);
@@ -73,24 +133,18 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
       if (confirm(`Удалить доску "${activeBoard.title}" и все её задачи?`)) {
           const remainingBoards = boards.filter(b => b.id !== activeBoard.id);
           
-          // Delete tasks associated with this board
-          const tasksToDelete = tasks.filter(t => t.boardId === activeBoard.id);
-          tasksToDelete.forEach(t => {
-              StorageService.deleteTask(t.id);
-              appStore.deleteTask(t.id);
-          });
-
-          setBoards(remainingBoards);
+          // Delete tasks associated with this board (one undo step together with the board)
+          boardTasks.forEach(t => appStore.deleteTask(t.id));
+
           const nextBoardId = remainingBoards.length > 0 ? remainingBoards[0].id : null;
-          appStore.setState({ boards: remainingBoards, activeBoardId: nextBoardId });
-          
-          await StorageService.deleteBoard(activeBoard.id);
+          appStore.deleteBoard(activeBoard.id);
+          appStore.setState({ activeBoardId: nextBoardId });
           
           if (remainingBoards.length === 0) {
               // Re-create default if all deleted
-              const def: Board = { id: 'default-board', title: 'Главная', columns: DEFAULT_COLUMNS };
-              await StorageService.saveBoard(def);
-              appStore.setState({ boards: [def], activeBoardId: def.id });
+              const def: Board = { id: 'default-board', title: 'Главная', columns: DEFAULT_COLUMNS, updatedAt: Date.now() };
+              appStore.addBoard(def);
+              appStore.setActiveBoard(def.id);
           }
       }
   };
@@ -100,11 +154,9 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
   const saveColumnTitle = async () => {
      if (editingColId && activeBoard) {
         const updatedCols = columns.map(c => c.id === editingColId ? { ...c, title: tempColTitle } : c);
-        const updatedBoard = { ...activeBoard, columns: updatedCols };
+        const updatedBoard = { ...activeBoard, columns: updatedCols, updatedAt: Date.now() };
         
-        // Update local state & store
         appStore.updateBoard(updatedBoard);
-        await StorageService.saveBoard(updatedBoard);
         setEditingColId(null);
      }
   };
@@ -117,18 +169,16 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
              title,
              order: columns.length
          };
-         const updatedBoard = { ...activeBoard, columns: [...columns, newCol] };
+         const updatedBoard = { ...activeBoard, columns: [...columns, newCol], updatedAt: Date.now() };
          
          appStore.updateBoard(updatedBoard);
-         await StorageService.saveBoard(updatedBoard);
      }
   };
 
   const deleteColumn = async (id: string) => {
       if (activeBoard && confirm("Удалить колонку?")) {
-          const updatedBoard = { ...activeBoard, columns: columns.filter(c => c.id !== id) };
+          const updatedBoard = { ...activeBoard, columns: columns.filter(c => c.id !== id), updatedAt: Date.now() };
           appStore.updateBoard(updatedBoard);
-          await StorageService.saveBoard(updatedBoard);
       }
   };
 
@@ -168,7 +218,6 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
             color: '#3b82f6',
             boardId: activeBoard.id
           };
-          await StorageService.addTask(newTask);
           appStore.addTask(newTask);
           setNewTaskTitle('');
       }
@@ -246,7 +295,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
       {/* Columns */}
       <div className="flex-1 overflow-x-auto overflow-y-hidden flex gap-4 p-4 snap-x snap-mandatory">
         {columns.sort((a,b) => a.order - b.order).map(column => {
-            const columnTasks = boardTasks.filter(t => t.status === column.id);
+            const columnCount = columnCounts.get(column.id) || 0;
             const isOver = dragOverCol === column.id;
             const isEditing = editingColId === column.id;
 
@@ -284,7 +333,7 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
                 
                 <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
                     <span className="text-xs font-mono text-text-muted bg-bg-surface px-1.5 rounded-full">
-                        {columnTasks.length}
+                        {columnCount}
                     </span>
                     <button 
                         onClick={() => deleteColumn(column.id)}
@@ -298,41 +347,12 @@ export const KanbanBoard: React.FC<KanbanBoardProps> = ({
 
                 {/* Tasks List */}
                 <div className="px-2 pb-2 flex-1 overflow-y-auto space-y-2 min-h-[50px] custom-scrollbar">
-                {columnTasks.map(task => (
-                    <div
-                    key={task.id}
-                    draggable
-                    onDragStart={(e) => handleDragStart(e, task)}
-                    onClick={() => onTaskClick(task)}
-                    className="bg-bg-surface p-3 rounded-lg shadow-sm border border-border hover:border-primary/50 cursor-pointer active:cursor-grabbing hover:shadow-md transition-all group relative"
-                    >
-                    {/* Labels */}
-                    {task.tags.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mb-2">
-                        {task.tags.map(tag => (
-                            <div key={tag} className="h-2 w-8 rounded-full bg-primary/20" title={tag}></div>
-                        ))}
-                        </div>
-                    )}
-
-                    <div className="text-sm font-medium text-text-main leading-snug mb-1">
-                        {task.title}
-                    </div>
-
-                    <div className="flex items-center justify-between mt-2">
-                        <div className="flex items-center gap-2 text-xs text-text-muted">
-                            {task.timeLogs && task.timeLogs.length > 0 && <span>⏱</span>}
-                            {task.description && <span>≡</span>}
-                            {task.recurrence && <span>↻</span>}
-                        </div>
-                        {task.deadline && (
-                            <span className={`text-[10px] px-1.5 py-0.5 rounded ${Date.now() > task.deadline ? 'bg-red-100 text-red-700' : 'bg-bg-panel text-text-muted'}`}>
-                            {new Date(task.deadline).toLocaleDateString(undefined, {month:'short', day:'numeric'})}
-                            </span>
-                        )}
-                    </div>
-                    </div>
-                ))}
+                <ColumnTasks
+                    boardId={activeBoard.id}
+                    status={column.id}
+                    onTaskClick={onTaskClick}
+                    onDragStart={handleDragStart}
+                />
                 
                 {/* Inline Add Task */}
                 {addingTaskColId === column.id ? (
@@ -0,0 +1,74 @@
+import React, { useState, useEffect } from 'react';
+import { AppLockService } from '../services/appLockService';
+
+interface LockScreenProps {
+  onUnlocked: () => void;
+}
+
+export const LockScreen: React.FC<LockScreenProps> = ({ onUnlocked }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [hasPasskey, setHasPasskey] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    AppLockService.getConfig().then(config => {
+      setHasPasskey(!!config?.webauthn && AppLockService.isWebAuthnAvailable());
+    });
+  }, []);
+
+  const unlock = async (method: () => Promise<void>) => {
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await method();
+      setPassphrase('');
+      onUnlocked();
+    } catch (e: any) {
+      setError(e.message || 'Не удалось разблокировать');
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase) unlock(() => AppLockService.unlockWithPassphrase(passphrase));
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-bg-main p-4">
+      <form onSubmit={handleSubmit} className="card p-6 w-full max-w-sm space-y-4 text-center">
+        <div className="w-14 h-14 mx-auto bg-gradient-to-br from-primary to-purple-600 rounded-xl flex items-center justify-center text-white text-2xl shadow-lg">
+          🔒
+        </div>
+        <div>
+          <h2 className="text-lg font-bold text-text-main">TaskAssist заблокирован</h2>
+          <p className="text-sm text-text-muted">Данные на устройстве зашифрованы. Введите парольную фразу.</p>
+        </div>
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          className="input-field"
+          placeholder="Парольная фраза"
+        />
+        {error && <p className="text-xs text-error">{error}</p>}
+        <button type="submit" disabled={!passphrase || isUnlocking} className="btn-primary w-full justify-center">
+          {isUnlocking ? 'Проверка...' : 'Разблокировать'}
+        </button>
+        {hasPasskey && (
+          <button
+            type="button"
+            onClick={() => unlock(() => AppLockService.unlockWithWebAuthn())}
+            disabled={isUnlocking}
+            className="btn-secondary w-full justify-center"
+          >
+            Войти с ключом доступа
+          </button>
+        )}
+      </form>
+    </div>
+  );
+};
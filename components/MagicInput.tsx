@@ -1,16 +1,15 @@
 
 import React, { useState } from 'react';
 import { AiService, AiIntentResult } from '../services/aiService';
-import { AppState } from '../types';
+import { appStore } from '../lib/store';
 
 interface MagicInputProps {
   isOpen: boolean;
   onClose: () => void;
-  appState: AppState;
   onResult: (result: AiIntentResult) => Promise<void>;
 }
 
-export const MagicInput: React.FC<MagicInputProps> = ({ isOpen, onClose, appState, onResult }) => {
+export const MagicInput: React.FC<MagicInputProps> = ({ isOpen, onClose, onResult }) => {
   const [text, setText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [preview, setPreview] = useState<AiIntentResult | null>(null);
@@ -20,7 +19,8 @@ export const MagicInput: React.FC<MagicInputProps> = ({ isOpen, onClose, appStat
 
   const handleAnalyze = async () => {
     if (!text.trim()) return;
-    if (!appState.settings.openRouterApiKey && appState.settings.aiModel !== 'local') {
+    const appState = appStore.getState();
+    if (!appState.secrets?.openRouterApiKey && appState.settings.aiModel !== 'local') {
         setError('Требуется API ключ (в настройках) или локальная модель');
         return;
     }
@@ -30,7 +30,7 @@ export const MagicInput: React.FC<MagicInputProps> = ({ isOpen, onClose, appStat
     setPreview(null);
 
     try {
-      const apiKey = appState.settings.openRouterApiKey || '';
+      const apiKey = appState.secrets?.openRouterApiKey || '';
       const result = await AiService.analyzeUserIntent(apiKey, text, appState.settings.aiModel);
       setPreview(result);
     } catch (e: any) {
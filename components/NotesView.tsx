@@ -3,9 +3,9 @@ import React, { useState, useMemo, useRef } from 'react';
 import { Note, NoteType, ChecklistItem, AppState } from '../types';
 import { AiService } from '../services/aiService';
 import { ExportService } from '../services/exportService';
+import { useStoreSelector } from '../lib/useStore';
 
 interface NotesViewProps {
-  notes: Note[];
   onSaveNote: (note: Partial<Note>) => Promise<void>;
   onDeleteNote: (id: string) => Promise<void>;
   onCreateTask: (title: string, description?: string) => void;
@@ -14,13 +14,13 @@ interface NotesViewProps {
 }
 
 export const NotesView: React.FC<NotesViewProps> = ({ 
-  notes, 
   onSaveNote, 
   onDeleteNote,
   onCreateTask,
   openRouterApiKey,
   aiModel
 }) => {
+  const notes = useStoreSelector(s => s.notes);
   const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isAiLoading, setIsAiLoading] = useState(false);
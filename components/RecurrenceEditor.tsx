@@ -0,0 +1,232 @@
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { RecurrenceService, RecurrenceRule, RecurrenceFrequency } from '../services/recurrenceService';
+
+const WEEK_DAYS = [
+  { label: 'Пн', val: 1 },
+  { label: 'Вт', val: 2 },
+  { label: 'Ср', val: 3 },
+  { label: 'Чт', val: 4 },
+  { label: 'Пт', val: 5 },
+  { label: 'Сб', val: 6 },
+  { label: 'Вс', val: 0 },
+];
+
+const FREQUENCY_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'Ежедневно',
+  WEEKLY: 'Еженедельно',
+  MONTHLY: 'Ежемесячно',
+  YEARLY: 'Ежегодно',
+};
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  DAILY: 'дн.',
+  WEEKLY: 'нед.',
+  MONTHLY: 'мес.',
+  YEARLY: 'г.',
+};
+
+const PREVIEW_COUNT = 3;
+
+type MonthlyMode = 'date' | 'nth' | 'last';
+
+const parseRule = (value: string): RecurrenceRule | null => {
+  try {
+    return value ? RecurrenceService.parse(value) : null;
+  } catch {
+    return null;
+  }
+};
+
+// Rules the form controls can show; anything else is edited as RRULE text
+const isSimple = (rule: RecurrenceRule, startWeekday: number): boolean => {
+  if (rule.bySetPos || rule.byMonth || rule.byMonthDay || rule.wkst !== 1) return false;
+  if (!rule.byDay) return true;
+  if (rule.freq === 'WEEKLY') return rule.byDay.every(d => d.n === undefined);
+  return rule.freq === 'MONTHLY' && rule.byDay.length === 1 && rule.byDay[0].weekday === startWeekday && rule.byDay[0].n !== undefined;
+};
+
+interface RecurrenceEditorProps {
+  value: string; // RRULE value, empty for no recurrence
+  start: number; // DTSTART: weekdays and days of month are taken from it
+  onChange: (value: string) => void;
+}
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, start, onChange }) => {
+  const startDate = new Date(start);
+  const startWeekday = startDate.getDay();
+  const nth = Math.ceil(startDate.getDate() / 7);
+  const rule = useMemo(() => parseRule(value), [value]);
+  const [custom, setCustom] = useState(() => !!value && (!rule || !isSimple(rule, startWeekday)));
+  const [text, setText] = useState(value);
+
+  // A value set from outside, e.g. another task opened in the form
+  useEffect(() => {
+    if (value === text.trim().replace(/^RRULE:/i, '')) return;
+    setText(value);
+    setCustom(!!value && (!rule || !isSimple(rule, startWeekday)));
+  }, [value]);
+
+  const textError = useMemo(() => {
+    try {
+      if (text) RecurrenceService.parse(text);
+      return null;
+    } catch (e) {
+      return e instanceof Error ? e.message : String(e);
+    }
+  }, [text]);
+
+  const preview = useMemo(() => {
+    if (!value || !rule) return [];
+    return RecurrenceService.upcoming(value, start, Math.max(start - 1, Date.now()), PREVIEW_COUNT);
+  }, [value, rule, start]);
+
+  const update = (patch: Partial<RecurrenceRule>) => {
+    if (!rule) return;
+    const next = RecurrenceService.format({ ...rule, ...patch });
+    setText(next);
+    onChange(next);
+  };
+
+  const handleFrequency = (freq: string) => {
+    if (freq === 'CUSTOM') {
+      setText(value);
+      setCustom(true);
+      return;
+    }
+    setCustom(false);
+    const next = freq
+      ? RecurrenceService.format({ freq: freq as RecurrenceFrequency, interval: 1, byDay: freq === 'WEEKLY' ? [{ weekday: startWeekday }] : undefined, wkst: 1 })
+      : '';
+    setText(next);
+    onChange(next);
+  };
+
+  const handleText = (next: string) => {
+    setText(next);
+    const trimmed = next.trim().replace(/^RRULE:/i, '');
+    if (!trimmed) onChange('');
+    else if (parseRule(trimmed)) onChange(trimmed);
+  };
+
+  const toggleDay = (weekday: number) => {
+    if (!rule) return;
+    const days = rule.byDay?.map(d => d.weekday) || [startWeekday];
+    const nextDays = days.includes(weekday) ? days.filter(d => d !== weekday) : [...days, weekday];
+    if (nextDays.length > 0) update({ byDay: nextDays.map(d => ({ weekday: d })) });
+  };
+
+  const monthlyMode: MonthlyMode = !rule?.byDay ? 'date' : rule.byDay[0].n === -1 ? 'last' : 'nth';
+  const setMonthlyMode = (mode: MonthlyMode) => update({
+    byDay: mode === 'date' ? undefined : [{ weekday: startWeekday, n: mode === 'last' ? -1 : nth }]
+  });
+
+  const end = rule?.count !== undefined ? 'count' : rule?.until !== undefined ? 'until' : 'never';
+  const setEnd = (mode: string) => update({
+    count: mode === 'count' ? 10 : undefined,
+    until: mode === 'until' ? start + 30 * 24 * 60 * 60 * 1000 : undefined
+  });
+
+  const weekdayName = startDate.toLocaleDateString('ru-RU', { weekday: 'long' });
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-text-muted">Повтор</label>
+      <select
+        value={custom ? 'CUSTOM' : rule?.freq || ''}
+        onChange={e => handleFrequency(e.target.value)}
+        className="input-field text-sm"
+      >
+        <option value="">Не повторять</option>
+        {(Object.keys(FREQUENCY_LABELS) as RecurrenceFrequency[]).map(f => <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>)}
+        <option value="CUSTOM">Своё правило (RRULE)</option>
+      </select>
+
+      {custom && (
+        <div className="space-y-1">
+          <input
+            value={text}
+            onChange={e => handleText(e.target.value)}
+            className="input-field text-sm font-mono"
+            placeholder="FREQ=MONTHLY;BYDAY=-1FR"
+          />
+          {textError && <p className="text-xs text-error">Правило не распознано: {textError}</p>}
+        </div>
+      )}
+
+      {!custom && rule && (
+        <>
+          <div className="flex items-center gap-2 text-sm text-text-muted">
+            Каждые
+            <input
+              type="number"
+              min={1}
+              value={rule.interval}
+              onChange={e => update({ interval: Math.max(1, Number(e.target.value) || 1) })}
+              className="input-field !w-16 text-sm"
+            />
+            {UNIT_LABELS[rule.freq]}
+          </div>
+
+          {rule.freq === 'WEEKLY' && (
+            <div className="flex justify-between gap-1">
+              {WEEK_DAYS.map(({ label, val }) => (
+                <button
+                  key={val}
+                  type="button"
+                  onClick={() => toggleDay(val)}
+                  className={`
+                    w-8 h-8 rounded-full text-xs font-medium transition
+                    ${(rule.byDay?.map(d => d.weekday) || [startWeekday]).includes(val) ? 'bg-primary text-white' : 'bg-bg-surface border border-border hover:bg-bg-main'}
+                  `}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {rule.freq === 'MONTHLY' && (
+            <select value={monthlyMode} onChange={e => setMonthlyMode(e.target.value as MonthlyMode)} className="input-field text-sm">
+              <option value="date">{startDate.getDate()}-го числа</option>
+              {nth <= 4 && <option value="nth">{nth}-й {weekdayName} месяца</option>}
+              <option value="last">Последний {weekdayName} месяца</option>
+            </select>
+          )}
+
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select value={end} onChange={e => setEnd(e.target.value)} className="input-field !w-auto text-sm">
+              <option value="never">Без окончания</option>
+              <option value="count">Количество раз</option>
+              <option value="until">До даты</option>
+            </select>
+            {end === 'count' && (
+              <input
+                type="number"
+                min={1}
+                value={rule.count}
+                onChange={e => update({ count: Math.max(1, Number(e.target.value) || 1) })}
+                className="input-field !w-20 text-sm"
+              />
+            )}
+            {end === 'until' && (
+              <input
+                type="date"
+                value={new Date(rule.until!).toISOString().split('T')[0]}
+                onChange={e => e.target.value && update({ until: new Date(`${e.target.value}T23:59:59`).getTime() })}
+                className="input-field !w-auto text-sm"
+              />
+            )}
+          </div>
+        </>
+      )}
+
+      {rule && (
+        <p className="text-xs text-text-muted">
+          {RecurrenceService.describe(value)}
+          {preview.length > 0 && ` · ближайшие: ${preview.map(t => new Date(t).toLocaleDateString()).join(', ')}`}
+        </p>
+      )}
+    </div>
+  );
+};
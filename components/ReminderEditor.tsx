@@ -0,0 +1,130 @@
+
+import React from 'react';
+import { EventType, ReminderAnchor, ReminderOffset, TaskReminder } from '../types';
+
+export const EVENT_TYPE_LABELS: Record<EventType, string> = {
+  task: 'Задача',
+  meeting: 'Встреча',
+  personal: 'Личное',
+  reminder: 'Напоминание',
+};
+
+const ANCHOR_LABELS: Record<ReminderAnchor, string> = {
+  startTime: 'до начала',
+  deadline: 'до срока',
+};
+
+const UNITS = [
+  { label: 'дн.', minutes: 24 * 60 },
+  { label: 'ч', minutes: 60 },
+  { label: 'мин', minutes: 1 },
+];
+
+const DEFAULT_OFFSET: ReminderOffset = { anchor: 'startTime', minutesBefore: 15 };
+
+// Largest unit the offset is a whole number of
+const unitOf = (minutes: number) => UNITS.find(u => minutes >= u.minutes && minutes % u.minutes === 0) || UNITS[UNITS.length - 1];
+
+// Value of a datetime-local input, in local time
+const toDateTimeInput = (time?: number) => {
+  if (time === undefined) return '';
+  const date = new Date(time);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface ReminderOffsetFieldsProps {
+  value: ReminderOffset;
+  onChange: (value: ReminderOffset) => void;
+}
+
+export const ReminderOffsetFields: React.FC<ReminderOffsetFieldsProps> = ({ value, onChange }) => {
+  const unit = unitOf(value.minutesBefore);
+  return (
+    <>
+      <input
+        type="number"
+        min={0}
+        value={value.minutesBefore / unit.minutes}
+        onChange={e => onChange({ ...value, minutesBefore: Math.max(0, Number(e.target.value) || 0) * unit.minutes })}
+        className="input-field !w-16 text-sm"
+      />
+      <select
+        value={unit.minutes}
+        onChange={e => onChange({ ...value, minutesBefore: (value.minutesBefore / unit.minutes) * Number(e.target.value) })}
+        className="input-field !w-auto text-sm"
+      >
+        {UNITS.map(u => <option key={u.minutes} value={u.minutes}>{u.label}</option>)}
+      </select>
+      <select
+        value={value.anchor}
+        onChange={e => onChange({ ...value, anchor: e.target.value as ReminderAnchor })}
+        className="input-field !w-auto text-sm"
+      >
+        {(Object.keys(ANCHOR_LABELS) as ReminderAnchor[]).map(a => <option key={a} value={a}>{ANCHOR_LABELS[a]}</option>)}
+      </select>
+    </>
+  );
+};
+
+interface ReminderEditorProps {
+  reminders: TaskReminder[];
+  onChange: (reminders: TaskReminder[]) => void;
+}
+
+// Reminders of a task: each at a fixed time or at an offset before the start or deadline
+export const ReminderEditor: React.FC<ReminderEditorProps> = ({ reminders, onChange }) => {
+  // An edited reminder is armed again and loses its snooze
+  const update = (id: string, patch: Partial<TaskReminder>) =>
+    onChange(reminders.map(r => (r.id === id ? { ...r, ...patch, fired: undefined, snoozedUntil: undefined } : r)));
+
+  const setKind = (reminder: TaskReminder, kind: string) => update(reminder.id, kind === 'time'
+    ? { offset: undefined, time: reminder.time ?? Date.now() + 60 * 60 * 1000 }
+    : { offset: reminder.offset || DEFAULT_OFFSET, time: undefined });
+
+  return (
+    <div className="space-y-2">
+      <label className="text-xs font-medium text-text-muted">Напоминания</label>
+      {reminders.map(reminder => (
+        <div key={reminder.id} className={`flex flex-wrap items-center gap-2 ${reminder.fired ? 'opacity-60' : ''}`}>
+          <select
+            value={reminder.offset ? 'offset' : 'time'}
+            onChange={e => setKind(reminder, e.target.value)}
+            className="input-field !w-auto text-sm"
+          >
+            <option value="offset">Заранее</option>
+            <option value="time">Точное время</option>
+          </select>
+          {reminder.offset ? (
+            <ReminderOffsetFields value={reminder.offset} onChange={offset => update(reminder.id, { offset })} />
+          ) : (
+            <input
+              type="datetime-local"
+              value={toDateTimeInput(reminder.time)}
+              onChange={e => e.target.value && update(reminder.id, { time: new Date(e.target.value).getTime() })}
+              className="input-field !w-auto text-sm"
+            />
+          )}
+          {reminder.snoozedUntil !== undefined && !reminder.fired && (
+            <span className="text-xs text-text-muted">отложено до {new Date(reminder.snoozedUntil).toLocaleString([], { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' })}</span>
+          )}
+          <button
+            type="button"
+            onClick={() => onChange(reminders.filter(r => r.id !== reminder.id))}
+            className="text-text-muted hover:text-error text-lg leading-none"
+            title="Удалить напоминание"
+          >
+            &times;
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...reminders, { id: crypto.randomUUID(), offset: DEFAULT_OFFSET }])}
+        className="text-xs text-primary hover:underline"
+      >
+        + Напоминание
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,540 @@
+
+import React, { useState } from 'react';
+import { AutomationRule, RuleCondition, ConditionGroup, ConditionOperator, RuleAction, ActionType, WeatherType, WebhookConfig } from '../types';
+import { SIGNATURE_HEADER, TIMESTAMP_HEADER } from '../services/webhookService';
+import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
+
+export const FIELD_OPTIONS: { id: string, label: string }[] = [
+  { id: 'status', label: 'Статус' },
+  { id: 'tags', label: 'Теги' },
+  { id: 'assignee', label: 'Исполнитель' },
+  { id: 'title', label: 'Название' },
+  { id: 'description', label: 'Описание' },
+  { id: 'completed', label: 'Выполнена' },
+  { id: 'deadline', label: 'Дедлайн' },
+  { id: 'eventType', label: 'Тип события' },
+  { id: 'color', label: 'Цвет' },
+  { id: 'boardId', label: 'Доска' },
+  { id: 'estimatedDuration', label: 'Оценка (мин)' },
+];
+
+const OPERATOR_LABELS: Record<ConditionOperator, string> = {
+  equals: 'равно',
+  not_equals: 'не равно',
+  contains: 'содержит',
+  not_contains: 'не содержит',
+  is_empty: 'пусто',
+  is_not_empty: 'не пусто',
+  greater_than: 'больше',
+  less_than: 'меньше',
+  changed: 'изменилось',
+  changed_to: 'стало / добавлено',
+};
+
+// Operators that compare without a value
+const UNARY_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty', 'changed'];
+
+const ACTION_LABELS: Record<ActionType, string> = {
+  add_tag: 'Добавить тег',
+  set_color: 'Задать цвет',
+  assign_user: 'Назначить',
+  move_to_board: 'Переместить на доску',
+  create_notification: 'Уведомление',
+  webhook: 'Вебхук (URL)',
+};
+
+export const WEATHER_LABELS: Record<WeatherType, string> = {
+  sunny: 'Солнечно',
+  rain: 'Дождь',
+  cloudy: 'Облачно',
+  snow: 'Снег',
+};
+
+// Monday first, as in the calendar
+const WEEKDAYS: { id: number, label: string }[] = [
+  { id: 1, label: 'Пн' },
+  { id: 2, label: 'Вт' },
+  { id: 3, label: 'Ср' },
+  { id: 4, label: 'Чт' },
+  { id: 5, label: 'Пт' },
+  { id: 6, label: 'Сб' },
+  { id: 0, label: 'Вс' },
+];
+
+const CONDITION_TYPES: { id: RuleCondition['type'], label: string }[] = [
+  { id: 'field', label: 'Поле задачи' },
+  { id: 'deadline', label: 'Скоро дедлайн' },
+  { id: 'overdue', label: 'Просрочена' },
+  { id: 'schedule', label: 'По расписанию' },
+  { id: 'inactivity', label: 'Без изменений' },
+  { id: 'location', label: 'Геозона' },
+  { id: 'weather', label: 'Погода' },
+  { id: 'group', label: 'Группа условий' },
+];
+
+const defaultCondition = (type: RuleCondition['type']): RuleCondition => {
+  switch (type) {
+    case 'field': return { type: 'field', field: 'status', operator: 'changed_to', value: '' };
+    case 'inactivity': return { type: 'inactivity', days: 7 };
+    case 'deadline': return { type: 'deadline', hours: 24 };
+    case 'overdue': return { type: 'overdue' };
+    case 'schedule': return { type: 'schedule', days: [1], time: '09:00' };
+    case 'location': return { type: 'location', event: 'enter', location: { lat: 0, lng: 0, radius: 200 } };
+    case 'weather': return { type: 'weather', weather: 'rain' };
+    case 'group': return { type: 'group', logic: 'or', conditions: [] };
+  }
+};
+
+export const fieldLabel = (field: string): string => FIELD_OPTIONS.find(f => f.id === field)?.label || field;
+
+// One-line summary for the rule list
+export const describeCondition = (condition: RuleCondition): string => {
+  switch (condition.type) {
+    case 'group': {
+      const parts = condition.conditions.map(describeCondition);
+      const joined = parts.join(condition.logic === 'and' ? ' И ' : ' ИЛИ ');
+      return parts.length > 1 ? `(${joined})` : joined;
+    }
+    case 'field': {
+      const field = fieldLabel(condition.field);
+      const value = UNARY_OPERATORS.includes(condition.operator) ? '' : ` «${condition.value ?? ''}»`;
+      return `${field} ${OPERATOR_LABELS[condition.operator]}${value}`;
+    }
+    case 'inactivity': return `Без изменений ${condition.days} дн.`;
+    case 'deadline': return `До дедлайна ≤ ${condition.hours} ч.`;
+    case 'overdue': return 'Просрочена';
+    case 'schedule': {
+      const days = condition.days.length === 7
+        ? 'Каждый день'
+        : WEEKDAYS.filter(d => condition.days.includes(d.id)).map(d => d.label).join(', ');
+      return `${days} в ${condition.time}`;
+    }
+    case 'location': return condition.event === 'enter' ? 'Вход в геозону' : 'Выход из геозоны';
+    case 'weather': return `Погода: ${WEATHER_LABELS[condition.weather]}`;
+  }
+};
+
+// Time-based conditions are checked by the scheduler, which has no previous version of the task to compare with
+const hasChangeOperator = (condition: RuleCondition): boolean => condition.type === 'group'
+  ? condition.conditions.some(hasChangeOperator)
+  : condition.type === 'field' && (condition.operator === 'changed' || condition.operator === 'changed_to');
+
+const hasTimeCondition = (condition: RuleCondition): boolean => condition.type === 'group'
+  ? condition.conditions.some(hasTimeCondition)
+  : ['inactivity', 'deadline', 'overdue', 'schedule'].includes(condition.type);
+
+const actionValueLabel = (action: RuleAction): string => action.type === 'move_to_board'
+  ? appStore.getState().boards.find(b => b.id === action.value)?.title || action.value
+  : action.value;
+
+export const describeActions = (actions: RuleAction[]): string =>
+  actions.map(a => `${ACTION_LABELS[a.type]}${a.value ? ` «${actionValueLabel(a)}»` : ''}`).join(', ');
+
+// --- Condition tree ---
+
+interface ConditionEditorProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionEditor: React.FC<ConditionEditorProps> = ({ condition, onChange, onRemove }) => {
+  if (condition.type === 'group') {
+    return <GroupEditor group={condition} onChange={onChange} onRemove={onRemove} />;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-bg-surface p-2 rounded-lg border border-border">
+      <select
+        value={condition.type}
+        onChange={e => onChange(defaultCondition(e.target.value as RuleCondition['type']))}
+        className="input-field !w-auto text-sm"
+      >
+        {CONDITION_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+      </select>
+
+      {condition.type === 'field' && (
+        <>
+          <select value={condition.field} onChange={e => onChange({ ...condition, field: e.target.value })} className="input-field !w-auto text-sm">
+            {FIELD_OPTIONS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+          </select>
+          <select
+            value={condition.operator}
+            onChange={e => onChange({ ...condition, operator: e.target.value as ConditionOperator })}
+            className="input-field !w-auto text-sm"
+          >
+            {(Object.keys(OPERATOR_LABELS) as ConditionOperator[]).map(op => <option key={op} value={op}>{OPERATOR_LABELS[op]}</option>)}
+          </select>
+          {!UNARY_OPERATORS.includes(condition.operator) && (
+            <input
+              value={condition.value ?? ''}
+              onChange={e => onChange({ ...condition, value: e.target.value })}
+              className="input-field flex-1 min-w-[100px] text-sm"
+              placeholder="Значение"
+            />
+          )}
+        </>
+      )}
+
+      {condition.type === 'inactivity' && (
+        <label className="flex items-center gap-2 text-sm text-text-muted">
+          <input
+            type="number"
+            min={1}
+            value={condition.days}
+            onChange={e => onChange({ ...condition, days: Math.max(1, Number(e.target.value)) })}
+            className="input-field !w-20 text-sm"
+          />
+          дней
+        </label>
+      )}
+
+      {condition.type === 'deadline' && (
+        <label className="flex items-center gap-2 text-sm text-text-muted">
+          через
+          <input
+            type="number"
+            min={1}
+            value={condition.hours}
+            onChange={e => onChange({ ...condition, hours: Math.max(1, Number(e.target.value)) })}
+            className="input-field !w-20 text-sm"
+          />
+          ч. или раньше
+        </label>
+      )}
+
+      {condition.type === 'schedule' && (
+        <>
+          <div className="flex gap-1">
+            {WEEKDAYS.map(day => {
+              const active = condition.days.includes(day.id);
+              return (
+                <button
+                  key={day.id}
+                  type="button"
+                  onClick={() => onChange({ ...condition, days: active ? condition.days.filter(d => d !== day.id) : [...condition.days, day.id] })}
+                  className={`w-8 h-8 rounded-md text-xs font-medium ${active ? 'bg-primary text-white' : 'bg-bg-panel text-text-muted hover:text-text-main'}`}
+                >
+                  {day.label}
+                </button>
+              );
+            })}
+          </div>
+          <input
+            type="time"
+            value={condition.time}
+            onChange={e => onChange({ ...condition, time: e.target.value || '09:00' })}
+            className="input-field !w-28 text-sm"
+          />
+        </>
+      )}
+
+      {condition.type === 'location' && (
+        <>
+          <select
+            value={condition.event}
+            onChange={e => onChange({ ...condition, event: e.target.value as 'enter' | 'leave' })}
+            className="input-field !w-auto text-sm"
+          >
+            <option value="enter">Вход</option>
+            <option value="leave">Выход</option>
+          </select>
+          {(['lat', 'lng', 'radius'] as const).map(key => (
+            <input
+              key={key}
+              type="number"
+              step="any"
+              value={condition.location[key]}
+              onChange={e => onChange({ ...condition, location: { ...condition.location, [key]: Number(e.target.value) } })}
+              className="input-field !w-24 text-sm"
+              title={key === 'lat' ? 'Широта' : key === 'lng' ? 'Долгота' : 'Радиус (м)'}
+            />
+          ))}
+        </>
+      )}
+
+      {condition.type === 'weather' && (
+        <select
+          value={condition.weather}
+          onChange={e => onChange({ ...condition, weather: e.target.value as WeatherType })}
+          className="input-field !w-auto text-sm"
+        >
+          {(Object.keys(WEATHER_LABELS) as WeatherType[]).map(w => <option key={w} value={w}>{WEATHER_LABELS[w]}</option>)}
+        </select>
+      )}
+
+      <button type="button" onClick={onRemove} className="ml-auto text-text-muted hover:text-error px-2" title="Удалить условие">✕</button>
+    </div>
+  );
+};
+
+interface GroupEditorProps {
+  group: ConditionGroup;
+  onChange: (group: ConditionGroup) => void;
+  onRemove?: () => void; // Not set for the root group
+}
+
+const GroupEditor: React.FC<GroupEditorProps> = ({ group, onChange, onRemove }) => {
+  const updateAt = (index: number, condition: RuleCondition) =>
+    onChange({ ...group, conditions: group.conditions.map((c, i) => (i === index ? condition : c)) });
+  const removeAt = (index: number) =>
+    onChange({ ...group, conditions: group.conditions.filter((_, i) => i !== index) });
+
+  return (
+    <div className={`space-y-2 ${onRemove ? 'p-3 rounded-lg border border-dashed border-border bg-bg-panel/50' : ''}`}>
+      <div className="flex items-center gap-2 text-sm">
+        <span className="text-text-muted">Выполняются</span>
+        <select
+          value={group.logic}
+          onChange={e => onChange({ ...group, logic: e.target.value as 'and' | 'or' })}
+          className="input-field !w-auto text-sm font-medium"
+        >
+          <option value="and">все условия (И)</option>
+          <option value="or">любое условие (ИЛИ)</option>
+        </select>
+        {onRemove && (
+          <button type="button" onClick={onRemove} className="ml-auto text-text-muted hover:text-error px-2" title="Удалить группу">✕</button>
+        )}
+      </div>
+
+      {group.conditions.map((condition, i) => (
+        <ConditionEditor key={i} condition={condition} onChange={c => updateAt(i, c)} onRemove={() => removeAt(i)} />
+      ))}
+
+      <div className="flex gap-3 text-sm">
+        <button type="button" onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultCondition('field')] })} className="text-primary hover:underline">
+          + Условие
+        </button>
+        <button type="button" onClick={() => onChange({ ...group, conditions: [...group.conditions, defaultCondition('group')] })} className="text-primary hover:underline">
+          + Группа
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// --- Webhook ---
+
+const SLACK_TEMPLATE = '{"text": "{{rule.name}}: {{task.title}} ({{task.status}})"}';
+
+// One "Name: value" per line
+const formatHeaders = (headers: Record<string, string> = {}): string =>
+  Object.entries(headers).map(([name, value]) => `${name}: ${value}`).join('\n');
+
+const parseHeaders = (text: string): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  text.split('\n').forEach(line => {
+    const separator = line.indexOf(':');
+    if (separator <= 0) return;
+    headers[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+  });
+  return headers;
+};
+
+interface WebhookEditorProps {
+  config: WebhookConfig;
+  secret: string;
+  onChange: (config: WebhookConfig) => void;
+  onSecretChange: (secret: string) => void;
+}
+
+const WebhookEditor: React.FC<WebhookEditorProps> = ({ config, secret, onChange, onSecretChange }) => {
+  // Edited as text, parsed on every change so half-typed lines do not get lost
+  const [headersText, setHeadersText] = useState(formatHeaders(config.headers));
+
+  return (
+    <div className="space-y-2 pl-6 text-sm">
+      <textarea
+        value={headersText}
+        onChange={e => {
+          setHeadersText(e.target.value);
+          onChange({ ...config, headers: parseHeaders(e.target.value) });
+        }}
+        className="input-field font-mono text-xs h-16"
+        placeholder={'Заголовки, по одному в строке\nAuthorization: Bearer ...'}
+      />
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-text-muted">
+          <span>Тело запроса: {'{{task.title}}'}, {'{{task.status}}'}, {'{{task.tags}}'}, {'{{rule.name}}'}, {'{{now}}'}</span>
+          <button type="button" onClick={() => onChange({ ...config, bodyTemplate: SLACK_TEMPLATE })} className="text-primary hover:underline">
+            Slack / Mattermost
+          </button>
+        </div>
+        <textarea
+          value={config.bodyTemplate || ''}
+          onChange={e => onChange({ ...config, bodyTemplate: e.target.value })}
+          className="input-field font-mono text-xs h-20"
+          placeholder="Пусто — задача целиком в JSON"
+        />
+      </div>
+      <input
+        type="password"
+        value={secret}
+        onChange={e => onSecretChange(e.target.value)}
+        className="input-field text-xs"
+        placeholder="Секрет подписи HMAC-SHA256 (хранится только на устройстве)"
+        autoComplete="off"
+      />
+      {secret && (
+        <p className="text-xs text-text-muted">
+          Подпись: {SIGNATURE_HEADER}: sha256=HMAC(секрет, «{TIMESTAMP_HEADER}.тело»)
+        </p>
+      )}
+    </div>
+  );
+};
+
+// --- Rule ---
+
+interface RuleEditorProps {
+  rule: AutomationRule | null; // null creates a new rule
+  webhookSecrets: Record<string, string>; // Signing secrets by URL, from the local vault
+  onSave: (rule: AutomationRule, webhookSecrets: Record<string, string>) => void;
+  onCancel: () => void;
+}
+
+export const RuleEditor: React.FC<RuleEditorProps> = ({ rule, webhookSecrets, onSave, onCancel }) => {
+  const [draft, setDraft] = useState<AutomationRule>(rule || {
+    id: crypto.randomUUID(),
+    name: '',
+    isActive: true,
+    conditions: { type: 'group', logic: 'and', conditions: [defaultCondition('field')] },
+    actions: [{ type: 'add_tag', value: '' }]
+  });
+  const [secrets, setSecrets] = useState<Record<string, string>>(webhookSecrets);
+  const [error, setError] = useState<string | null>(null);
+  const boards = useStoreSelector(s => s.boards);
+
+  const updateAction = (index: number, action: RuleAction) =>
+    setDraft({ ...draft, actions: draft.actions.map((a, i) => (i === index ? action : a)) });
+
+  const moveAction = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= draft.actions.length) return;
+    const actions = [...draft.actions];
+    [actions[index], actions[target]] = [actions[target], actions[index]];
+    setDraft({ ...draft, actions });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return setError('Укажите название правила');
+    if (draft.conditions.conditions.length === 0) return setError('Добавьте хотя бы одно условие');
+    if (hasTimeCondition(draft.conditions) && hasChangeOperator(draft.conditions)) {
+      return setError('Условия по времени проверяются в фоне и не сочетаются с «изменилось»');
+    }
+    if (draft.actions.length === 0) return setError('Добавьте хотя бы одно действие');
+    if (draft.actions.some(a => a.type === 'webhook' && !/^https?:\/\//.test(a.value.trim()))) {
+      return setError('Укажите адрес вебхука (http:// или https://)');
+    }
+    if (draft.actions.some(a => a.type === 'move_to_board' && !boards.some(b => b.id === a.value))) return setError('Выберите доску');
+    onSave({ ...draft, name: draft.name.trim() }, secrets);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4">
+      <div className="absolute inset-0 bg-black/40 backdrop-blur-sm" onClick={onCancel}></div>
+
+      <div className="relative bg-bg-surface rounded-modal shadow-modal w-full max-w-2xl overflow-hidden flex flex-col max-h-[90vh] border border-border animate-in fade-in zoom-in-95 duration-200">
+        <div className="p-5 border-b border-border flex justify-between items-center bg-bg-main">
+          <h2 className="text-lg font-semibold text-text-main">{rule ? 'Редактировать правило' : 'Новое правило'}</h2>
+          <button onClick={onCancel} className="text-text-muted hover:text-text-main text-2xl leading-none">&times;</button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 overflow-y-auto flex-1 space-y-6">
+          <input
+            value={draft.name}
+            onChange={e => setDraft({ ...draft, name: e.target.value })}
+            className="input-field font-medium text-lg"
+            placeholder="Название правила"
+            autoFocus
+          />
+
+          <label className="flex flex-wrap items-center gap-2 text-sm text-text-muted">
+            Порядок выполнения
+            <input
+              type="number"
+              value={draft.priority ?? 0}
+              onChange={e => setDraft({ ...draft, priority: Number(e.target.value) || 0 })}
+              className="input-field !w-20 text-sm"
+            />
+            <span className="text-xs">меньше — раньше; изменения, сделанные правилом, проверяются следующими правилами цепочки</span>
+          </label>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted">Когда</h3>
+            <GroupEditor group={draft.conditions} onChange={conditions => setDraft({ ...draft, conditions })} />
+          </section>
+
+          <section className="space-y-2">
+            <h3 className="text-xs font-semibold uppercase tracking-wider text-text-muted">То (по порядку)</h3>
+            {draft.actions.map((action, i) => (
+              <div key={i} className="bg-bg-surface p-2 rounded-lg border border-border space-y-2">
+                <div className="flex items-center gap-2">
+                  <span className="text-xs text-text-muted w-4">{i + 1}.</span>
+                  <select
+                    value={action.type}
+                    onChange={e => updateAction(i, { ...action, type: e.target.value as ActionType })}
+                    className="input-field !w-auto text-sm"
+                  >
+                    {(Object.keys(ACTION_LABELS) as ActionType[]).map(type => <option key={type} value={type}>{ACTION_LABELS[type]}</option>)}
+                  </select>
+                  {action.type === 'move_to_board' ? (
+                    <select
+                      value={action.value}
+                      onChange={e => updateAction(i, { ...action, value: e.target.value })}
+                      className="input-field flex-1 text-sm"
+                    >
+                      <option value="">Выберите доску</option>
+                      {boards.map(b => <option key={b.id} value={b.id}>{b.title}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      value={action.value}
+                      onChange={e => updateAction(i, { ...action, value: e.target.value })}
+                      className="input-field flex-1 text-sm"
+                      placeholder={action.type === 'webhook' ? 'https://...' : 'Значение'}
+                    />
+                  )}
+                  <button type="button" onClick={() => moveAction(i, -1)} disabled={i === 0} className="text-text-muted hover:text-primary disabled:opacity-30 px-1" title="Выше">↑</button>
+                  <button type="button" onClick={() => moveAction(i, 1)} disabled={i === draft.actions.length - 1} className="text-text-muted hover:text-primary disabled:opacity-30 px-1" title="Ниже">↓</button>
+                  <button
+                    type="button"
+                    onClick={() => setDraft({ ...draft, actions: draft.actions.filter((_, j) => j !== i) })}
+                    className="text-text-muted hover:text-error px-1"
+                    title="Удалить действие"
+                  >
+                    ✕
+                  </button>
+                </div>
+                {action.type === 'webhook' && (
+                  <WebhookEditor
+                    config={action.webhook || {}}
+                    secret={secrets[action.value] || ''}
+                    onChange={webhook => updateAction(i, { ...action, webhook })}
+                    onSecretChange={secret => setSecrets({ ...secrets, [action.value]: secret })}
+                  />
+                )}
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setDraft({ ...draft, actions: [...draft.actions, { type: 'add_tag', value: '' }] })}
+              className="text-sm text-primary hover:underline"
+            >
+              + Действие
+            </button>
+          </section>
+
+          {error && <p className="text-sm text-error">{error}</p>}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button type="button" onClick={onCancel} className="px-4 py-2 rounded-lg text-text-muted hover:bg-bg-panel">Отмена</button>
+            <button type="submit" className="btn-primary px-5 py-2 rounded-lg">Сохранить</button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+};
@@ -1,26 +1,44 @@
 
 import React, { useState, useEffect } from 'react';
-import { AppSettings, User, AppState, BackupSnapshot, WorkSchedule, GlobalEvent } from '../types';
+import { AppSettings, AppSecrets, AppLockConfig, User, AppState, BackupSnapshot, WorkSchedule, GlobalEvent, SyncProviderId, EventType, ReminderOffset } from '../types';
 import { AuthService } from '../services/authService';
 import { StorageService } from '../services/storageService';
 import { SyncService } from '../services/syncService';
+import { LocalFolderBackend } from '../services/syncBackends';
+import { SecretsService } from '../services/secretsService';
+import { AppLockService } from '../services/appLockService';
 import { ExportService } from '../services/exportService';
 import { AVAILABLE_MODELS } from '../services/aiService';
 import { LocalAiService } from '../services/localAiService';
 import { DeveloperApiService } from '../services/developerApiService';
 import { appStore } from '../lib/store';
+import { useStoreSelector } from '../lib/useStore';
+import { ReminderOffsetFields, EVENT_TYPE_LABELS } from './ReminderEditor';
 
 interface SettingsViewProps {
   user: User | null;
   settings: AppSettings;
-  appState: AppState;
   lastSynced?: number;
   onUpdateSettings: (settings: Partial<AppSettings>) => void;
+  onUpdateSecrets: (secrets: Partial<AppSecrets>) => void;
+  onUnlockSecrets: (passphrase: string) => Promise<void>;
+  onSetVaultPassphrase: (passphrase: string | null) => Promise<void>;
+  onAppLockChanged: () => void;
+  onLockApp: () => void;
   onImportData: (data: AppState, merge: boolean) => void;
   onClearData: () => void;
+  onResolveConflict?: (conflictId: string, side: 'local' | 'cloud') => void;
   onLogout?: () => void;
 }
 
+const SYNC_PROVIDERS: { id: SyncProviderId, label: string }[] = [
+    { id: 'google_drive', label: 'Google Drive' },
+    { id: 'yandex_disk', label: 'Яндекс Диск' },
+    { id: 'github_gist', label: 'GitHub Gist' },
+    { id: 'webdav', label: 'WebDAV (Nextcloud)' },
+    { id: 'local_folder', label: 'Локальная папка' },
+];
+
 const WEEK_DAYS = [
     { label: 'Пн', val: 1 },
     { label: 'Вт', val: 2 },
@@ -34,17 +52,41 @@ const WEEK_DAYS = [
 export const SettingsView: React.FC<SettingsViewProps> = ({
   user,
   settings,
-  appState,
   lastSynced,
   onUpdateSettings,
+  onUpdateSecrets,
+  onUnlockSecrets,
+  onSetVaultPassphrase,
+  onAppLockChanged,
+  onLockApp,
   onImportData,
   onClearData,
+  onResolveConflict,
   onLogout
 }) => {
+  const storedSecrets = useStoreSelector(s => s.secrets);
+  const secretsLocked = useStoreSelector(s => s.secretsLocked);
+  const globalEvents = useStoreSelector(s => s.globalEvents);
+  const syncConflicts = useStoreSelector(s => s.syncConflicts);
+  const isSyncConfigured = useStoreSelector(s => SyncService.resolveBackend(s) !== null);
   const [activeTab, setActiveTab] = useState<'general' | 'schedule' | 'sync' | 'backup' | 'ai' | 'dev'>('general');
   const [backups, setBackups] = useState<BackupSnapshot[]>([]);
-  const [encryptionPwd, setEncryptionPwd] = useState(settings.encryptionPassword || '');
-  const [githubToken, setGithubToken] = useState(settings.githubToken || '');
+  const secrets = storedSecrets || {};
+  const [encryptionPwd, setEncryptionPwd] = useState(secrets.encryptionPassword || '');
+  const [githubToken, setGithubToken] = useState(secrets.githubToken || '');
+  const [webdav, setWebdav] = useState({
+      url: settings.webdavUrl || '',
+      username: settings.webdavUsername || '',
+      password: secrets.webdavPassword || ''
+  });
+  const [vaultPassphrase, setVaultPassphrase] = useState('');
+  const [isVaultWrapped, setIsVaultWrapped] = useState(false);
+  const [lockConfig, setLockConfig] = useState<AppLockConfig | null>(null);
+  const [lockPassphrase, setLockPassphrase] = useState('');
+  const [lockIdleMinutes, setLockIdleMinutes] = useState(5);
+  const [isLockBusy, setIsLockBusy] = useState(false);
+  const [localFolderName, setLocalFolderName] = useState<string | null>(null);
+  const [localFolderAccess, setLocalFolderAccess] = useState(false);
   
   // Sync State
   const [isCloudLoading, setIsCloudLoading] = useState(false);
@@ -67,10 +109,26 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
     if (activeTab === 'dev') {
       DeveloperApiService.init();
     }
+    if (activeTab === 'sync') {
+      LocalFolderBackend.getFolderName().then(setLocalFolderName);
+      LocalFolderBackend.hasPermission().then(setLocalFolderAccess).catch(() => setLocalFolderAccess(false));
+      SecretsService.isWrapped().then(setIsVaultWrapped);
+      AppLockService.getConfig().then(config => {
+        setLockConfig(config);
+        if (config) setLockIdleMinutes(config.idleMinutes);
+      });
+    }
   }, [activeTab]);
 
+  // Secrets arrive later when the vault is unlocked after the view was opened
+  useEffect(() => {
+    setEncryptionPwd(secrets.encryptionPassword || '');
+    setGithubToken(secrets.githubToken || '');
+    setWebdav(prev => ({ ...prev, password: secrets.webdavPassword || '' }));
+  }, [storedSecrets]);
+
   const handleCreateBackup = async () => {
-    await StorageService.createBackup(appState, 'Manual Backup');
+    await StorageService.createBackup(appStore.getState(), 'Manual Backup');
     const bks = await StorageService.getBackups();
     setBackups(bks);
   };
@@ -88,18 +146,17 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   // --- Manual Sync Handlers ---
 
   const handleManualCloudSave = async () => {
-      const token = AuthService.getToken();
-      const provider = AuthService.getProvider();
+      const backend = SyncService.resolveBackend(appStore.getState());
       
-      if (!token || !user) {
-          alert('Сначала войдите в аккаунт');
+      if (!backend) {
+          alert('Сначала настройте хранилище синхронизации');
           return;
       }
       
       setIsCloudLoading(true);
       setCloudStatus('Сохранение...');
       try {
-          await SyncService.upload(appState, token, provider || 'google');
+          await SyncService.upload(appStore.getState(), backend);
           setCloudStatus('Успешно сохранено ✅');
           appStore.setState({ lastSynced: Date.now() });
           setTimeout(() => setCloudStatus(null), 3000);
@@ -113,21 +170,21 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
   };
 
   const handleManualCloudLoad = async () => {
-      const token = AuthService.getToken();
-      const provider = AuthService.getProvider();
+      const backend = SyncService.resolveBackend(appStore.getState());
       
-      if (!token || !user) {
-          alert('Сначала войдите в аккаунт');
+      if (!backend) {
+          alert('Сначала настройте хранилище синхронизации');
           return;
       }
 
       setIsCloudLoading(true);
       setCloudStatus('Загрузка...');
       try {
-          const result = await SyncService.download(token, provider || 'google', settings.encryptionPassword);
+          const result = await SyncService.download(backend, secrets.encryptionPassword);
           if (result.data) {
               if (confirm('Это перезапишет текущие данные данными из облака. Продолжить?')) {
                   onImportData(result.data, false);
+                  await StorageService.saveSyncBase(result.data);
                   setCloudStatus('Данные загружены ✅');
               } else {
                   setCloudStatus('Отменено');
@@ -145,14 +202,119 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
       }
   };
 
-  const saveSecuritySettings = () => {
-    onUpdateSettings({ 
+  const saveSecuritySettings = async () => {
+    const oldPassword = secrets.encryptionPassword || '';
+    const backend = SyncService.resolveBackend(appStore.getState());
+
+    // Data already in the cloud is re-encrypted with the new password before it is stored
+    if (backend && encryptionPwd !== oldPassword) {
+      setIsCloudLoading(true);
+      setCloudStatus('Перешифрование данных в облаке...');
+      try {
+        await SyncService.rotateKey(backend, oldPassword, encryptionPwd);
+        setCloudStatus(null);
+      } catch (e: any) {
+        console.error(e);
+        setCloudStatus('Ошибка перешифрования ❌');
+        alert(`Пароль не изменен: ${e.message}`);
+        return;
+      } finally {
+        setIsCloudLoading(false);
+      }
+    }
+
+    onUpdateSecrets({ 
       encryptionPassword: encryptionPwd,
       githubToken: githubToken
     });
     alert('Настройки безопасности сохранены');
   };
 
+  const handleUnlockVault = async () => {
+    try {
+      await onUnlockSecrets(vaultPassphrase);
+      setVaultPassphrase('');
+    } catch (e: any) {
+      alert(e.message);
+    }
+  };
+
+  const handleSetVaultPassphrase = async (passphrase: string | null) => {
+    await onSetVaultPassphrase(passphrase);
+    setVaultPassphrase('');
+    setIsVaultWrapped(!!passphrase);
+    alert(passphrase ? 'Хранилище секретов защищено паролем' : 'Защита хранилища снята');
+  };
+
+  // --- App Lock Handlers ---
+
+  const runLockAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsLockBusy(true);
+    try {
+      await action();
+      setLockPassphrase('');
+      setLockConfig(await AppLockService.getConfig());
+      onAppLockChanged();
+      alert(successMessage);
+    } catch (e: any) {
+      console.error(e);
+      alert(e.message || 'Ошибка');
+    } finally {
+      setIsLockBusy(false);
+    }
+  };
+
+  const handleEnableAppLock = () => runLockAction(
+    () => AppLockService.enable(lockPassphrase, lockIdleMinutes),
+    'Блокировка включена, данные на устройстве зашифрованы'
+  );
+
+  const handleDisableAppLock = () => {
+    if (!confirm('Отключить блокировку? Данные на устройстве будут расшифрованы.')) return;
+    runLockAction(() => AppLockService.disable(), 'Блокировка отключена');
+  };
+
+  const handleRegisterPasskey = () => runLockAction(
+    () => AppLockService.registerWebAuthn(lockPassphrase),
+    'Ключ доступа добавлен'
+  );
+
+  const handleLockIdleChange = async (minutes: number) => {
+    setLockIdleMinutes(minutes);
+    if (lockConfig) {
+      await AppLockService.setIdleMinutes(minutes);
+      setLockConfig(await AppLockService.getConfig());
+      onAppLockChanged();
+    }
+  };
+
+  const saveWebdavSettings = () => {
+    onUpdateSettings({
+      webdavUrl: webdav.url.trim(),
+      webdavUsername: webdav.username
+    });
+    onUpdateSecrets({ webdavPassword: webdav.password });
+    alert('Настройки WebDAV сохранены');
+  };
+
+  const handlePickLocalFolder = async () => {
+    try {
+      setLocalFolderName(await LocalFolderBackend.pickFolder());
+      setLocalFolderAccess(true);
+    } catch (e) {
+      console.error(e); // User cancelled the picker
+    }
+  };
+
+  // After a reload the browser asks again; background sync cannot, so it waits for this click
+  const handleGrantLocalFolder = async () => {
+    try {
+      setLocalFolderAccess(await LocalFolderBackend.requestPermission());
+    } catch (e) {
+      console.error(e);
+    }
+  };
+
   const saveSchedule = () => {
       onUpdateSettings({ workSchedule: scheduleConfig });
       alert('Расписание сохранено');
@@ -165,15 +327,14 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
           title: newEvent.title,
           date: new Date(newEvent.date).getTime(),
           type: newEvent.type as any,
-          isRecurringYearly: newEvent.recurring
+          isRecurringYearly: newEvent.recurring,
+          updatedAt: Date.now()
       };
-      await StorageService.addGlobalEvent(event);
       appStore.addGlobalEvent(event);
       setNewEvent({ title: '', date: '', type: 'holiday', recurring: false });
   };
 
   const handleDeleteGlobalEvent = async (id: string) => {
-      await StorageService.deleteGlobalEvent(id);
       appStore.deleteGlobalEvent(id);
   };
 
@@ -263,6 +424,41 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                 </div>
               </div>
             </section>
+
+            {/* Default reminders */}
+            <section className="card p-6">
+              <h3 className="text-lg font-semibold mb-1 text-text-main">Напоминания по умолчанию</h3>
+              <p className="text-sm text-text-muted mb-4">Новые задачи получают эти напоминания в зависимости от типа; в задаче их можно изменить.</p>
+              <div className="space-y-4">
+                {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(type => {
+                  const offsets = settings.reminderDefaults?.[type] || [];
+                  const setOffsets = (next: ReminderOffset[]) => onUpdateSettings({ reminderDefaults: { ...settings.reminderDefaults, [type]: next } });
+                  return (
+                    <div key={type} className="space-y-2">
+                      <label className="text-sm font-medium text-text-main">{EVENT_TYPE_LABELS[type]}</label>
+                      {offsets.map((offset, i) => (
+                        <div key={i} className="flex flex-wrap items-center gap-2">
+                          <ReminderOffsetFields value={offset} onChange={value => setOffsets(offsets.map((o, j) => (j === i ? value : o)))} />
+                          <button
+                            onClick={() => setOffsets(offsets.filter((_, j) => j !== i))}
+                            className="text-text-muted hover:text-error text-lg leading-none"
+                            title="Удалить напоминание"
+                          >
+                            &times;
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => setOffsets([...offsets, { anchor: 'startTime', minutesBefore: 15 }])}
+                        className="block text-xs text-primary hover:underline"
+                      >
+                        + Напоминание
+                      </button>
+                    </div>
+                  );
+                })}
+              </div>
+            </section>
           </div>
         )}
 
@@ -364,7 +560,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                     
                     {/* List */}
                     <div className="space-y-2 mb-6 max-h-60 overflow-y-auto">
-                        {appState.globalEvents.map(event => (
+                        {globalEvents.map(event => (
                             <div key={event.id} className="flex justify-between items-center p-3 bg-bg-panel rounded-lg">
                                 <div>
                                     <span className="font-medium mr-2">{event.title}</span>
@@ -375,7 +571,7 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                                 <button onClick={() => handleDeleteGlobalEvent(event.id)} className="text-error hover:underline text-sm">Удалить</button>
                             </div>
                         ))}
-                        {appState.globalEvents.length === 0 && <p className="text-text-muted text-sm">Список пуст.</p>}
+                        {globalEvents.length === 0 && <p className="text-text-muted text-sm">Список пуст.</p>}
                     </div>
 
                     {/* Add Form */}
@@ -419,8 +615,8 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                   <label className="block text-sm font-medium text-text-main mb-2">OpenRouter API Key</label>
                   <input 
                     type="password"
-                    value={settings.openRouterApiKey || ''}
-                    onChange={(e) => onUpdateSettings({ openRouterApiKey: e.target.value })}
+                    value={secrets.openRouterApiKey || ''}
+                    onChange={(e) => onUpdateSecrets({ openRouterApiKey: e.target.value })}
                     className="input-field font-mono text-sm"
                     placeholder="sk-or-..."
                   />
@@ -475,11 +671,11 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
 
         {activeTab === 'sync' && (
           <div className="space-y-6 animate-in fade-in">
-            {/* Google Drive Controls */}
+            {/* Sync Storage Controls */}
             <section className="card p-6 border-l-4 border-blue-500">
                <div className="flex justify-between items-start mb-4">
                    <div>
-                       <h3 className="text-lg font-semibold mb-1">Google Drive Синхронизация</h3>
+                       <h3 className="text-lg font-semibold mb-1">Синхронизация</h3>
                        <p className="text-sm text-text-muted">
                          Автоматическая синхронизация при входе и выходе.
                          {lastSynced && ` Посл. синхронизация: ${new Date(lastSynced).toLocaleTimeString()}`}
@@ -487,26 +683,115 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                    </div>
                    {cloudStatus && <span className="text-xs bg-primary/10 text-primary px-2 py-1 rounded animate-pulse">{cloudStatus}</span>}
                </div>
+
+               <div className="mb-4">
+                   <label className="block text-sm font-medium text-text-muted mb-2">Хранилище</label>
+                   <select
+                     value={settings.syncProvider || ''}
+                     onChange={e => onUpdateSettings({ syncProvider: (e.target.value || undefined) as SyncProviderId | undefined })}
+                     className="input-field"
+                   >
+                       <option value="">По аккаунту входа</option>
+                       {SYNC_PROVIDERS.map(p => (
+                           <option key={p.id} value={p.id}>{p.label}</option>
+                       ))}
+                   </select>
+               </div>
+
+               {settings.syncProvider === 'webdav' && (
+                   <div className="space-y-3 mb-4 bg-bg-panel p-4 rounded-lg">
+                       <input
+                         type="url"
+                         value={webdav.url}
+                         onChange={e => setWebdav({ ...webdav, url: e.target.value })}
+                         className="input-field font-mono text-sm"
+                         placeholder="https://cloud.example.com/remote.php/dav/files/user/TaskAssist/"
+                       />
+                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                           <input
+                             type="text"
+                             value={webdav.username}
+                             onChange={e => setWebdav({ ...webdav, username: e.target.value })}
+                             className="input-field text-sm"
+                             placeholder="Логин"
+                           />
+                           <input
+                             type="password"
+                             value={webdav.password}
+                             onChange={e => setWebdav({ ...webdav, password: e.target.value })}
+                             className="input-field text-sm"
+                             placeholder="Пароль приложения"
+                           />
+                       </div>
+                       <div className="flex justify-end">
+                           <button onClick={saveWebdavSettings} className="btn-secondary text-sm">Сохранить WebDAV</button>
+                       </div>
+                   </div>
+               )}
+
+               {settings.syncProvider === 'local_folder' && (
+                   <div className="flex items-center justify-between mb-4 bg-bg-panel p-4 rounded-lg">
+                       <span className="text-sm text-text-main">
+                         {LocalFolderBackend.isSupported()
+                           ? (localFolderName ? `📁 ${localFolderName}${localFolderAccess ? '' : ' — нужен доступ'}` : 'Папка не выбрана')
+                           : 'Браузер не поддерживает File System Access API'}
+                       </span>
+                       {LocalFolderBackend.isSupported() && (
+                           <div className="flex gap-2">
+                               {localFolderName && !localFolderAccess && (
+                                   <button onClick={handleGrantLocalFolder} className="btn-primary text-sm">Разрешить доступ</button>
+                               )}
+                               <button onClick={handlePickLocalFolder} className="btn-secondary text-sm">Выбрать папку</button>
+                           </div>
+                       )}
+                   </div>
+               )}
                
                <div className="flex gap-3 flex-wrap">
                    <button 
                      onClick={handleManualCloudSave} 
-                     disabled={isCloudLoading || !user}
+                     disabled={isCloudLoading || !isSyncConfigured}
                      className="btn-primary gap-2"
                    >
                      ☁️ Выгрузить в облако (Save)
                    </button>
                    <button 
                      onClick={handleManualCloudLoad} 
-                     disabled={isCloudLoading || !user}
+                     disabled={isCloudLoading || !isSyncConfigured}
                      className="btn-secondary gap-2"
                    >
                      📥 Загрузить из облака (Load)
                    </button>
                </div>
-               {!user && <p className="text-xs text-error mt-2">Войдите через Google для использования.</p>}
+               {!isSyncConfigured && <p className="text-xs text-error mt-2">Войдите через Google/Яндекс или выберите и настройте хранилище.</p>}
             </section>
 
+            {(syncConflicts?.length || 0) > 0 && (
+              <section className="card p-6 border-l-4 border-l-orange-500">
+                <h3 className="text-lg font-semibold mb-2">Конфликты синхронизации</h3>
+                <p className="text-xs text-text-muted mb-3">Поле изменено и на этом устройстве, и в облаке. Выберите, какую версию оставить.</p>
+                <div className="space-y-3">
+                  {syncConflicts!.map(conflict => (
+                    <div key={conflict.id} className="bg-bg-panel p-3 rounded-lg">
+                      <p className="text-sm font-medium text-text-main">
+                        {conflict.entityTitle} <span className="text-xs text-text-muted font-mono">· {conflict.field}</span>
+                      </p>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-2 mt-2 text-xs">
+                        <button onClick={() => onResolveConflict?.(conflict.id, 'local')} className="btn-secondary text-left justify-start">
+                          <span className="font-bold mr-1">Локально:</span>
+                          <span className="truncate font-mono">{JSON.stringify(conflict.localValue ?? null)}</span>
+                        </button>
+                        <button onClick={() => onResolveConflict?.(conflict.id, 'cloud')} className="btn-secondary text-left justify-start">
+                          <span className="font-bold mr-1">Облако:</span>
+                          <span className="truncate font-mono">{JSON.stringify(conflict.cloudValue ?? null)}</span>
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </section>
+            )}
+
             <section className="card p-6 border-l-4 border-l-purple-500">
                <h3 className="text-lg font-semibold mb-2">Шифрование (E2EE)</h3>
                <p className="text-xs text-text-muted mb-3">Если задан пароль, данные шифруются перед отправкой в облако.</p>
@@ -537,6 +822,92 @@ export const SettingsView: React.FC<SettingsViewProps> = ({
                  </div>
               </div>
             </section>
+
+            <section className="card p-6">
+              <h3 className="text-lg font-semibold mb-2">Хранилище секретов</h3>
+              <p className="text-xs text-text-muted mb-3">
+                Ключи API, токены и пароли хранятся только на этом устройстве и не попадают в синхронизацию, экспорт и бэкапы.
+              </p>
+              {secretsLocked ? (
+                <div className="flex gap-2">
+                  <input 
+                    type="password" 
+                    value={vaultPassphrase}
+                    onChange={e => setVaultPassphrase(e.target.value)}
+                    className="input-field" 
+                    placeholder="Парольная фраза"
+                  />
+                  <button onClick={handleUnlockVault} className="btn-primary">Разблокировать</button>
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <div className="flex gap-2">
+                    <input 
+                      type="password" 
+                      value={vaultPassphrase}
+                      onChange={e => setVaultPassphrase(e.target.value)}
+                      className="input-field" 
+                      placeholder={isVaultWrapped ? 'Новая парольная фраза' : 'Парольная фраза'}
+                    />
+                    <button onClick={() => handleSetVaultPassphrase(vaultPassphrase)} disabled={!vaultPassphrase} className="btn-secondary">
+                      Защитить
+                    </button>
+                  </div>
+                  {isVaultWrapped && (
+                    <button onClick={() => handleSetVaultPassphrase(null)} className="text-xs text-error hover:underline">
+                      Снять защиту паролем
+                    </button>
+                  )}
+                </div>
+              )}
+            </section>
+
+            <section className="card p-6 border-l-4 border-l-purple-500">
+              <h3 className="text-lg font-semibold mb-2">Блокировка приложения</h3>
+              <p className="text-xs text-text-muted mb-3">
+                Задачи, заметки, память ассистента и бэкапы шифруются в IndexedDB. Для входа нужна парольная фраза или ключ доступа.
+              </p>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between gap-2">
+                  <label className="text-sm text-text-main">Блокировать после бездействия</label>
+                  <select
+                    value={lockIdleMinutes}
+                    onChange={e => handleLockIdleChange(Number(e.target.value))}
+                    className="input-field w-auto"
+                  >
+                    <option value={1}>1 мин</option>
+                    <option value={5}>5 мин</option>
+                    <option value={15}>15 мин</option>
+                    <option value={60}>1 час</option>
+                    <option value={0}>Только при запуске</option>
+                  </select>
+                </div>
+                <input 
+                  type="password" 
+                  value={lockPassphrase}
+                  onChange={e => setLockPassphrase(e.target.value)}
+                  className="input-field" 
+                  placeholder="Парольная фраза"
+                />
+                {!lockConfig?.enabled ? (
+                  <button onClick={handleEnableAppLock} disabled={!lockPassphrase || isLockBusy} className="btn-primary w-full justify-center">
+                    {isLockBusy ? 'Шифрование...' : 'Включить блокировку'}
+                  </button>
+                ) : (
+                  <div className="flex flex-wrap gap-2">
+                    <button onClick={onLockApp} className="btn-primary">Заблокировать сейчас</button>
+                    {AppLockService.isWebAuthnAvailable() && !lockConfig.webauthn && (
+                      <button onClick={handleRegisterPasskey} disabled={!lockPassphrase || isLockBusy} className="btn-secondary">
+                        Добавить ключ доступа
+                      </button>
+                    )}
+                    <button onClick={handleDisableAppLock} disabled={isLockBusy} className="btn-secondary text-error">
+                      Отключить
+                    </button>
+                  </div>
+                )}
+              </div>
+            </section>
           </div>
         )}
 
@@ -1,9 +1,13 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { Task } from '../types';
+import { useTaskQuery } from '../lib/useTaskQuery';
+import { selectTasksByCompletion, EMPTY_TASKS } from '../lib/selectors';
+import { useStoreSelector } from '../lib/useStore';
+
+const PAGE_SIZE = 50;
 
 interface TaskListProps {
-  tasks: Task[];
   onAdd: (title: string) => Promise<void>;
   onToggle: (id: string, completed: boolean) => Promise<void>;
   onDelete: (id: string) => Promise<void>;
@@ -158,11 +162,27 @@ const SwipeableTaskItem: React.FC<SwipeableTaskItemProps> = ({
   );
 };
 
-export const TaskList: React.FC<TaskListProps> = ({ tasks, onAdd, onToggle, onDelete, onEdit }) => {
+export const TaskList: React.FC<TaskListProps> = ({ onAdd, onToggle, onDelete, onEdit }) => {
+  const activeTasks = useStoreSelector(s => selectTasksByCompletion(s).get('active') || EMPTY_TASKS);
+  const completedTasks = useStoreSelector(s => selectTasksByCompletion(s).get('completed') || EMPTY_TASKS);
   const [newTaskTitle, setNewTaskTitle] = useState('');
   
-  const activeTasks = tasks.filter(t => !t.completed);
-  const completedTasks = tasks.filter(t => t.completed);
+  // Counts come from the store, the items themselves are read lazily (newest first); each list is
+  // re-read only when its own tasks change
+  const activeCount = activeTasks.length;
+  const completedCount = completedTasks.length;
+  const active = useTaskQuery({ completed: false }, PAGE_SIZE, activeTasks);
+  const completed = useTaskQuery({ completed: true }, PAGE_SIZE, completedTasks);
+
+  const renderMore = (query: typeof active) => query.hasMore && (
+    <button
+      onClick={query.loadMore}
+      disabled={query.isLoading}
+      className="w-full py-2 text-sm text-text-muted hover:text-primary transition-colors"
+    >
+      {query.isLoading ? 'Загрузка...' : 'Показать ещё'}
+    </button>
+  );
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -194,17 +214,17 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onAdd, onToggle, onDe
       <div className="flex-1 overflow-y-auto pr-1 pb-20 lg:pb-0 space-y-6 no-scrollbar">
         <div>
           <h3 className="text-sm font-semibold text-text-muted uppercase tracking-wider mb-4 px-1">
-            В работе ({activeTasks.length})
+            В работе ({activeCount})
           </h3>
           
-          {activeTasks.length === 0 && (
+          {activeCount === 0 && (
             <div className="p-8 text-center border-2 border-dashed border-border rounded-card text-text-disabled">
               Задачи выполнены 🎉
             </div>
           )}
           
           <div>
-            {activeTasks.map(task => (
+            {active.tasks.map(task => (
               <SwipeableTaskItem 
                 key={task.id} 
                 task={task} 
@@ -213,16 +233,17 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onAdd, onToggle, onDe
                 onEdit={onEdit}
               />
             ))}
+            {renderMore(active)}
           </div>
         </div>
 
-        {completedTasks.length > 0 && (
+        {completedCount > 0 && (
           <div>
             <h3 className="text-sm font-semibold text-text-muted uppercase tracking-wider mb-4 mt-8 px-1">
-              Завершено ({completedTasks.length})
+              Завершено ({completedCount})
             </h3>
             <div className="space-y-3 opacity-75">
-              {completedTasks.map(task => (
+              {completed.tasks.map(task => (
                 <SwipeableTaskItem 
                   key={task.id} 
                   task={task} 
@@ -231,6 +252,7 @@ export const TaskList: React.FC<TaskListProps> = ({ tasks, onAdd, onToggle, onDe
                   onEdit={onEdit}
                 />
               ))}
+              {renderMore(completed)}
             </div>
           </div>
         )}
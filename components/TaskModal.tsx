@@ -1,17 +1,23 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Task, TaskStatus, RecurrenceConfig, BoardColumn, Board } from '../types';
+import { Task, TaskStatus, BoardColumn, Board, EventType, TaskReminder } from '../types';
 import { AiService } from '../services/aiService';
 import { ExportService } from '../services/exportService';
 import { SmartTextarea } from './SmartTextarea';
 import { appStore } from '../lib/store'; 
 import { GoogleCalendarService } from '../services/googleCalendarService';
 import { AuthService } from '../services/authService';
+import { TaskAutomationHistory } from './AutomationLog';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { ReminderEditor, EVENT_TYPE_LABELS } from './ReminderEditor';
+import { ReminderService } from '../services/reminderService';
+import { SeriesService, SeriesEditScope } from '../services/seriesService';
 
 interface TaskModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (task: Partial<Task>) => Promise<void>;
+  onSave: (task: Partial<Task>, scope?: SeriesEditScope) => Promise<void>; // scope: for occurrences of a recurring series
+  onSkipOccurrence?: (task: Task) => void;
   initialStatus?: TaskStatus;
   taskToEdit?: Task | null;
   initialDate?: number;
@@ -28,30 +34,21 @@ interface TaskFormData {
   assignee: string;
   eventType: string;
   color: string;
-  recurrenceFreq: 'none' | 'daily' | 'weekly' | 'monthly';
-  recurrenceDays: number[]; // 0-6 (0=Sun, 1=Mon... as per Date.getDay())
+  recurrence: string; // RRULE value, empty for no recurrence
   startTime: string; // HH:mm
   startDate: string; // YYYY-MM-DD
+  reminders: TaskReminder[];
   estimatedDuration: number;
   dependencies: string[];
   syncToGCal: boolean;
   boardId: string;
 }
 
-const WEEK_DAYS = [
-    { label: 'Пн', val: 1 },
-    { label: 'Вт', val: 2 },
-    { label: 'Ср', val: 3 },
-    { label: 'Чт', val: 4 },
-    { label: 'Пт', val: 5 },
-    { label: 'Сб', val: 6 },
-    { label: 'Вс', val: 0 },
-];
-
 export const TaskModal: React.FC<TaskModalProps> = ({ 
   isOpen, 
   onClose, 
   onSave, 
+  onSkipOccurrence,
   initialStatus = 'backlog',
   taskToEdit,
   initialDate,
@@ -67,10 +64,10 @@ export const TaskModal: React.FC<TaskModalProps> = ({
     assignee: '',
     eventType: 'task',
     color: '#3182CE',
-    recurrenceFreq: 'none',
-    recurrenceDays: [],
+    recurrence: '',
     startTime: '',
     startDate: '',
+    reminders: [],
     estimatedDuration: 0,
     dependencies: [],
     syncToGCal: false,
@@ -80,6 +77,12 @@ export const TaskModal: React.FC<TaskModalProps> = ({
   const [aiError, setAiError] = useState<string | null>(null);
   const [availableTasks, setAvailableTasks] = useState<Task[]>([]);
   const [boards, setBoards] = useState<Board[]>([]);
+  // Master of the series the edited task belongs to
+  const [seriesMaster, setSeriesMaster] = useState<Task | null>(null);
+  // Payload waiting for the choice of occurrences it applies to
+  const [pendingSave, setPendingSave] = useState<Partial<Task> | null>(null);
+  // New tasks follow the default reminders of their event type until the reminders are edited
+  const [remindersEdited, setRemindersEdited] = useState(false);
   
   const contentRef = useRef<HTMLDivElement>(null);
   
@@ -92,6 +95,10 @@ export const TaskModal: React.FC<TaskModalProps> = ({
       const state = appStore.getState();
       setAvailableTasks(state.tasks.filter(t => !taskToEdit || t.id !== taskToEdit.id));
       setBoards(state.boards);
+      const master = taskToEdit ? SeriesService.masterOf(taskToEdit, state.tasks) : null;
+      setSeriesMaster(master);
+      setPendingSave(null);
+      setRemindersEdited(false);
 
       if (!taskToEdit) {
          const dateObj = initialDate ? new Date(initialDate) : new Date();
@@ -105,24 +112,13 @@ export const TaskModal: React.FC<TaskModalProps> = ({
            dependencies: [],
            startDate: dateObj.toISOString().split('T')[0],
            startTime: dateObj.getHours().toString().padStart(2,'0') + ':' + dateObj.getMinutes().toString().padStart(2,'0'),
-           recurrenceFreq: 'none',
-           recurrenceDays: [],
+           recurrence: '',
+           eventType: 'task',
+           reminders: ReminderService.defaultsFor('task', state.settings),
            syncToGCal: false,
            boardId: defaultBoardId
          }));
       } else {
-         // Parse existing recurrence
-         let rFreq: any = 'none';
-         let rDays: number[] = [];
-         if (taskToEdit.recurrence) {
-            if (typeof taskToEdit.recurrence === 'string') {
-                rFreq = taskToEdit.recurrence;
-            } else {
-                rFreq = taskToEdit.recurrence.frequency;
-                rDays = taskToEdit.recurrence.daysOfWeek || [];
-            }
-         }
-
          const start = taskToEdit.startTime ? new Date(taskToEdit.startTime) : (taskToEdit.deadline ? new Date(taskToEdit.deadline) : new Date());
 
          setFormData({
@@ -132,10 +128,10 @@ export const TaskModal: React.FC<TaskModalProps> = ({
              tags: taskToEdit.tags.join(', '),
              assignee: taskToEdit.assignee || '',
              color: taskToEdit.color || '#3182CE',
-             recurrenceFreq: rFreq,
-             recurrenceDays: rDays,
+             recurrence: master?.recurrence || '',
              startDate: start.toISOString().split('T')[0],
              startTime: taskToEdit.startTime ? new Date(taskToEdit.startTime).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : '',
+             reminders: taskToEdit.reminders || [],
              eventType: taskToEdit.eventType || 'task',
              estimatedDuration: taskToEdit.estimatedDuration || 0,
              dependencies: taskToEdit.dependencies || [],
@@ -149,20 +145,24 @@ export const TaskModal: React.FC<TaskModalProps> = ({
 
   if (!isOpen) return null;
 
+  // DTSTART of the series: kept while the rule is unchanged, otherwise the date in the form
+  const formStart = formData.startDate ? new Date(`${formData.startDate}T${formData.startTime || '00:00'}`).getTime() : Date.now();
+  const ruleChanged = (formData.recurrence || undefined) !== seriesMaster?.recurrence;
+  const recurrenceAnchor = seriesMaster && !ruleChanged ? SeriesService.dtstart(seriesMaster) : formStart;
+
+  const handleEventType = (eventType: EventType) => {
+    const followDefaults = !taskToEdit && !remindersEdited;
+    setFormData(prev => ({
+      ...prev,
+      eventType,
+      reminders: followDefaults ? ReminderService.defaultsFor(eventType, appStore.getState().settings) : prev.reminders
+    }));
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     const tagsArray = formData.tags.split(',').map((t: string) => t.trim()).filter((t: string) => t !== '');
     
-    // Construct recurrence config
-    let recurrence: RecurrenceConfig | undefined;
-    if (formData.recurrenceFreq !== 'none') {
-        recurrence = {
-            frequency: formData.recurrenceFreq,
-            interval: 1,
-            daysOfWeek: formData.recurrenceFreq === 'weekly' ? formData.recurrenceDays : undefined
-        };
-    }
-
     // Construct Start Time
     let startTimestamp: number | undefined;
     if (formData.startDate) {
@@ -189,13 +189,22 @@ export const TaskModal: React.FC<TaskModalProps> = ({
         tags: tagsArray,
         color: formData.color,
         eventType: formData.eventType as any,
-        recurrence: recurrence,
+        recurrence: formData.recurrence || undefined,
         estimatedDuration: Number(formData.estimatedDuration),
         dependencies: formData.dependencies,
         startTime: startTimestamp,
+        reminders: formData.reminders,
         boardId: formData.boardId
     };
 
+    if (seriesMaster) {
+        setPendingSave(taskPayload);
+        return;
+    }
+    await save(taskPayload);
+  };
+
+  const save = async (taskPayload: Partial<Task>, scope?: SeriesEditScope) => {
     // Handle GCal Sync
     if (formData.syncToGCal && !taskToEdit?.gCalEventId) {
         const token = AuthService.getToken();
@@ -210,16 +219,14 @@ export const TaskModal: React.FC<TaskModalProps> = ({
         }
     }
 
-    await onSave(taskPayload);
+    await onSave(taskPayload, scope);
     onClose();
   };
 
-  const toggleDay = (day: number) => {
-    setFormData(prev => {
-        const current = prev.recurrenceDays;
-        if (current.includes(day)) return { ...prev, recurrenceDays: current.filter(d => d !== day) };
-        return { ...prev, recurrenceDays: [...current, day] };
-    });
+  const handleSkip = () => {
+    if (!taskToEdit || !onSkipOccurrence) return;
+    onSkipOccurrence(taskToEdit);
+    onClose();
   };
 
   const handleAiImprove = async () => {
@@ -331,54 +338,43 @@ export const TaskModal: React.FC<TaskModalProps> = ({
               </div>
           </div>
 
-          {/* Recurrence & Duration */}
           <div className="space-y-3 bg-bg-panel p-3 rounded-lg border border-border">
-             <div className="grid grid-cols-2 gap-4">
-                 <div className="space-y-1">
-                   <label className="text-xs font-medium text-text-muted">Повтор</label>
-                   <select
-                     value={formData.recurrenceFreq}
-                     onChange={e => setFormData({...formData, recurrenceFreq: e.target.value as any})}
-                     className="input-field text-sm"
-                   >
-                     <option value="none">Не повторять</option>
-                     <option value="daily">Ежедневно</option>
-                     <option value="weekly">Еженедельно</option>
-                     <option value="monthly">Ежемесячно</option>
-                   </select>
-                 </div>
-                 <div className="space-y-1">
-                    <label className="text-xs font-medium text-text-muted">Оценка (мин)</label>
-                    <input
-                      type="number"
-                      value={formData.estimatedDuration}
-                      onChange={e => setFormData({...formData, estimatedDuration: Number(e.target.value)})}
-                      className="input-field text-sm"
-                      placeholder="60"
-                    />
-                 </div>
+             <div className="space-y-1">
+                <label className="text-xs font-medium text-text-muted">Тип</label>
+                <select
+                  value={formData.eventType}
+                  onChange={e => handleEventType(e.target.value as EventType)}
+                  className="input-field text-sm"
+                >
+                  {(Object.keys(EVENT_TYPE_LABELS) as EventType[]).map(t => <option key={t} value={t}>{EVENT_TYPE_LABELS[t]}</option>)}
+                </select>
              </div>
+             <ReminderEditor
+               reminders={formData.reminders}
+               onChange={reminders => {
+                 setRemindersEdited(true);
+                 setFormData(prev => ({ ...prev, reminders }));
+               }}
+             />
+          </div>
 
-             {formData.recurrenceFreq === 'weekly' && (
-                 <div className="space-y-1 pt-1">
-                    <label className="text-xs font-medium text-text-muted block mb-1">Дни недели</label>
-                    <div className="flex justify-between gap-1">
-                        {WEEK_DAYS.map(({ label, val }) => (
-                            <button
-                                key={val}
-                                type="button"
-                                onClick={() => toggleDay(val)}
-                                className={`
-                                    w-8 h-8 rounded-full text-xs font-medium transition
-                                    ${formData.recurrenceDays.includes(val) ? 'bg-primary text-white' : 'bg-bg-surface border border-border hover:bg-bg-main'}
-                                `}
-                            >
-                                {label}
-                            </button>
-                        ))}
-                    </div>
-                 </div>
-             )}
+          {/* Recurrence & Duration */}
+          <div className="space-y-3 bg-bg-panel p-3 rounded-lg border border-border">
+             <RecurrenceEditor
+               value={formData.recurrence}
+               start={recurrenceAnchor}
+               onChange={recurrence => setFormData(prev => ({ ...prev, recurrence }))}
+             />
+             <div className="space-y-1">
+                <label className="text-xs font-medium text-text-muted">Оценка (мин)</label>
+                <input
+                  type="number"
+                  value={formData.estimatedDuration}
+                  onChange={e => setFormData({...formData, estimatedDuration: Number(e.target.value)})}
+                  className="input-field text-sm"
+                  placeholder="60"
+                />
+             </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4">
@@ -461,10 +457,35 @@ export const TaskModal: React.FC<TaskModalProps> = ({
             />
           </div>
 
-          <div className="pt-4 flex justify-end gap-3 border-t border-border mt-2">
-            <button type="button" onClick={onClose} className="btn-secondary">Отмена</button>
-            <button type="submit" className="btn-primary">Сохранить</button>
-          </div>
+          {taskToEdit && <TaskAutomationHistory taskId={taskToEdit.id} />}
+
+          {pendingSave ? (
+            <div className="pt-4 space-y-3 border-t border-border mt-2">
+              <p className="text-sm text-text-main">Это повторяющаяся задача. Применить изменения к:</p>
+              <div className="flex flex-wrap justify-end gap-2">
+                <button type="button" onClick={() => setPendingSave(null)} className="btn-secondary">Назад</button>
+                <button
+                  type="button"
+                  onClick={() => save(pendingSave, 'this')}
+                  disabled={ruleChanged}
+                  title={ruleChanged ? 'Правило повтора меняется для всей серии' : undefined}
+                  className="btn-secondary disabled:opacity-50"
+                >
+                  Только этой
+                </button>
+                <button type="button" onClick={() => save(pendingSave, 'following')} className="btn-secondary">Этой и следующим</button>
+                <button type="button" onClick={() => save(pendingSave, 'all')} className="btn-primary">Всем</button>
+              </div>
+            </div>
+          ) : (
+            <div className="pt-4 flex justify-end gap-3 border-t border-border mt-2">
+              {seriesMaster && onSkipOccurrence && (
+                <button type="button" onClick={handleSkip} className="btn-secondary mr-auto" title="Убрать только это повторение">Пропустить</button>
+              )}
+              <button type="button" onClick={onClose} className="btn-secondary">Отмена</button>
+              <button type="submit" className="btn-primary">Сохранить</button>
+            </div>
+          )}
         </form>
       </div>
     </div>
@@ -0,0 +1,51 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { HistoryEntry } from '../types';
+import { appStore } from '../lib/store';
+import { HistoryService } from '../services/historyService';
+
+const TOAST_DURATION_MS = 5000;
+
+interface ToastState {
+  kind: 'record' | 'undo' | 'redo';
+  entry: HistoryEntry;
+}
+
+// Shows the last recorded/undone action with a button to revert it
+export const UndoToast: React.FC = () => {
+  const [toast, setToast] = useState<ToastState | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    const unsub = appStore.subscribeHistory((_stacks, event) => {
+      if (event.kind === 'reset' || !event.entry) {
+        setToast(null);
+        return;
+      }
+      setToast({ kind: event.kind, entry: event.entry });
+      if (timerRef.current) clearTimeout(timerRef.current);
+      timerRef.current = window.setTimeout(() => setToast(null), TOAST_DURATION_MS);
+    });
+    return () => {
+      unsub();
+      if (timerRef.current) clearTimeout(timerRef.current);
+    };
+  }, []);
+
+  if (!toast) return null;
+
+  const undone = toast.kind === 'undo';
+
+  return (
+    <div className="fixed bottom-20 lg:bottom-6 left-1/2 -translate-x-1/2 z-[90] animate-in slide-in-from-bottom-4">
+      <div className="flex items-center gap-4 bg-gray-900 text-white text-sm pl-4 pr-2 py-2 rounded-xl shadow-2xl max-w-[90vw]">
+        <span className="truncate">{undone ? `Отменено: ${toast.entry.label}` : toast.entry.label}</span>
+        <button
+          onClick={() => (undone ? HistoryService.redo() : HistoryService.undo())}
+          className="flex-shrink-0 px-3 py-1 rounded-lg font-medium text-primary hover:bg-white/10 transition-colors"
+        >
+          {undone ? 'Повторить' : 'Отменить'}
+        </button>
+      </div>
+    </div>
+  );
+};
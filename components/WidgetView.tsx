@@ -1,14 +1,15 @@
 
 import React from 'react';
-import { AppState, Task } from '../types';
+import { Task } from '../types';
+import { useStoreSelector } from '../lib/useStore';
 
 interface WidgetViewProps {
-  appState: AppState;
   onToggleTask: (id: string, completed: boolean) => void;
 }
 
-export const WidgetView: React.FC<WidgetViewProps> = ({ appState, onToggleTask }) => {
-  const tasks = appState.tasks
+export const WidgetView: React.FC<WidgetViewProps> = ({ onToggleTask }) => {
+  const allTasks = useStoreSelector(s => s.tasks);
+  const tasks = allTasks
     .filter(t => !t.completed)
     .sort((a, b) => {
       // Sort by urgency
@@ -0,0 +1,98 @@
+
+import { AppState, Task, Note, Board } from '../types';
+
+// Arrays compare by element identity, plain objects by own enumerable values
+export const shallowEqual = (a: any, b: any): boolean => {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || !a || !b) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const keysA = Object.keys(a);
+  if (keysA.length !== Object.keys(b).length) return false;
+  return keysA.every(key => Object.prototype.hasOwnProperty.call(b, key) && Object.is(a[key], b[key]));
+};
+
+/**
+ * Derived selector memoized on the identity of its input slice. `combine` also gets its previous
+ * result, so it can hand back unchanged parts and keep them referentially stable.
+ */
+export const createSelector = <I, R>(input: (state: AppState) => I, combine: (value: I, prev: R | undefined) => R) => {
+  let lastInput: I;
+  let lastResult: R | undefined;
+  let computed = false;
+
+  return (state: AppState): R => {
+    const value = input(state);
+    if (!computed || value !== lastInput) {
+      lastResult = combine(value, lastResult);
+      lastInput = value;
+      computed = true;
+    }
+    return lastResult as R;
+  };
+};
+
+const indexById = <T extends { id: string }>(items: T[]): Map<string, T> => new Map(items.map(item => [item.id, item]));
+
+// Groups keep their array from the previous run when they hold the same entities in the same order
+const groupBy = <T>(items: T[], keyOf: (item: T) => string | null, prev?: Map<string, T[]>): Map<string, T[]> => {
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    const key = keyOf(item);
+    if (key === null) return;
+    const group = groups.get(key);
+    if (group) group.push(item);
+    else groups.set(key, [item]);
+  });
+
+  if (prev) {
+    groups.forEach((group, key) => {
+      const old = prev.get(key);
+      if (old && shallowEqual(old, group)) groups.set(key, old);
+    });
+  }
+  return groups;
+};
+
+// Local calendar day, e.g. "2024-0-31" (month is zero-based)
+export const dayKey = (date: number | Date): string => {
+  const d = new Date(date);
+  return `${d.getFullYear()}-${d.getMonth()}-${d.getDate()}`;
+};
+
+export const columnKey = (boardId: string, status: string): string => `${boardId}:${status}`;
+
+export const EMPTY_TASKS: Task[] = [];
+
+// --- Normalized entity maps ---
+
+export const selectTasksById = createSelector((s: AppState) => s.tasks, (tasks): Map<string, Task> => indexById(tasks));
+export const selectNotesById = createSelector((s: AppState) => s.notes, (notes): Map<string, Note> => indexById(notes));
+export const selectBoardsById = createSelector((s: AppState) => s.boards, (boards): Map<string, Board> => indexById(boards));
+
+// --- Grouped tasks ---
+
+export const selectTasksByBoard = createSelector(
+  (s: AppState) => s.tasks,
+  (tasks, prev: Map<string, Task[]> | undefined) => groupBy(tasks, t => t.boardId || null, prev)
+);
+
+export const selectTasksByColumn = createSelector(
+  (s: AppState) => s.tasks,
+  (tasks, prev: Map<string, Task[]> | undefined) => groupBy(tasks, t => (t.boardId ? columnKey(t.boardId, t.status) : null), prev)
+);
+
+// Lists of TaskList: 'active' and 'completed'
+export const selectTasksByCompletion = createSelector(
+  (s: AppState) => s.tasks,
+  (tasks, prev: Map<string, Task[]> | undefined) => groupBy(tasks, t => (t.completed ? 'completed' : 'active'), prev)
+);
+
+// Tasks shown on a calendar day: by start time, falling back to the deadline
+export const selectTasksByDay = createSelector(
+  (s: AppState) => s.tasks,
+  (tasks, prev: Map<string, Task[]> | undefined) => groupBy(tasks, t => {
+    const date = t.startTime || t.deadline;
+    return date ? dayKey(date) : null;
+  }, prev)
+);
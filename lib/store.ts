@@ -1,7 +1,47 @@
 
-import { AppState, Task, Note, Goal, AutomationRule, ProjectTemplate, CopilotMemory, User, AppSettings, BoardColumn, Board, GlobalEvent } from '../types';
+import { AppState, Task, Note, Goal, AutomationRule, ProjectTemplate, CopilotMemory, User, AppSettings, BoardColumn, Board, GlobalEvent, Tombstone, TombstoneEntityType, HistoryChange, HistoryEntry, HistoryStacks } from '../types';
 
-type Listener = (state: AppState) => void;
+// Where an update came from: 'local' = user/app action, 'load' = read back from IndexedDB or
+// applied from sync. Only local updates are recorded in the operation log.
+export interface UpdateMeta {
+  source: 'local' | 'load';
+  skipHistory?: boolean; // Local but not undoable (imports, undo/redo itself)
+  persisted?: boolean; // Already written to IndexedDB, PersistenceService skips it
+}
+
+type Listener = (state: AppState, prev: AppState, meta: UpdateMeta) => void;
+
+export interface HistoryEvent {
+  kind: 'record' | 'undo' | 'redo' | 'reset';
+  entry?: HistoryEntry;
+}
+type HistoryListener = (stacks: HistoryStacks, event: HistoryEvent) => void;
+
+// Collections covered by undo/redo (same set as the operation log)
+const HISTORY_COLLECTIONS: TombstoneEntityType[] = ['tasks', 'notes', 'boards', 'goals', 'automations', 'globalEvents'];
+export const HISTORY_LIMIT = 50;
+
+const ENTITY_NAMES: Record<TombstoneEntityType, string> = {
+  tasks: 'задачи',
+  notes: 'заметки',
+  boards: 'доски',
+  goals: 'цели',
+  automations: 'правила',
+  globalEvents: 'события'
+};
+
+// Human readable summary of a history entry, shown in the undo toast
+export const describeChanges = (changes: HistoryChange[]): string => {
+  if (changes.length !== 1) return `Групповое изменение (${changes.length})`;
+  const { entityType, before, after } = changes[0];
+  const entity = after || before;
+  const title = entity?.title || entity?.name || entity?.text;
+  const subject = `${ENTITY_NAMES[entityType]}${title ? ` «${title}»` : ''}`;
+  if (!before) return `Создание ${subject}`;
+  if (!after) return `Удаление ${subject}`;
+  if (entityType === 'tasks' && before.status !== after.status) return `Перемещение ${subject}`;
+  return `Изменение ${subject}`;
+};
 
 // Default columns for new boards
 export const DEFAULT_COLUMNS: BoardColumn[] = [
@@ -14,7 +54,8 @@ export const DEFAULT_COLUMNS: BoardColumn[] = [
 const DEFAULT_BOARD: Board = {
   id: 'default-board',
   title: 'Главная',
-  columns: DEFAULT_COLUMNS
+  columns: DEFAULT_COLUMNS,
+  updatedAt: 0
 };
 
 const INITIAL_STATE: AppState = {
@@ -30,24 +71,39 @@ const INITIAL_STATE: AppState = {
   user: null,
   settings: { theme: 'dark', workSchedule: { type: 'standard', workDays: [1,2,3,4,5] } },
   isLoading: true,
+  syncConflicts: [],
+  tombstones: [],
+  secrets: {},
 };
 
 class Store {
   private state: AppState = INITIAL_STATE;
   private listeners: Set<Listener> = new Set();
 
+  // --- Undo/Redo history ---
+  private history: HistoryStacks = { undo: [], redo: [] };
+  private historyListeners: Set<HistoryListener> = new Set();
+  // Entry that still absorbs changes: until the end of the current task, or of a batch()
+  private openEntry: HistoryEntry | null = null;
+  private batchDepth = 0;
+
   getState(): AppState {
     return this.state;
   }
 
-  setState(partial: Partial<AppState> | ((prev: AppState) => Partial<AppState>)) {
-    const update = typeof partial === 'function' ? partial(this.state) : partial;
+  setState(partial: Partial<AppState> | ((prev: AppState) => Partial<AppState>), meta: UpdateMeta = { source: 'local' }) {
+    const prev = this.state;
+    const update = typeof partial === 'function' ? partial(prev) : partial;
     
     // Shallow merge
-    this.state = { ...this.state, ...update };
+    this.state = { ...prev, ...update };
+
+    if (meta.source === 'local' && !meta.skipHistory && !prev.isLoading) {
+      this.recordHistory(prev, this.state);
+    }
     
     // Notify listeners
-    this.listeners.forEach(listener => listener(this.state));
+    this.listeners.forEach(listener => listener(this.state, prev, meta));
   }
 
   subscribe(listener: Listener): () => void {
@@ -55,6 +111,164 @@ class Store {
     return () => this.listeners.delete(listener);
   }
 
+  // --- History ---
+
+  getHistory(): HistoryStacks {
+    return this.history;
+  }
+
+  subscribeHistory(listener: HistoryListener): () => void {
+    this.historyListeners.add(listener);
+    return () => this.historyListeners.delete(listener);
+  }
+
+  // Replaces both stacks, e.g. with the copy persisted in IndexedDB
+  setHistory(stacks: HistoryStacks) {
+    this.openEntry = null;
+    this.history = { undo: stacks.undo.slice(-HISTORY_LIMIT), redo: stacks.redo.slice(-HISTORY_LIMIT) };
+    this.emitHistory({ kind: 'reset' });
+  }
+
+  clearHistory() {
+    this.setHistory({ undo: [], redo: [] });
+  }
+
+  /**
+   * Groups every change made while `fn` runs (including after its awaits) into one undo step.
+   * Changes made in the same task are grouped anyway; use this for multi-step async operations.
+   */
+  async batch<T>(label: string, fn: () => Promise<T> | T): Promise<T> {
+    if (this.batchDepth === 0) this.openEntry = null;
+    this.batchDepth++;
+    try {
+      return await fn();
+    } finally {
+      this.batchDepth--;
+      if (this.batchDepth === 0 && this.openEntry) {
+        this.openEntry.label = label;
+        this.emitHistory({ kind: 'record', entry: this.openEntry });
+        this.openEntry = null;
+      }
+    }
+  }
+
+  // Reverts the last entry; returns it so the caller can persist the restored entities
+  undo(): HistoryEntry | null {
+    const entry = this.history.undo[this.history.undo.length - 1];
+    if (!entry) return null;
+    this.openEntry = null;
+    this.applyHistory(entry.changes.map(c => ({ ...c, value: c.before })));
+    this.history = { undo: this.history.undo.slice(0, -1), redo: [...this.history.redo, entry] };
+    this.emitHistory({ kind: 'undo', entry });
+    return entry;
+  }
+
+  redo(): HistoryEntry | null {
+    const entry = this.history.redo[this.history.redo.length - 1];
+    if (!entry) return null;
+    this.openEntry = null;
+    this.applyHistory(entry.changes.map(c => ({ ...c, value: c.after })));
+    this.history = { undo: [...this.history.undo, entry], redo: this.history.redo.slice(0, -1) };
+    this.emitHistory({ kind: 'redo', entry });
+    return entry;
+  }
+
+  private emitHistory(event: HistoryEvent) {
+    this.historyListeners.forEach(listener => listener(this.history, event));
+  }
+
+  private recordHistory(prev: AppState, next: AppState) {
+    const changes = this.diffEntities(prev, next);
+    if (changes.length === 0) return;
+
+    let entry = this.openEntry;
+    if (!entry) {
+      entry = { id: crypto.randomUUID(), label: '', ts: Date.now(), changes: [] };
+      this.openEntry = entry;
+      this.history = { undo: [...this.history.undo, entry].slice(-HISTORY_LIMIT), redo: [] };
+      if (this.batchDepth === 0) {
+        setTimeout(() => { if (this.openEntry === entry) this.openEntry = null; }, 0);
+      }
+    }
+
+    // An entity changed twice within one entry keeps its first `before`
+    changes.forEach(change => {
+      const existing = entry!.changes.find(c => c.entityType === change.entityType && c.entityId === change.entityId);
+      if (existing) existing.after = change.after;
+      else entry!.changes.push(change);
+    });
+    entry.changes = entry.changes.filter(c => JSON.stringify(c.before) !== JSON.stringify(c.after));
+    if (entry.changes.length === 0) {
+      this.history = { ...this.history, undo: this.history.undo.filter(e => e !== entry) };
+      this.openEntry = null;
+      return;
+    }
+    entry.label = describeChanges(entry.changes);
+    if (this.batchDepth === 0) this.emitHistory({ kind: 'record', entry });
+  }
+
+  // Unchanged entities keep their identity, so only replaced objects are compared
+  private diffEntities(prev: AppState, next: AppState): HistoryChange[] {
+    const changes: HistoryChange[] = [];
+    HISTORY_COLLECTIONS.forEach(entityType => {
+      const before = (prev[entityType] || []) as any[];
+      const after = (next[entityType] || []) as any[];
+      if (before === after) return;
+
+      const beforeMap = new Map(before.map(e => [e.id, e]));
+      const afterIds = new Set<string>();
+      after.forEach(entity => {
+        afterIds.add(entity.id);
+        const old = beforeMap.get(entity.id);
+        if (old !== entity) changes.push({ entityType, entityId: entity.id, before: old, after: entity });
+      });
+      before.forEach(entity => {
+        if (!afterIds.has(entity.id)) changes.push({ entityType, entityId: entity.id, before: entity, after: undefined });
+      });
+    });
+    return changes;
+  }
+
+  // Puts entity snapshots back. Restored entities get a fresh updatedAt so that sync treats
+  // them as edits made after any deletion, and lose their tombstones.
+  private applyHistory(targets: { entityType: TombstoneEntityType, entityId: string, value?: any }[]) {
+    const now = Date.now();
+    this.setState(prev => {
+      const update: Partial<AppState> = {};
+      const restored = new Set<string>();
+      const removed: Record<string, string[]> = {};
+
+      HISTORY_COLLECTIONS.forEach(entityType => {
+        const own = targets.filter(t => t.entityType === entityType);
+        if (own.length === 0) return;
+        const items = new Map(((prev[entityType] || []) as any[]).map(e => [e.id, e]));
+        own.forEach(t => {
+          if (t.value) {
+            items.set(t.entityId, { ...t.value, updatedAt: now });
+            restored.add(`${entityType}:${t.entityId}`);
+          } else if (items.delete(t.entityId)) {
+            (removed[entityType] = removed[entityType] || []).push(t.entityId);
+          }
+        });
+        (update as any)[entityType] = Array.from(items.values());
+      });
+
+      let tombstones = (prev.tombstones || []).filter(t => !restored.has(t.id));
+      Object.entries(removed).forEach(([entityType, ids]) => {
+        tombstones = this.withTombstones({ ...prev, tombstones }, entityType as TombstoneEntityType, ids);
+      });
+      return { ...update, tombstones };
+    }, { source: 'local', skipHistory: true });
+  }
+
+  // Returns the tombstone list with deletion records for the given ids (replacing older ones)
+  private withTombstones(prev: AppState, entityType: TombstoneEntityType, ids: string[]): Tombstone[] {
+    const now = Date.now();
+    const fresh = ids.map(id => ({ id: `${entityType}:${id}`, entityType, entityId: id, deletedAt: now }));
+    const freshIds = new Set(fresh.map(t => t.id));
+    return [...(prev.tombstones || []).filter(t => !freshIds.has(t.id)), ...fresh];
+  }
+
   // --- Actions ---
 
   setLoading(isLoading: boolean) {
@@ -77,9 +291,69 @@ class Store {
     }));
   }
 
+  // Saves and deletes several tasks in one step, e.g. an edit of a recurring series
+  saveTasks(upserts: Task[], deletes: string[] = []) {
+    this.setState(prev => {
+      const updated = new Map(upserts.map(t => [t.id, t]));
+      const removed = new Set(deletes);
+      const existing = new Set(prev.tasks.map(t => t.id));
+      const tasks = prev.tasks
+        .filter(t => !removed.has(t.id))
+        .map(t => updated.get(t.id) || t)
+        .concat(upserts.filter(t => !existing.has(t.id) && !removed.has(t.id)));
+      const deleted = deletes.filter(id => existing.has(id));
+      return { tasks, tombstones: deleted.length > 0 ? this.withTombstones(prev, 'tasks', deleted) : prev.tombstones };
+    });
+  }
+
   deleteTask(id: string) {
     this.setState(prev => ({
-      tasks: prev.tasks.filter(t => t.id !== id)
+      tasks: prev.tasks.filter(t => t.id !== id),
+      tombstones: this.withTombstones(prev, 'tasks', [id])
+    }));
+  }
+
+  addNote(note: Note) {
+    this.setState(prev => ({
+      notes: [note, ...prev.notes]
+    }));
+  }
+
+  updateNote(note: Note) {
+    this.setState(prev => ({
+      notes: prev.notes.map(n => n.id === note.id ? note : n)
+    }));
+  }
+
+  deleteNote(id: string) {
+    this.setState(prev => ({
+      notes: prev.notes.filter(n => n.id !== id),
+      tombstones: this.withTombstones(prev, 'notes', [id])
+    }));
+  }
+
+  // Replace the whole list, recording tombstones for items that disappeared
+  setGoals(goals: Goal[]) {
+    this.setState(prev => ({
+      goals,
+      tombstones: this.withTombstones(prev, 'goals', prev.goals.filter(g => !goals.some(n => n.id === g.id)).map(g => g.id))
+    }));
+  }
+
+  updateAutomation(rule: AutomationRule) {
+    this.setState(prev => ({
+      automations: prev.automations.map(r => r.id === rule.id ? rule : r)
+    }));
+  }
+
+  setTemplates(templates: ProjectTemplate[]) {
+    this.setState({ templates });
+  }
+
+  setAutomations(automations: AutomationRule[]) {
+    this.setState(prev => ({
+      automations,
+      tombstones: this.withTombstones(prev, 'automations', prev.automations.filter(r => !automations.some(n => n.id === r.id)).map(r => r.id))
     }));
   }
   
@@ -87,11 +361,24 @@ class Store {
     this.setState({ activeBoardId: id });
   }
 
+  addBoard(board: Board) {
+    this.setState(prev => ({
+      boards: [...prev.boards, board]
+    }));
+  }
+
   updateBoard(board: Board) {
     this.setState(prev => ({
       boards: prev.boards.map(b => b.id === board.id ? board : b)
     }));
   }
+
+  deleteBoard(id: string) {
+    this.setState(prev => ({
+      boards: prev.boards.filter(b => b.id !== id),
+      tombstones: this.withTombstones(prev, 'boards', [id])
+    }));
+  }
   
   addGlobalEvent(event: GlobalEvent) {
     this.setState(prev => ({
@@ -101,7 +388,8 @@ class Store {
   
   deleteGlobalEvent(id: string) {
     this.setState(prev => ({
-        globalEvents: prev.globalEvents.filter(e => e.id !== id)
+        globalEvents: prev.globalEvents.filter(e => e.id !== id),
+        tombstones: this.withTombstones(prev, 'globalEvents', [id])
     }));
   }
 }
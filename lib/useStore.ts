@@ -0,0 +1,29 @@
+
+import { useRef, useSyncExternalStore } from 'react';
+import { AppState } from '../types';
+import { appStore } from './store';
+
+type Selector<T> = (state: AppState) => T;
+
+const subscribe = (onChange: () => void) => appStore.subscribe(() => onChange());
+
+/**
+ * Subscribes a component to one slice of the store. It re-renders only when `equality` says the
+ * selected value changed; otherwise the previous value (and reference) is kept.
+ */
+export const useStoreSelector = <T>(selector: Selector<T>, equality: (a: T, b: T) => boolean = Object.is): T => {
+  const cache = useRef<{ state: AppState; selector: Selector<T>; value: T } | null>(null);
+
+  const getSnapshot = (): T => {
+    const state = appStore.getState();
+    const last = cache.current;
+    if (last && last.state === state && last.selector === selector) return last.value;
+
+    const selected = selector(state);
+    const value = last && equality(last.value, selected) ? last.value : selected;
+    cache.current = { state, selector, value };
+    return value;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
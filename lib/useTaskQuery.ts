@@ -0,0 +1,59 @@
+
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Task, TaskQuery } from '../types';
+import { StorageService } from '../services/storageService';
+import { PersistenceService } from '../services/persistenceService';
+
+/**
+ * Lazily pages through StorageService.queryTasks. `revision` is any value that changes when
+ * tasks were written (e.g. the store's task array): once the store writes reach IndexedDB, the
+ * pages already shown are re-read from the start, so the list keeps its length.
+ */
+export const useTaskQuery = (query: Omit<TaskQuery, 'limit' | 'cursor'>, pageSize: number = 50, revision?: unknown) => {
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [cursor, setCursor] = useState<string | undefined>(undefined);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadedCount = useRef(0);
+  const requestId = useRef(0);
+  const queryKey = JSON.stringify(query);
+
+  // A different query starts over from the first page
+  useEffect(() => { loadedCount.current = 0; }, [queryKey]);
+
+  useEffect(() => {
+    const id = ++requestId.current;
+    setIsLoading(true);
+    PersistenceService.flush()
+      .then(() => StorageService.queryTasks({ ...query, limit: Math.max(pageSize, loadedCount.current) }))
+      .then(page => {
+        if (id !== requestId.current) return;
+        loadedCount.current = page.tasks.length;
+        setTasks(page.tasks);
+        setCursor(page.cursor);
+      })
+      .catch(e => console.error("Task query failed", e))
+      .finally(() => { if (id === requestId.current) setIsLoading(false); });
+  }, [queryKey, pageSize, revision]);
+
+  const loadMore = useCallback(async () => {
+    if (!cursor || isLoading) return;
+    const id = ++requestId.current;
+    setIsLoading(true);
+    try {
+      const page = await StorageService.queryTasks({ ...query, limit: pageSize, cursor });
+      if (id !== requestId.current) return;
+      setTasks(prev => {
+        loadedCount.current = prev.length + page.tasks.length;
+        return [...prev, ...page.tasks];
+      });
+      setCursor(page.cursor);
+    } catch (e) {
+      console.error("Task query failed", e);
+    } finally {
+      if (id === requestId.current) setIsLoading(false);
+    }
+  }, [queryKey, pageSize, cursor, isLoading]);
+
+  return { tasks, hasMore: !!cursor, isLoading, loadMore };
+};
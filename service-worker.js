@@ -67,8 +67,82 @@ self.addEventListener('activate', (event) => {
   );
 });
 
+// --- Webhook delivery queue (see services/webhookService.ts, keep the policy in step) ---
+const DB_NAME = 'TaskAssistDB';
+const WEBHOOK_STORE = 'webhook_deliveries';
+const WEBHOOK_LOCK = 'task_assist_webhooks';
+const WEBHOOK_MAX_ATTEMPTS = 10;
+const WEBHOOK_RETRY_BASE_DELAY_MS = 30 * 1000;
+const WEBHOOK_RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const idbRequest = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Opens the app database at its current version; never creates or upgrades it
+const openAppDatabase = () => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME);
+  request.onupgradeneeded = () => request.transaction.abort();
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const attemptWebhook = async (delivery, now) => {
+  const attempts = delivery.attempts + 1;
+  let status;
+  let error;
+  try {
+    const response = await fetch(delivery.url, { method: 'POST', headers: delivery.headers, body: delivery.body });
+    status = response.status;
+  } catch (e) {
+    error = e.message || String(e);
+  }
+  const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+  const state = status !== undefined && status < 400 ? 'delivered'
+    : retryable && attempts < WEBHOOK_MAX_ATTEMPTS ? 'pending'
+    : 'failed';
+  const delay = Math.min(WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), WEBHOOK_RETRY_MAX_DELAY_MS);
+  return { ...delivery, attempts, status, error, state, nextAttemptAt: state === 'pending' ? now + delay : delivery.nextAttemptAt };
+};
+
+// Sends due deliveries, and those that failed for lack of a network regardless of their backoff:
+// the sync event means the connection is back. Records sealed by the app lock wait for the unlocked app.
+// Returns false when a delivery failed for lack of a network again, so the sync is retried.
+const drainWebhooks = async () => {
+  const db = await openAppDatabase().catch(() => null);
+  if (!db) return true;
+  try {
+    if (!db.objectStoreNames.contains(WEBHOOK_STORE)) return true;
+    const now = Date.now();
+    const deliveries = await idbRequest(db.transaction(WEBHOOK_STORE).objectStore(WEBHOOK_STORE).getAll());
+    let online = true;
+    for (const delivery of deliveries) {
+      if (typeof delivery.sealed === 'string' || delivery.state !== 'pending') continue;
+      if (delivery.nextAttemptAt > now && delivery.status !== undefined) continue;
+      const updated = await attemptWebhook(delivery, now);
+      await idbRequest(db.transaction(WEBHOOK_STORE, 'readwrite').objectStore(WEBHOOK_STORE).put(updated));
+      if (updated.state === 'pending' && updated.status === undefined) online = false;
+    }
+    return online;
+  } finally {
+    db.close();
+  }
+};
+
+const deliverWebhooks = async () => {
+  const delivered = self.navigator.locks
+    ? await self.navigator.locks.request(WEBHOOK_LOCK, drainWebhooks)
+    : await drainWebhooks();
+  // A rejected sync event is retried by the browser later
+  if (!delivered) throw new Error('Webhook delivery postponed: offline');
+};
+
 // Background Sync
 self.addEventListener('sync', (event) => {
+  if (event.tag === 'webhook-delivery') {
+    event.waitUntil(deliverWebhooks());
+  }
   if (event.tag === 'sync-tasks') {
     event.waitUntil(
       // In a real app, this would iterate over IDB 'outbox' table and send requests
@@ -80,6 +154,201 @@ self.addEventListener('sync', (event) => {
   }
 });
 
+// Periodic Background Sync: time-based automation rules run in the app (SchedulerService),
+// so the worker wakes its clients. The event only fires while the app is installed.
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'automation-scheduler') {
+    event.waitUntil(
+      self.clients.matchAll({ includeUncontrolled: true }).then(clients => {
+        clients.forEach(client => client.postMessage({ type: 'RUN_SCHEDULER' }));
+      })
+    );
+  }
+});
+
+// --- Task reminders (see services/reminderService.ts, keep the policy in step) ---
+const TASK_STORE = 'tasks';
+const OPLOG_STORE = 'oplog';
+const SYNC_STATE_STORE = 'sync_state';
+const TASK_WRITE_STORES = [TASK_STORE, OPLOG_STORE, SYNC_STATE_STORE];
+const REMINDER_TAG_PREFIX = 'reminder:';
+
+// Same as ReminderService.timeOf
+const reminderTimeOf = (task, reminder) => {
+  if (reminder.snoozedUntil !== undefined) return reminder.snoozedUntil;
+  if (!reminder.offset) return reminder.time;
+  const anchor = task[reminder.offset.anchor];
+  return anchor === undefined ? undefined : anchor - reminder.offset.minutesBefore * 60 * 1000;
+};
+
+const windowClients = () => self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+
+const transactionDone = (tx) => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// Writes the patched task with its op log entry in a transaction over TASK_WRITE_STORES,
+// so sync picks the change up like one made in the app (see OpLogService)
+const putTaskPatch = async (tx, task, patch, now) => {
+  const device = await idbRequest(tx.objectStore(SYNC_STATE_STORE).get('device_id'));
+  tx.objectStore(TASK_STORE).put({ ...task, ...patch });
+  if (device) {
+    tx.objectStore(OPLOG_STORE).add({ deviceId: device.value, ts: now, entityType: 'tasks', entityId: task.id, kind: 'patch', value: patch });
+  }
+};
+
+// Without an open tab: shows due reminders of unsealed tasks, one notification each, and marks them
+// fired in IndexedDB. Occurrences of recurring series that are not stored yet wait for the app.
+const showDueReminders = async () => {
+  const db = await openAppDatabase().catch(() => null);
+  if (!db) return;
+  try {
+    if (!TASK_WRITE_STORES.every(name => db.objectStoreNames.contains(name))) return;
+    const now = Date.now();
+    const tasks = await idbRequest(db.transaction(TASK_STORE).objectStore(TASK_STORE).getAll());
+    for (const task of tasks) {
+      if (typeof task.sealed === 'string' || task.completed || !task.reminders) continue;
+      const due = task.reminders.filter(r => {
+        const time = reminderTimeOf(task, r);
+        return !r.fired && time !== undefined && time <= now;
+      });
+      if (due.length === 0) continue;
+      const reminders = task.reminders.map(r => (due.includes(r) ? { ...r, fired: true } : r));
+      const tx = db.transaction(TASK_WRITE_STORES, 'readwrite');
+      const done = transactionDone(tx);
+      await putTaskPatch(tx, task, { reminders, updatedAt: now }, now);
+      await done;
+      for (const reminder of due) {
+        await self.registration.showNotification(task.title, {
+          body: 'Напоминание',
+          tag: `${REMINDER_TAG_PREFIX}${task.id}:${reminder.id}`,
+          requireInteraction: true,
+          actions: REMINDER_ACTIONS.slice(0, self.Notification?.maxActions ?? REMINDER_ACTIONS.length),
+          data: { taskId: task.id, reminderId: reminder.id, url: './' }
+        });
+      }
+    }
+  } finally {
+    db.close();
+  }
+};
+
+// --- Task notification actions (see services/notificationActionService.ts, keep them in step) ---
+const BOARD_STORE = 'boards';
+const TASK_SNOOZE_MS = 15 * 60 * 1000;
+const TASK_SNOOZE_TOMORROW_HOUR = 9;
+// Most important first: browsers show only Notification.maxActions of them (2 on Chrome and Android)
+const REMINDER_ACTIONS = [
+  { action: 'complete', title: 'Выполнить' },
+  { action: 'snooze', title: 'Отложить на 15 мин' },
+  { action: 'open', title: 'Открыть' },
+  { action: 'snooze-1h', title: '+1 час' },
+  { action: 'snooze-tomorrow', title: 'Завтра' },
+];
+
+// Same as NotificationActionService.snoozeUntil
+const snoozeUntil = (action, now) => {
+  if (action === 'snooze-1h') return now + 60 * 60 * 1000;
+  if (action !== 'snooze-tomorrow') return now + TASK_SNOOZE_MS;
+  const tomorrow = new Date(now);
+  tomorrow.setDate(tomorrow.getDate() + 1);
+  tomorrow.setHours(TASK_SNOOZE_TOMORROW_HOUR, 0, 0, 0);
+  return tomorrow.getTime();
+};
+
+// Same as doneStatusOf in services/notificationActionService.ts
+const doneStatusOf = (task, board) => {
+  if (!board || board.columns.length === 0) return task.status;
+  if (board.columns.some(c => c.id === 'done')) return 'done';
+  return [...board.columns].sort((a, b) => a.order - b.order)[board.columns.length - 1].id;
+};
+
+// Same as NotificationActionService.applyToTask, returning the changed fields only
+const taskActionPatch = (task, board, action, reminderId, now) => {
+  if (action === 'complete') {
+    return task.completed ? null : { status: doneStatusOf(task, board), completed: true, updatedAt: now };
+  }
+  if (!action.startsWith('snooze')) return null;
+
+  const until = snoozeUntil(action, now);
+  const reminders = task.reminders || [];
+  const snoozed = reminderId && reminders.some(r => r.id === reminderId)
+    ? reminders.map(r => (r.id === reminderId ? { ...r, snoozedUntil: until, fired: false } : r))
+    : [...reminders, { id: self.crypto.randomUUID(), time: until }];
+  return { reminders: snoozed, updatedAt: now };
+};
+
+// Applies the action to the stored task, reading and writing it in one transaction.
+// False when the task is out of reach.
+const applyStoredTaskAction = async (action, taskId, reminderId, now) => {
+  const db = await openAppDatabase().catch(() => null);
+  if (!db) return false;
+  try {
+    const storeNames = [...TASK_WRITE_STORES, BOARD_STORE];
+    if (!storeNames.every(name => db.objectStoreNames.contains(name))) return false;
+    const tx = db.transaction(storeNames, 'readwrite');
+    const done = transactionDone(tx);
+    const task = await idbRequest(tx.objectStore(TASK_STORE).get(taskId));
+    if (!task || typeof task.sealed === 'string') return false;
+    // The board decides the status of a completed task
+    const board = task.boardId ? await idbRequest(tx.objectStore(BOARD_STORE).get(task.boardId)) : undefined;
+    if (board && typeof board.sealed === 'string') return false;
+
+    const patch = taskActionPatch(task, board, action, reminderId, now);
+    if (patch) await putTaskPatch(tx, task, patch, now);
+    await done;
+    if (patch) {
+      (await windowClients()).forEach(client => client.postMessage({ type: 'TASKS_CHANGED', taskIds: [taskId] }));
+    }
+    return true;
+  } finally {
+    db.close();
+  }
+};
+
+// Sealed tasks and series occurrences that are not stored yet are handed to the app
+const handleTaskAction = async (action, taskId, reminderId) => {
+  const now = Date.now();
+  const applied = await applyStoredTaskAction(action, taskId, reminderId, now).catch(() => false);
+  if (applied) return;
+
+  const clientList = await windowClients();
+  if (clientList.length > 0) {
+    clientList[0].postMessage({ type: 'NOTIFICATION_ACTION', action, taskId, reminderId, at: now });
+    return;
+  }
+  if (self.clients.openWindow) {
+    const reminder = reminderId ? `&reminder=${encodeURIComponent(reminderId)}` : '';
+    await self.clients.openWindow(`./?notification_action=${action}&task=${encodeURIComponent(taskId)}${reminder}&at=${now}`);
+  }
+};
+
+const openTask = async (taskId) => {
+  const clientList = await windowClients();
+  const client = clientList.find(c => 'focus' in c);
+  if (client) {
+    await client.focus();
+    client.postMessage({ type: 'OPEN_TASK', taskId });
+    return;
+  }
+  if (self.clients.openWindow) {
+    await self.clients.openWindow(`./?task=${encodeURIComponent(taskId)}`);
+  }
+};
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'task-reminders') {
+    event.waitUntil(
+      windowClients().then(clientList => {
+        if (clientList.length === 0) return showDueReminders();
+        clientList.forEach(client => client.postMessage({ type: 'RUN_REMINDERS' }));
+      })
+    );
+  }
+});
+
 // Push Notification Handler (FCM Integration point)
 self.addEventListener('push', (event) => {
   let title = 'TaskAssist';
@@ -109,6 +378,14 @@ self.addEventListener('push', (event) => {
 // Notification Click Handler
 self.addEventListener('notificationclick', (event) => {
   event.notification.close();
+
+  // Task notifications: a click on the body opens the task like the Open action
+  const { taskId, reminderId } = event.notification.data || {};
+  if (taskId) {
+    const action = event.action || 'open';
+    event.waitUntil(action === 'open' ? openTask(taskId) : handleTaskAction(action, taskId, reminderId));
+    return;
+  }
   
   const targetUrl = event.notification.data?.url || '/';
 
@@ -0,0 +1,166 @@
+
+import { AppLockConfig } from '../types';
+import { StorageService } from './storageService';
+import { CryptoService } from './cryptoService';
+
+const DEFAULT_IDLE_MINUTES = 5;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'touchstart', 'wheel'];
+
+/**
+ * Optional app lock. A random data key seals IndexedDB records (see StorageService.seal);
+ * the key itself is stored wrapped with the passphrase and, where the authenticator supports
+ * the PRF extension, with a WebAuthn credential. The unwrapped key lives in memory only.
+ */
+export class AppLockService {
+  private static idleTimer: number | null = null;
+  private static stopIdleWatch: (() => void) | null = null;
+
+  // Call right after StorageService.init(); returns true if the user has to unlock first
+  static async init(): Promise<boolean> {
+    const config = await StorageService.getAppLock();
+    StorageService.setEncryption(!!config?.enabled, null);
+    return !!config?.enabled;
+  }
+
+  static async getConfig(): Promise<AppLockConfig | null> {
+    return StorageService.getAppLock();
+  }
+
+  static isLocked(): boolean {
+    return StorageService.isLocked();
+  }
+
+  // --- Enable / Disable ---
+
+  static async enable(passphrase: string, idleMinutes: number = DEFAULT_IDLE_MINUTES): Promise<void> {
+    const key = await CryptoService.generateKey();
+    const rawKey = await CryptoService.exportKey(key);
+    const config: AppLockConfig = {
+      enabled: true,
+      passphraseKey: await CryptoService.encrypt(rawKey, passphrase),
+      idleMinutes
+    };
+
+    // Keep a non-extractable copy for this session
+    await StorageService.reseal(true, await CryptoService.importKey(rawKey));
+    await StorageService.saveAppLock(config);
+  }
+
+  // Requires the app to be unlocked
+  static async disable(): Promise<void> {
+    await StorageService.reseal(false, null);
+    await StorageService.saveAppLock(null);
+  }
+
+  static async setIdleMinutes(idleMinutes: number): Promise<void> {
+    const config = await StorageService.getAppLock();
+    if (config) await StorageService.saveAppLock({ ...config, idleMinutes });
+  }
+
+  // --- Lock / Unlock ---
+
+  static async unlockWithPassphrase(passphrase: string): Promise<void> {
+    const config = await StorageService.getAppLock();
+    if (!config) return;
+    let rawKey: string;
+    try {
+      rawKey = await CryptoService.decrypt(config.passphraseKey, passphrase);
+    } catch (e) {
+      throw new Error("Неверная парольная фраза");
+    }
+    StorageService.setEncryption(true, await CryptoService.importKey(rawKey));
+    await StorageService.resealStaleTasks();
+  }
+
+  static lock() {
+    StorageService.setEncryption(true, null);
+  }
+
+  // --- WebAuthn PRF ---
+
+  static isWebAuthnAvailable(): boolean {
+    return typeof window.PublicKeyCredential !== 'undefined' && !!navigator.credentials;
+  }
+
+  // Registers a platform credential (Touch ID, Windows Hello...) as a second way to unlock
+  static async registerWebAuthn(passphrase: string): Promise<void> {
+    const config = await StorageService.getAppLock();
+    if (!config) throw new Error("Блокировка не включена");
+    const rawKey = await CryptoService.decrypt(config.passphraseKey, passphrase);
+
+    const credential = await navigator.credentials.create({
+      publicKey: {
+        challenge: window.crypto.getRandomValues(new Uint8Array(32)),
+        rp: { name: 'TaskAssist' },
+        user: { id: window.crypto.getRandomValues(new Uint8Array(16)), name: 'taskassist', displayName: 'TaskAssist' },
+        pubKeyCredParams: [{ type: 'public-key', alg: -7 }, { type: 'public-key', alg: -257 }],
+        authenticatorSelection: { userVerification: 'required' },
+        extensions: { prf: {} } as AuthenticationExtensionsClientInputs
+      }
+    }) as PublicKeyCredential | null;
+    if (!credential) throw new Error("Регистрация отменена");
+    if (!(credential.getClientExtensionResults() as any).prf?.enabled) {
+      throw new Error("Аутентификатор не поддерживает PRF");
+    }
+
+    const salt = window.crypto.getRandomValues(new Uint8Array(32));
+    const credentialId = CryptoService.arrayBufferToBase64(new Uint8Array(credential.rawId));
+    const secret = await this.evaluatePrf(credentialId, CryptoService.arrayBufferToBase64(salt));
+
+    await StorageService.saveAppLock({
+      ...config,
+      webauthn: {
+        credentialId,
+        salt: CryptoService.arrayBufferToBase64(salt),
+        // The PRF output is already 32 random bytes, a light KDF is enough
+        wrappedKey: await CryptoService.encrypt(rawKey, secret, 1000)
+      }
+    });
+  }
+
+  static async unlockWithWebAuthn(): Promise<void> {
+    const config = await StorageService.getAppLock();
+    if (!config?.webauthn) throw new Error("Ключ доступа не настроен");
+    const secret = await this.evaluatePrf(config.webauthn.credentialId, config.webauthn.salt);
+    const rawKey = await CryptoService.decrypt(config.webauthn.wrappedKey, secret);
+    StorageService.setEncryption(true, await CryptoService.importKey(rawKey));
+    await StorageService.resealStaleTasks();
+  }
+
+  private static async evaluatePrf(credentialId: string, salt: string): Promise<string> {
+    const assertion = await navigator.credentials.get({
+      publicKey: {
+        challenge: window.crypto.getRandomValues(new Uint8Array(32)),
+        allowCredentials: [{ type: 'public-key', id: CryptoService.base64ToArrayBuffer(credentialId) }],
+        userVerification: 'required',
+        extensions: { prf: { eval: { first: CryptoService.base64ToArrayBuffer(salt) } } } as AuthenticationExtensionsClientInputs
+      }
+    }) as PublicKeyCredential | null;
+
+    const output = (assertion?.getClientExtensionResults() as any)?.prf?.results?.first;
+    if (!output) throw new Error("Аутентификатор не вернул ключ");
+    return CryptoService.arrayBufferToBase64(new Uint8Array(output));
+  }
+
+  // --- Idle Lock ---
+
+  static watchIdle(idleMinutes: number, onIdle: () => void) {
+    this.unwatchIdle();
+    if (idleMinutes <= 0) return;
+
+    const reset = () => {
+      if (this.idleTimer) clearTimeout(this.idleTimer);
+      this.idleTimer = window.setTimeout(onIdle, idleMinutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach(e => window.addEventListener(e, reset, { passive: true }));
+    this.stopIdleWatch = () => ACTIVITY_EVENTS.forEach(e => window.removeEventListener(e, reset));
+    reset();
+  }
+
+  static unwatchIdle() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.stopIdleWatch?.();
+    this.stopIdleWatch = null;
+  }
+}
@@ -0,0 +1,48 @@
+
+import { AutomationLogEntry } from '../types';
+import { StorageService } from './storageService';
+
+// Whichever limit is hit first
+export const AUTOMATION_LOG_LIMIT = 1000;
+export const AUTOMATION_LOG_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+// Pruning walks the whole index, so it runs on the first write and then every so many writes
+const PRUNE_EVERY = 50;
+
+type LogListener = (entry: AutomationLogEntry) => void;
+
+/**
+ * Execution log of automation rules: which rule ran on which task, what matched, what the actions
+ * changed and how webhooks answered. Entries are written by the tab that ran the rule.
+ */
+export class AutomationLogService {
+  private static listeners = new Set<LogListener>();
+  private static writes = 0;
+
+  static async record(entry: AutomationLogEntry): Promise<void> {
+    try {
+      if (this.writes++ % PRUNE_EVERY === 0) {
+        await StorageService.pruneAutomationLog(AUTOMATION_LOG_LIMIT, Date.now() - AUTOMATION_LOG_RETENTION_MS);
+      }
+      await StorageService.addAutomationLogEntry(entry);
+    } catch (e) {
+      console.error('[AutomationLog] Failed to record run', e);
+      return;
+    }
+    this.listeners.forEach(l => l(entry));
+  }
+
+  // Newest first
+  static async getEntries(): Promise<AutomationLogEntry[]> {
+    return (await StorageService.getAutomationLog()).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  static async getForTask(taskId: string): Promise<AutomationLogEntry[]> {
+    return (await StorageService.getAutomationLogForTask(taskId)).sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  // Entries recorded in this tab after subscribing
+  static subscribe(listener: LogListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+}
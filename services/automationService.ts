@@ -1,7 +1,51 @@
 
-import { Task, AutomationRule, AppState, RecurrenceConfig } from '../types';
-import { StorageService } from './storageService';
+import { Task, AutomationRule, LegacyAutomationRule, RuleCondition, FieldCondition, TimeCondition, ScheduleCondition, RuleAction, ActionResult, AutomationLogEntry, AutomationRunSource, FieldChange, AppState } from '../types';
 import { NotificationService } from './notificationService';
+import { AutomationLogService } from './automationLogService';
+import { WebhookService } from './webhookService';
+import { normalizeLegacyRule } from './storageMigrations';
+import { appStore } from '../lib/store';
+
+export interface RuleContext {
+  location?: { lat: number, lng: number };
+  weather?: string;
+}
+
+export interface ConditionScope {
+  task: Task;
+  previous: Task | null;
+  context?: RuleContext;
+  now: number;
+  simulate: boolean; // Static check of a task list: change operators test the current value
+}
+
+export interface EvaluationOptions {
+  // Dry run: no rule bookkeeping, log entries, notifications or webhook calls; see AutomationSimulator
+  dryRun?: boolean;
+  now?: number;
+  source?: AutomationRunSource; // 'edit' by default
+  // Pass to start at; from pass 1 on only rules watching a changed field run (the scheduler starts there)
+  depth?: number;
+  onRun?: (entry: AutomationLogEntry) => void;
+  onLoop?: (loop: RuleLoop) => void;
+}
+
+export interface RuleLoop {
+  taskId: string;
+  taskTitle: string;
+  ruleNames: string[];
+  reason: 'repeat' | 'depth'; // The task came back to an earlier state, or the chain grew too long
+}
+
+const TIME_CONDITIONS: RuleCondition['type'][] = ['inactivity', 'deadline', 'overdue', 'schedule'];
+
+// Passes of rules reacting to the changes of the previous pass, per change of a task
+export const RULE_CHAIN_MAX_DEPTH = 10;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+// A schedule slot missed while the app was closed still fires if the scheduler runs within this window
+const SCHEDULE_CATCH_UP_MS = DAY_MS;
 
 export class AutomationService {
   
@@ -27,228 +71,333 @@ export class AutomationService {
   static async evaluateRules(
     task: Task, 
     previousTaskState: Task | null, 
-    rules: AutomationRule[],
-    context?: { location?: { lat: number, lng: number }, weather?: string }
+    rules: (AutomationRule | LegacyAutomationRule)[],
+    context?: RuleContext,
+    options: EvaluationOptions = {}
   ): Promise<Task> {
-    let updatedTask = { ...task };
-    let hasChanges = false;
-    const now = Date.now();
+    return this.runChain(task, previousTaskState, rules, context, options);
+  }
 
-    for (const rule of rules) {
-      if (!rule.isActive) continue;
+  /**
+   * Runs the rules on a changed task in passes. The first pass reacts to the change itself; each next pass
+   * reacts to the changes the previous one made, running only rules whose conditions look at a changed field.
+   * Within a pass rules run by priority and see the task as it was when the pass started.
+   * A chain that brings the task back to an earlier state, or reaches RULE_CHAIN_MAX_DEPTH passes,
+   * is halted; its last run is flagged in the log.
+   */
+  static runChain(
+    task: Task,
+    previousTaskState: Task | null,
+    rules: (AutomationRule | LegacyAutomationRule)[],
+    context?: RuleContext,
+    options: EvaluationOptions = {}
+  ): Task {
+    const now = options.now ?? Date.now();
+    const start = options.depth ?? 0;
+    // Time-based rules are run by SchedulerService
+    const active = this.orderRules(rules.map(normalizeLegacyRule).filter(rule => rule.isActive && !this.isScheduled(rule)));
+    const runs: AutomationLogEntry[] = [];
+    const states = [this.stateKey(task)];
+    let previous = previousTaskState;
+    let current = task;
 
-      let triggered = false;
+    for (let depth = start; ; depth++) {
+      const changed = depth > 0 && previous ? new Set(this.diffTask(previous, current).map(c => c.field)) : null;
+      let updated = current;
 
-      // 1. Status Change
-      if (rule.trigger.type === 'status_change') {
-        if (
-          previousTaskState && 
-          previousTaskState.status !== task.status && 
-          task.status === rule.trigger.value
-        ) {
-          triggered = true;
-        }
-      }
-      
-      // 2. Tag Added
-      else if (rule.trigger.type === 'tag_added') {
-        const tag = rule.trigger.value;
-        if (previousTaskState && !previousTaskState.tags.includes(tag) && task.tags.includes(tag)) {
-          triggered = true;
-        }
+      for (const rule of active) {
+        if (changed && !this.watchedFields(rule).some(field => changed.has(field))) continue;
+        // Conditions see the task as the pass started, not the result of earlier rules
+        const scope: ConditionScope = { task: current, previous, context, now, simulate: false };
+        if (!this.matchesConditions(rule, scope)) continue;
+
+        if (!options.dryRun) appStore.updateAutomation({ ...rule, lastRun: now });
+        updated = this.applyActions(rule, updated, scope, options.source || 'edit', {
+          ...options,
+          onRun: entry => {
+            entry.depth = depth;
+            runs.push(entry);
+            options.onRun?.(entry);
+          }
+        });
       }
 
-      // 3. Location Triggers (Geofencing)
-      else if (context?.location && rule.trigger.location) {
-        const dist = this.getDistanceFromLatLonInMeters(
-          context.location.lat, context.location.lng,
-          rule.trigger.location.lat, rule.trigger.location.lng
-        );
-        
-        // ENTER Geofence
-        if (rule.trigger.type === 'location_enter' && dist <= rule.trigger.location.radius) {
-           // Prevent spam: check lastRun > 1 hour
-           if (!rule.lastRun || (now - rule.lastRun > 3600000)) triggered = true;
-        }
-        // LEAVE Geofence
-        if (rule.trigger.type === 'location_leave' && dist > rule.trigger.location.radius) {
-           if (!rule.lastRun || (now - rule.lastRun > 3600000)) triggered = true;
-        }
+      if (updated === current) return current;
+      previous = current;
+      current = updated;
+
+      const seenAt = states.indexOf(this.stateKey(current));
+      if (seenAt !== -1 || depth + 1 - start >= RULE_CHAIN_MAX_DEPTH) {
+        const from = seenAt !== -1 ? start + seenAt : start;
+        const loop: RuleLoop = {
+          taskId: current.id,
+          taskTitle: current.title,
+          ruleNames: runs.filter(r => r.depth! >= from && r.changes.length > 0).map(r => r.ruleName),
+          reason: seenAt !== -1 ? 'repeat' : 'depth'
+        };
+        // The halt is reported through the automation log: entries are written after the chain returns (see applyActions)
+        runs[runs.length - 1].loop = loop.ruleNames;
+        options.onLoop?.(loop);
+        return current;
       }
+      states.push(this.stateKey(current));
+    }
+  }
+
+  // Lower priority first; the sort is stable, so equal priorities keep the order of the list
+  static orderRules<T extends AutomationRule>(rules: T[]): T[] {
+    return [...rules].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+  }
 
-      // 4. Inactivity Trigger (Stale Tasks)
-      else if (rule.trigger.type === 'inactivity' && !task.completed) {
-         const days = rule.trigger.inactivityDays || 7;
-         const diffTime = Math.abs(now - task.updatedAt);
-         const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-         if (diffDays >= days) {
-            // Only trigger once per day max
-            if (!rule.lastRun || (now - rule.lastRun > 24 * 3600000)) triggered = true;
-         }
+  // Task fields the rule's conditions look at
+  private static watchedFields(rule: AutomationRule): string[] {
+    const fields: string[] = [];
+    const walk = (condition: RuleCondition) => {
+      if (condition.type === 'group') condition.conditions.forEach(walk);
+      else if (condition.type === 'field') fields.push(condition.field);
+    };
+    walk(rule.conditions);
+    return fields;
+  }
+
+  // State of a task without its bookkeeping, to recognise a state seen before
+  private static stateKey(task: Task): string {
+    return JSON.stringify({ ...task, updatedAt: 0 });
+  }
+
+  static matchesConditions(rule: AutomationRule, scope: ConditionScope): boolean {
+    return this.matchesCondition(rule.conditions, rule, scope);
+  }
+
+  // Rules with a time condition anywhere in the tree
+  static isScheduled(rule: AutomationRule): boolean {
+    const walk = (condition: RuleCondition): boolean =>
+      condition.type === 'group' ? condition.conditions.some(walk) : TIME_CONDITIONS.includes(condition.type);
+    return walk(rule.conditions);
+  }
+
+  // Occurrences of the time conditions that hold for the task, keyed by their path in the tree.
+  // An occurrence id changes only when the condition starts to hold anew (new deadline, new update, next slot).
+  static timeOccurrences(rule: AutomationRule, scope: ConditionScope): Record<string, string> {
+    const occurrences: Record<string, string> = {};
+    const walk = (condition: RuleCondition, path: string) => {
+      if (condition.type === 'group') {
+        condition.conditions.forEach((c, i) => walk(c, path ? `${path}.${i}` : String(i)));
+      } else if (TIME_CONDITIONS.includes(condition.type)) {
+        const occurrence = this.timeOccurrence(condition as TimeCondition, scope.task, scope.now);
+        if (occurrence !== null) occurrences[path] = occurrence;
       }
+    };
+    walk(rule.conditions, '');
+    return occurrences;
+  }
 
-      // Execute Action
-      if (triggered) {
-        console.log(`[Automation] Rule "${rule.name}" triggered for task "${task.title}"`);
-        
-        // Update Last Run
-        rule.lastRun = now;
-        await StorageService.addAutomation(rule); // Save lastRun state (simplified update)
-
-        if (rule.action.type === 'add_tag') {
-           if (!updatedTask.tags.includes(rule.action.value)) {
-             updatedTask.tags = [...updatedTask.tags, rule.action.value];
-             hasChanges = true;
-           }
-        } else if (rule.action.type === 'set_color') {
-           updatedTask.color = rule.action.value;
-           hasChanges = true;
-        } else if (rule.action.type === 'assign_user') {
-           updatedTask.assignee = rule.action.value;
-           hasChanges = true;
-        } else if (rule.action.type === 'create_notification') {
-           NotificationService.show(rule.action.value, { body: task.title });
-        } else if (rule.action.type === 'webhook') {
-           try {
-             fetch(rule.action.value, {
-               method: 'POST',
-               headers: { 'Content-Type': 'application/json' },
-               body: JSON.stringify(updatedTask)
-             }).catch(console.error);
-           } catch (e) { console.error('Webhook failed', e); }
+  // Leaf conditions that hold, for the log
+  static matchedConditions(rule: AutomationRule, scope: ConditionScope): RuleCondition[] {
+    const matched: RuleCondition[] = [];
+    const walk = (condition: RuleCondition) => {
+      if (condition.type === 'group') condition.conditions.forEach(walk);
+      else if (this.matchesCondition(condition, rule, scope)) matched.push(condition);
+    };
+    walk(rule.conditions);
+    return matched;
+  }
+
+  /**
+   * Runs the rule's actions in order on a copy of `target` (the task with earlier rules applied)
+   * and records the run in the automation log. Returns `target` itself when no field changed.
+   */
+  static applyActions(rule: AutomationRule, target: Task, scope: ConditionScope, source: AutomationRunSource, options: EvaluationOptions = {}): Task {
+    const updated = { ...target };
+    const results: ActionResult[] = [];
+    const deliveries: Promise<void>[] = [];
+
+    for (const action of rule.actions) {
+      const result: ActionResult = { type: action.type, value: action.value };
+      results.push(result);
+      try {
+        const delivery = this.applyAction(action, updated, scope.task, rule, !!options.dryRun);
+        if (delivery) {
+          deliveries.push(delivery.then(
+            id => { result.deliveryId = id; },
+            e => { result.error = e instanceof Error ? e.message : String(e); }
+          ));
         }
+      } catch (e) {
+        result.error = e instanceof Error ? e.message : String(e);
       }
     }
 
-    return hasChanges ? updatedTask : task;
+    const changes = this.diffTask(target, updated);
+    const entry: AutomationLogEntry = {
+      id: crypto.randomUUID(),
+      timestamp: scope.now,
+      source,
+      ruleId: rule.id,
+      ruleName: rule.name,
+      taskId: target.id,
+      taskTitle: target.title,
+      matched: this.matchedConditions(rule, scope),
+      actions: results,
+      changes
+    };
+    options.onRun?.(entry);
+    // Written once webhook calls are queued, so the entry links to their deliveries
+    if (!options.dryRun) Promise.all(deliveries).then(() => AutomationLogService.record(entry));
+
+    return changes.length > 0 ? updated : target;
   }
 
-  // --- Simulation for Testing ---
-  
-  static simulateRule(rule: AutomationRule, tasks: Task[]): Task[] {
-    const affectedTasks: Task[] = [];
-    const now = Date.now();
+  static diffTask(before: Task, after: Task): FieldChange[] {
+    const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+    return Array.from(fields)
+      .filter(field => JSON.stringify((before as any)[field]) !== JSON.stringify((after as any)[field]))
+      .map(field => ({ field, before: (before as any)[field], after: (after as any)[field] }));
+  }
 
-    tasks.forEach(task => {
-      let wouldTrigger = false;
+  private static matchesCondition(condition: RuleCondition, rule: AutomationRule, scope: ConditionScope): boolean {
+    const { task, context, now, simulate } = scope;
 
-      if (rule.trigger.type === 'status_change') {
-         // Cannot simulate state change purely on static list, assume match if status matches
-         if (task.status === rule.trigger.value) wouldTrigger = true;
-      }
-      else if (rule.trigger.type === 'tag_added') {
-         if (task.tags.includes(rule.trigger.value)) wouldTrigger = true;
-      }
-      else if (rule.trigger.type === 'inactivity' && !task.completed) {
-         const days = rule.trigger.inactivityDays || 7;
-         const diffTime = Math.abs(now - task.updatedAt);
-         const diffDays = Math.ceil(diffTime / (1000 * 60 * 60 * 24)); 
-         if (diffDays >= days) wouldTrigger = true;
-      }
-      
-      if (wouldTrigger) {
-        affectedTasks.push(task);
+    switch (condition.type) {
+      case 'group':
+        // An empty group never matches, so a rule without conditions does not fire on every save
+        if (condition.conditions.length === 0) return false;
+        return condition.logic === 'and'
+          ? condition.conditions.every(c => this.matchesCondition(c, rule, scope))
+          : condition.conditions.some(c => this.matchesCondition(c, rule, scope));
+
+      case 'field':
+        return this.matchesField(condition, scope);
+
+      // Geofencing, at most once per hour
+      case 'location': {
+        if (!context?.location) return false;
+        const dist = this.getDistanceFromLatLonInMeters(
+          context.location.lat, context.location.lng,
+          condition.location.lat, condition.location.lng
+        );
+        const inside = dist <= condition.location.radius;
+        if (condition.event === 'enter' ? !inside : inside) return false;
+        return simulate || !rule.lastRun || now - rule.lastRun > 3600000;
       }
-    });
 
-    return affectedTasks;
+      case 'weather':
+        return context?.weather === condition.weather;
+
+      // Repetition is prevented by the scheduler's bookkeeping, see timeOccurrences
+      case 'inactivity':
+      case 'deadline':
+      case 'overdue':
+      case 'schedule':
+        return this.timeOccurrence(condition, task, now) !== null;
+    }
   }
 
-  static async checkRecurringTasks(tasks: Task[]): Promise<Task[]> {
-    const now = Date.now();
-    const newTasks: Task[] = [];
-    const oneDay = 24 * 60 * 60 * 1000;
-
-    for (const task of tasks) {
-      if (!task.recurrence) continue;
-      if (task.status !== 'done') continue; 
-
-      // Parse Recurrence Config
-      let config: RecurrenceConfig;
-      if (typeof task.recurrence === 'string') {
-        if (task.recurrence === 'none') continue;
-        config = { frequency: task.recurrence as any, interval: 1 };
-      } else {
-        config = task.recurrence;
-        if (config.frequency === 'none') continue;
-      }
+  // Id of the current occurrence of a time condition, null while it does not hold
+  private static timeOccurrence(condition: TimeCondition, task: Task, now: number): string | null {
+    if (task.completed) return null;
 
-      const lastRun = task.lastRecurrence || task.createdAt;
-      let shouldSpawn = false;
-      let nextDate = 0;
-
-      if (config.frequency === 'daily') {
-         const threshold = oneDay * config.interval;
-         if (now - lastRun > threshold) {
-           shouldSpawn = true;
-           nextDate = now + threshold;
-         }
-      } 
-      else if (config.frequency === 'weekly') {
-         // Check week interval first
-         const weekDiff = Math.floor((now - lastRun) / (oneDay * 7));
-         if (weekDiff >= config.interval) {
-           // If daysOfWeek specified, check if today is one of them
-           if (config.daysOfWeek && config.daysOfWeek.length > 0) {
-              const todayDay = new Date().getDay(); // 0-6
-              if (config.daysOfWeek.includes(todayDay)) {
-                 // Prevent spawning multiple times on the same day
-                 const lastRunDate = new Date(lastRun).toDateString();
-                 const todayDate = new Date().toDateString();
-                 if (lastRunDate !== todayDate) {
-                    shouldSpawn = true;
-                    nextDate = now; // Due today
-                 }
-              }
-           } else {
-              // Simple weekly repetition (exactly 7 days later)
-              shouldSpawn = true;
-              nextDate = now; 
-           }
-         }
-      } 
-      else if (config.frequency === 'monthly') {
-         if (now - lastRun > oneDay * 30 * config.interval) {
-           shouldSpawn = true;
-           nextDate = now + oneDay * 30 * config.interval;
-         }
+    switch (condition.type) {
+      case 'inactivity':
+        return now - task.updatedAt >= condition.days * DAY_MS ? `idle:${task.updatedAt}` : null;
+      case 'deadline':
+        if (!task.deadline || task.deadline <= now) return null;
+        return task.deadline - now <= condition.hours * HOUR_MS ? `due:${task.deadline}` : null;
+      case 'overdue':
+        return task.deadline && task.deadline <= now ? `overdue:${task.deadline}` : null;
+      case 'schedule': {
+        const slot = this.lastScheduleSlot(condition, now);
+        return slot !== null && now - slot < SCHEDULE_CATCH_UP_MS ? `slot:${slot}` : null;
       }
+    }
+  }
 
-      if (shouldSpawn) {
-        const newTask: Task = {
-          ...task,
-          id: crypto.randomUUID(),
-          status: 'backlog',
-          completed: false,
-          createdAt: now,
-          updatedAt: now,
-          recurrence: task.recurrence, 
-          lastRecurrence: now,
-          // If task had specific start time (e.g. 19:00), keep time but change date to nextDate
-          startTime: task.startTime ? this.adjustDateKeepTime(task.startTime, nextDate) : undefined,
-          endTime: task.endTime ? this.adjustDateKeepTime(task.endTime, nextDate) : undefined,
-          deadline: task.deadline ? task.deadline + (nextDate - lastRun) : undefined,
-          // Don't copy external IDs
-          gCalEventId: undefined 
-        };
-        
-        await StorageService.updateTask(task.id, { lastRecurrence: now });
-        newTasks.push(newTask);
-      }
+  // Start of the latest slot at or before `now`
+  private static lastScheduleSlot(condition: ScheduleCondition, now: number): number | null {
+    const [hours, minutes] = condition.time.split(':').map(Number);
+    for (let daysBack = 0; daysBack <= 7; daysBack++) {
+      const slot = new Date(now);
+      slot.setDate(slot.getDate() - daysBack);
+      slot.setHours(hours || 0, minutes || 0, 0, 0);
+      if (slot.getTime() <= now && condition.days.includes(slot.getDay())) return slot.getTime();
     }
-    
-    for (const t of newTasks) {
-      await StorageService.addTask(t);
+    return null;
+  }
+
+  private static matchesField(condition: FieldCondition, { task, previous, simulate }: ConditionScope): boolean {
+    const actual = (task as any)[condition.field];
+    const expected = condition.value ?? '';
+    const has = (value: any) => Array.isArray(value)
+      ? value.map(String).includes(expected)
+      : String(value ?? '') === expected;
+
+    switch (condition.operator) {
+      case 'equals': return String(actual ?? '') === expected;
+      case 'not_equals': return String(actual ?? '') !== expected;
+      case 'contains':
+      case 'not_contains': {
+        const contains = Array.isArray(actual)
+          ? actual.map(String).includes(expected)
+          : String(actual ?? '').toLowerCase().includes(expected.toLowerCase());
+        return condition.operator === 'contains' ? contains : !contains;
+      }
+      case 'is_empty': return this.isEmptyValue(actual);
+      case 'is_not_empty': return !this.isEmptyValue(actual);
+      case 'greater_than': return actual !== undefined && Number(actual) > Number(expected);
+      case 'less_than': return actual !== undefined && Number(actual) < Number(expected);
+      // Without a previous version (new task, or a static simulation) only the simulation assumes a change
+      case 'changed':
+        if (!previous) return simulate;
+        return JSON.stringify((previous as any)[condition.field]) !== JSON.stringify(actual);
+      case 'changed_to':
+        if (!previous) return simulate && has(actual);
+        return has(actual) && !has((previous as any)[condition.field]);
     }
+  }
 
-    return newTasks;
+  private static isEmptyValue(value: any): boolean {
+    return value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0);
   }
 
-  private static adjustDateKeepTime(originalTimestamp: number, newDateTimestamp: number): number {
-    const original = new Date(originalTimestamp);
-    const newDate = new Date(newDateTimestamp);
-    newDate.setHours(original.getHours(), original.getMinutes(), 0, 0);
-    return newDate.getTime();
+  // Applies one action to `updatedTask` in place; a webhook resolves with its queued delivery.
+  // A dry run only changes fields.
+  private static applyAction(action: RuleAction, updatedTask: Task, task: Task, rule: AutomationRule, dryRun: boolean): Promise<string> | void {
+    switch (action.type) {
+      case 'add_tag':
+        if (!updatedTask.tags.includes(action.value)) updatedTask.tags = [...updatedTask.tags, action.value];
+        return;
+      case 'set_color':
+        updatedTask.color = action.value;
+        return;
+      case 'assign_user':
+        updatedTask.assignee = action.value;
+        return;
+      case 'move_to_board': {
+        const board = appStore.getState().boards.find(b => b.id === action.value);
+        if (!board) throw new Error('Доска не найдена');
+        updatedTask.boardId = board.id;
+        // Same as moving a task in TaskModal: a status the board has no column for becomes its first column
+        if (!board.columns.some(c => c.id === updatedTask.status)) updatedTask.status = board.columns[0]?.id || 'backlog';
+        return;
+      }
+      case 'create_notification':
+        if (!dryRun) NotificationService.showForTask(action.value, task, { body: task.title, tag: `automation:${rule.id}:${task.id}` });
+        return;
+      case 'webhook':
+        if (dryRun) return;
+        // Later actions must not leak into the payload
+        return WebhookService.enqueue(action, { ...updatedTask }, rule);
+    }
+  }
+
+  // --- Simulation for Testing ---
+  
+  // Tasks the rule would match as they are now; change conditions are assumed to have just happened.
+  // AutomationSimulator replays actual changes, actions included.
+  static simulateRule(rule: AutomationRule | LegacyAutomationRule, tasks: Task[]): Task[] {
+    const normalized = normalizeLegacyRule(rule);
+    const now = Date.now();
+    return tasks.filter(task => this.matchesConditions(normalized, { task, previous: null, now, simulate: true }));
   }
 
   static formatDuration(ms: number): string {
@@ -0,0 +1,121 @@
+
+import { AutomationRule, LegacyAutomationRule, AutomationLogEntry, FieldChange, HistoryEntry, Task } from '../types';
+import { AutomationService, RuleContext, RuleLoop } from './automationService';
+import { normalizeLegacyRule } from './storageMigrations';
+
+export interface SimulationEvent {
+  taskId: string;
+  changes: Partial<Task>; // Fields set by the event; a task that does not exist yet is created from them
+  context?: RuleContext;  // Location and weather at the time of the event
+  at?: number;
+  label?: string;
+}
+
+// A rule run; depth 0 reacts to the event itself, depth N to the changes made at depth N - 1
+export interface SimulationRun extends AutomationLogEntry {
+  eventIndex: number;
+  depth: number;
+}
+
+export interface SimulationLoop extends RuleLoop {
+  eventIndex: number;
+}
+
+export interface SimulationTaskDiff {
+  before: Task | null; // null for tasks created by the events
+  after: Task;
+  changes: FieldChange[]; // Against `before`, or the task as the events created it
+}
+
+export interface SimulationResult {
+  runs: SimulationRun[];
+  tasks: SimulationTaskDiff[]; // Tasks touched by rules, with the difference over the whole sequence
+  loops: SimulationLoop[];
+}
+
+/**
+ * Dry run of automation rules: replays a sequence of task changes through AutomationService.evaluateRules
+ * without saving anything, showing notifications or calling webhooks. Rule chains and halted loops
+ * come out as they would on a real save.
+ */
+export class AutomationSimulator {
+
+  static async run(
+    events: SimulationEvent[],
+    tasks: Task[],
+    rules: (AutomationRule | LegacyAutomationRule)[],
+    now: number = Date.now()
+  ): Promise<SimulationResult> {
+    const original = new Map(tasks.map(t => [t.id, t]));
+    const current = new Map(original);
+    const baseline = new Map(original);
+    const touched = new Set<string>();
+    // Local copies, so the hourly limit of location rules follows the simulated runs
+    let simulatedRules = rules.map(normalizeLegacyRule);
+    const runs: SimulationRun[] = [];
+    const loops: SimulationLoop[] = [];
+
+    for (let eventIndex = 0; eventIndex < events.length; eventIndex++) {
+      const event = events[eventIndex];
+      const at = event.at ?? now;
+      const existing = current.get(event.taskId) || null;
+      const task: Task = existing
+        ? { ...existing, ...event.changes, updatedAt: at }
+        : { title: '', status: 'backlog', tags: [], completed: false, order: 0, createdAt: at, ...event.changes, id: event.taskId, updatedAt: at };
+      if (!baseline.has(task.id)) baseline.set(task.id, task);
+
+      const fired: SimulationRun[] = [];
+      const result = await AutomationService.evaluateRules(task, existing, simulatedRules, event.context, {
+        dryRun: true,
+        now: at,
+        onRun: entry => fired.push({ ...entry, eventIndex, depth: entry.depth ?? 0 }),
+        onLoop: loop => loops.push({ eventIndex, ...loop })
+      });
+      runs.push(...fired);
+      const firedIds = new Set(fired.map(r => r.ruleId));
+      simulatedRules = simulatedRules.map(r => (firedIds.has(r.id) ? { ...r, lastRun: at } : r));
+
+      if (result !== task) touched.add(task.id);
+      current.set(task.id, result);
+    }
+
+    const diffs = Array.from(touched, id => {
+      const after = current.get(id)!;
+      return { before: original.get(id) || null, after, changes: AutomationService.diffTask(baseline.get(id)!, after) };
+    });
+    return { runs, tasks: diffs, loops };
+  }
+
+  /**
+   * Turns the undo history (oldest entry first) into events. Recorded versions already contain what
+   * the rules changed back then; the replay starts from the tasks as they were before the first entry.
+   */
+  static fromHistory(history: HistoryEntry[], tasks: Task[]): { events: SimulationEvent[], tasks: Task[] } {
+    const initial = new Map(tasks.map(t => [t.id, t]));
+    const seen = new Set<string>();
+    const events: SimulationEvent[] = [];
+
+    for (const entry of history) {
+      for (const change of entry.changes) {
+        if (change.entityType !== 'tasks') continue;
+        const before: Task | undefined = change.before;
+        const after: Task | undefined = change.after;
+
+        if (!seen.has(change.entityId)) {
+          seen.add(change.entityId);
+          if (before) initial.set(change.entityId, before);
+          else initial.delete(change.entityId);
+        }
+        // Deletions do not reach the rules
+        if (!after) continue;
+
+        const changes = before
+          ? Object.fromEntries(AutomationService.diffTask(before, after).map(c => [c.field, c.after]))
+          : after;
+        events.push({ taskId: change.entityId, changes, at: entry.ts, label: entry.label });
+      }
+    }
+
+    return { events, tasks: Array.from(initial.values()) };
+  }
+}
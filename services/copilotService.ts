@@ -6,7 +6,7 @@ import { StorageService } from './storageService';
 export class CopilotService {
 
   static async generateMorningBriefing(state: AppState): Promise<string | null> {
-    const apiKey = state.settings.openRouterApiKey;
+    const apiKey = state.secrets?.openRouterApiKey;
     if (!apiKey) return null;
 
     // Check if briefing already generated today
@@ -64,7 +64,7 @@ export class CopilotService {
   }
 
   static async analyzeWorkload(state: AppState): Promise<string> {
-    const apiKey = state.settings.openRouterApiKey;
+    const apiKey = state.secrets?.openRouterApiKey;
     if (!apiKey) return "ИИ не настроен.";
 
     // Simple distribution analysis
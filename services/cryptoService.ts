@@ -1,4 +1,22 @@
 
+// Self-describing container for encrypted data. Parameters travel with the ciphertext,
+// so they can be strengthened later without breaking existing backups.
+export interface EncryptedEnvelope {
+  format: 'taskassist-encrypted';
+  version: 1;
+  kdf: 'PBKDF2-SHA256';
+  iterations: number;
+  salt: string; // base64
+  iv: string; // base64
+  cipher: 'AES-GCM-256';
+  data: string; // base64 ciphertext
+}
+
+const ENVELOPE_FORMAT = 'taskassist-encrypted';
+const DEFAULT_ITERATIONS = 600000;
+// Raw salt+iv+ciphertext blobs written before envelopes existed
+const LEGACY_ITERATIONS = 100000;
+
 export class CryptoService {
   private static async getPasswordKey(password: string): Promise<CryptoKey> {
     const enc = new TextEncoder();
@@ -11,12 +29,12 @@ export class CryptoService {
     );
   }
 
-  private static async deriveKey(passwordKey: CryptoKey, salt: Uint8Array): Promise<CryptoKey> {
+  private static async deriveKey(passwordKey: CryptoKey, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> {
     return window.crypto.subtle.deriveKey(
       {
         name: "PBKDF2",
         salt: salt,
-        iterations: 100000,
+        iterations,
         hash: "SHA-256"
       },
       passwordKey,
@@ -26,13 +44,13 @@ export class CryptoService {
     );
   }
 
-  static async encrypt(text: string, password: string): Promise<string> {
+  static async encrypt(text: string, password: string, iterations: number = DEFAULT_ITERATIONS): Promise<string> {
     try {
       const salt = window.crypto.getRandomValues(new Uint8Array(16));
       const iv = window.crypto.getRandomValues(new Uint8Array(12));
       
       const passwordKey = await this.getPasswordKey(password);
-      const aesKey = await this.deriveKey(passwordKey, salt);
+      const aesKey = await this.deriveKey(passwordKey, salt, iterations);
       
       const enc = new TextEncoder();
       const encryptedContent = await window.crypto.subtle.encrypt(
@@ -41,29 +59,47 @@ export class CryptoService {
         enc.encode(text)
       );
 
-      // Combine salt + iv + ciphertext
-      const buffer = new Uint8Array(salt.byteLength + iv.byteLength + encryptedContent.byteLength);
-      buffer.set(salt, 0);
-      buffer.set(iv, salt.byteLength);
-      buffer.set(new Uint8Array(encryptedContent), salt.byteLength + iv.byteLength);
-
-      return this.arrayBufferToBase64(buffer);
+      const envelope: EncryptedEnvelope = {
+        format: ENVELOPE_FORMAT,
+        version: 1,
+        kdf: 'PBKDF2-SHA256',
+        iterations,
+        salt: this.arrayBufferToBase64(salt),
+        iv: this.arrayBufferToBase64(iv),
+        cipher: 'AES-GCM-256',
+        data: this.arrayBufferToBase64(new Uint8Array(encryptedContent))
+      };
+      return JSON.stringify(envelope);
     } catch (e) {
       console.error("Encryption failed", e);
       throw new Error("Encryption failed");
     }
   }
 
-  static async decrypt(encryptedBase64: string, password: string): Promise<string> {
+  // Accepts envelopes as well as legacy base64 blobs
+  static async decrypt(content: string, password: string): Promise<string> {
     try {
-      const buffer = this.base64ToArrayBuffer(encryptedBase64);
-      
-      const salt = buffer.slice(0, 16);
-      const iv = buffer.slice(16, 28);
-      const data = buffer.slice(28);
+      const envelope = this.parseEnvelope(content);
+      let salt: Uint8Array<ArrayBuffer>, iv: Uint8Array<ArrayBuffer>, data: Uint8Array<ArrayBuffer>, iterations: number;
+
+      if (envelope) {
+        if (envelope.version !== 1 || envelope.kdf !== 'PBKDF2-SHA256' || envelope.cipher !== 'AES-GCM-256') {
+          throw new Error(`Unsupported envelope: v${envelope.version} ${envelope.kdf}/${envelope.cipher}`);
+        }
+        salt = this.base64ToArrayBuffer(envelope.salt);
+        iv = this.base64ToArrayBuffer(envelope.iv);
+        data = this.base64ToArrayBuffer(envelope.data);
+        iterations = envelope.iterations;
+      } else {
+        const buffer = this.base64ToArrayBuffer(content);
+        salt = buffer.slice(0, 16);
+        iv = buffer.slice(16, 28);
+        data = buffer.slice(28);
+        iterations = LEGACY_ITERATIONS;
+      }
 
       const passwordKey = await this.getPasswordKey(password);
-      const aesKey = await this.deriveKey(passwordKey, salt);
+      const aesKey = await this.deriveKey(passwordKey, salt, iterations);
 
       const decryptedContent = await window.crypto.subtle.decrypt(
         { name: "AES-GCM", iv: iv },
@@ -79,7 +115,69 @@ export class CryptoService {
     }
   }
 
-  private static arrayBufferToBase64(buffer: Uint8Array): string {
+  static parseEnvelope(content: string): EncryptedEnvelope | null {
+    if (!content.trimStart().startsWith('{')) return null;
+    try {
+      const parsed = JSON.parse(content);
+      return parsed?.format === ENVELOPE_FORMAT ? parsed : null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Envelope, or a legacy blob (plain base64, never valid JSON)
+  static isEncrypted(content: string): boolean {
+    if (this.parseEnvelope(content)) return true;
+    try {
+      JSON.parse(content);
+      return false;
+    } catch (e) {
+      return /^[A-Za-z0-9+/=\s]+$/.test(content);
+    }
+  }
+
+  // --- Data keys (local encryption at rest) ---
+
+  static async generateKey(): Promise<CryptoKey> {
+    return window.crypto.subtle.generateKey({ name: "AES-GCM", length: 256 }, true, ["encrypt", "decrypt"]);
+  }
+
+  static async exportKey(key: CryptoKey): Promise<string> {
+    return this.arrayBufferToBase64(new Uint8Array(await window.crypto.subtle.exportKey("raw", key)));
+  }
+
+  // Imported keys are not extractable: once unwrapped they only live inside WebCrypto
+  static async importKey(raw: string): Promise<CryptoKey> {
+    return window.crypto.subtle.importKey("raw", this.base64ToArrayBuffer(raw), "AES-GCM", false, ["encrypt", "decrypt"]);
+  }
+
+  // iv + ciphertext as base64; no KDF, the key is already random
+  static async encryptWithKey(text: string, key: CryptoKey): Promise<string> {
+    const iv = window.crypto.getRandomValues(new Uint8Array(12));
+    const encrypted = await window.crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(text));
+    const buffer = new Uint8Array(iv.byteLength + encrypted.byteLength);
+    buffer.set(iv, 0);
+    buffer.set(new Uint8Array(encrypted), iv.byteLength);
+    return this.arrayBufferToBase64(buffer);
+  }
+
+  static async decryptWithKey(encryptedBase64: string, key: CryptoKey): Promise<string> {
+    const buffer = this.base64ToArrayBuffer(encryptedBase64);
+    const decrypted = await window.crypto.subtle.decrypt({ name: "AES-GCM", iv: buffer.slice(0, 12) }, key, buffer.slice(12));
+    return new TextDecoder().decode(decrypted);
+  }
+
+  // --- Message signing ---
+
+  // Hex-encoded HMAC-SHA256, as webhook receivers usually verify it
+  static async hmacSha256(secret: string, message: string): Promise<string> {
+    const encoder = new TextEncoder();
+    const key = await window.crypto.subtle.importKey("raw", encoder.encode(secret), { name: "HMAC", hash: "SHA-256" }, false, ["sign"]);
+    const signature = new Uint8Array(await window.crypto.subtle.sign("HMAC", key, encoder.encode(message)));
+    return Array.from(signature, b => b.toString(16).padStart(2, '0')).join('');
+  }
+
+  static arrayBufferToBase64(buffer: Uint8Array): string {
     let binary = '';
     const bytes = new Uint8Array(buffer);
     const len = bytes.byteLength;
@@ -89,7 +187,7 @@ export class CryptoService {
     return window.btoa(binary);
   }
 
-  private static base64ToArrayBuffer(base64: string): Uint8Array {
+  static base64ToArrayBuffer(base64: string): Uint8Array<ArrayBuffer> {
     const binary_string = window.atob(base64);
     const len = binary_string.length;
     const bytes = new Uint8Array(len);
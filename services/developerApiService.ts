@@ -1,7 +1,7 @@
 
 import { AppState, Task } from '../types';
-import { StorageService } from './storageService';
 import { appStore } from '../lib/store';
+import { TabSyncService } from './tabSyncService';
 
 // Define the API protocol
 type ApiMessage = 
@@ -21,6 +21,8 @@ export class DeveloperApiService {
     this.channel.onmessage = async (event: MessageEvent) => {
       const msg = event.data as ApiMessage;
       if (!msg || !msg.type) return;
+      // Every open tab hears the channel; only the leader answers, other tabs get its changes relayed
+      if (!TabSyncService.isLeader()) return;
 
       console.log('[DevAPI] Received:', msg);
 
@@ -53,7 +55,6 @@ export class DeveloperApiService {
                updatedAt: Date.now(),
                order: Date.now()
             };
-            await StorageService.addTask(newTask);
             appStore.addTask(newTask);
             this.respond(msg.requestId, { status: 'created', taskId: newTask.id });
           } else {
@@ -1,11 +1,12 @@
 
 import { AppState, Task } from '../types';
 import html2canvas from 'html2canvas';
+import { SecretsService } from './secretsService';
 
 export class ExportService {
   
   static downloadJSON(state: AppState) {
-    const dataStr = JSON.stringify(state, null, 2);
+    const dataStr = JSON.stringify(SecretsService.redactState(state), null, 2);
     const blob = new Blob([dataStr], { type: "application/json" });
     const url = URL.createObjectURL(blob);
     
@@ -49,8 +50,14 @@ export class ExportService {
     };
 
     const now = formatDate(Date.now());
-    const start = task.startTime ? formatDate(task.startTime) : (task.deadline ? formatDate(task.deadline) : now);
-    const end = task.endTime ? formatDate(task.endTime) : start;
+    const startTime = task.startTime ?? task.deadline ?? Date.now();
+    // A recurring task is exported as its series, starting at DTSTART of the series
+    const seriesStart = task.recurrence && task.recurrenceStart !== undefined ? task.recurrenceStart : startTime;
+    const start = formatDate(seriesStart);
+    const end = formatDate(seriesStart + (task.endTime ? task.endTime - startTime : 0));
+    const recurrence = task.recurrence
+      ? [`RRULE:${task.recurrence}`, ...(task.recurrenceExceptions || []).map(ts => `EXDATE:${formatDate(ts)}`)]
+      : [];
 
     const icsContent = [
       'BEGIN:VCALENDAR',
@@ -61,6 +68,7 @@ export class ExportService {
       `DTSTAMP:${now}`,
       `DTSTART:${start}`,
       `DTEND:${end}`,
+      ...recurrence,
       `SUMMARY:${task.title}`,
       `DESCRIPTION:${task.description || ''}`,
       'END:VEVENT',
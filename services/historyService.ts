@@ -0,0 +1,61 @@
+
+import { HistoryEntry } from '../types';
+import { StorageService } from './storageService';
+import { appStore } from '../lib/store';
+
+const SAVE_DELAY_MS = 500;
+
+/**
+ * Persistence side of the undo/redo history kept in appStore: restores the stacks after a reload.
+ * Entities restored by undo/redo are local store updates, PersistenceService writes them.
+ */
+export class HistoryService {
+  private static saveTimer: number | null = null;
+  private static unsubscribe: (() => void) | null = null;
+
+  // Call after the initial data load
+  static async init(): Promise<void> {
+    await this.load();
+    if (this.unsubscribe) return;
+    this.unsubscribe = appStore.subscribeHistory((_stacks, event) => {
+      // 'reset' comes from load/clear, which persist (or deliberately don't) themselves
+      if (event.kind !== 'reset') this.scheduleSave();
+    });
+    window.addEventListener('pagehide', () => this.flush());
+  }
+
+  static async load(): Promise<void> {
+    appStore.setHistory((await StorageService.getHistory()) || { undo: [], redo: [] });
+  }
+
+  static async clear(): Promise<void> {
+    appStore.clearHistory();
+    await this.flush();
+  }
+
+  static undo(): HistoryEntry | null {
+    return appStore.undo();
+  }
+
+  static redo(): HistoryEntry | null {
+    return appStore.redo();
+  }
+
+  static async flush(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      await StorageService.saveHistory(appStore.getHistory());
+    } catch (e) {
+      console.error('[History] Failed to persist history', e);
+    }
+  }
+
+  private static scheduleSave() {
+    if (!this.saveTimer) {
+      this.saveTimer = window.setTimeout(() => this.flush(), SAVE_DELAY_MS);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+
+import { Board, Task } from '../types';
+import { appStore } from '../lib/store';
+import { AutomationService } from './automationService';
+import { StorageService } from './storageService';
+import { SeriesService } from './seriesService';
+import { TabSyncService } from './tabSyncService';
+import { normalizeTaskReminders } from './storageMigrations';
+
+// 'snooze' is offered on every task notification, the longer snoozes on reminders only
+export type TaskNotificationAction = 'complete' | 'snooze' | 'snooze-1h' | 'snooze-tomorrow' | 'open';
+
+const SNOOZE_MS = 15 * 60 * 1000;
+const SNOOZE_TOMORROW_HOUR = 9;
+
+type OpenTaskListener = (task: Task) => void;
+
+// Column a completed task moves to: the board's 'done' column, else its last one. Tasks whose board is
+// unknown keep their status. service-worker.js resolves it the same way.
+const doneStatusOf = (task: Task, boards: Board[]): string => {
+  const board = boards.find(b => b.id === task.boardId);
+  if (!board || board.columns.length === 0) return task.status;
+  if (board.columns.some(c => c.id === 'done')) return 'done';
+  return [...board.columns].sort((a, b) => a.order - b.order)[board.columns.length - 1].id;
+};
+
+/**
+ * Actions of task notifications (Complete, Snooze, Open), meant to be used from the notification shade.
+ * The service worker applies Complete and Snooze to IndexedDB itself, recording them in the op log for
+ * sync, and reports the changed tasks to open tabs as TASKS_CHANGED; this service reloads them into
+ * the store, and the leader runs the automation rules the change triggers. Without an open tab, the
+ * rules do not run for such a change.
+ *
+ * Tasks sealed by the app lock and series occurrences that are not stored yet are out of the worker's
+ * reach: it hands the action to an open tab as NOTIFICATION_ACTION, or opens one with the action in the
+ * URL (see App). Open focuses the app and shows the task.
+ */
+export class NotificationActionService {
+  private static initialized = false;
+  private static openTaskListeners = new Set<OpenTaskListener>();
+
+  static init() {
+    if (this.initialized || !('serviceWorker' in navigator)) return;
+    this.initialized = true;
+
+    navigator.serviceWorker.addEventListener('message', event => {
+      const data = event.data || {};
+      if (data.type === 'TASKS_CHANGED') this.reload(data.taskIds || []);
+      if (data.type === 'NOTIFICATION_ACTION') this.apply(data.action, data.taskId, data.reminderId, data.at);
+      if (data.type === 'OPEN_TASK') this.open(data.taskId);
+    });
+  }
+
+  // Called with the task an Open action asks to show
+  static onOpenTask(listener: OpenTaskListener): () => void {
+    this.openTaskListeners.add(listener);
+    return () => this.openTaskListeners.delete(listener);
+  }
+
+  static snoozeUntil(action: TaskNotificationAction, now: number = Date.now()): number {
+    if (action === 'snooze-1h') return now + 60 * 60 * 1000;
+    if (action !== 'snooze-tomorrow') return now + SNOOZE_MS;
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(SNOOZE_TOMORROW_HOUR, 0, 0, 0);
+    return tomorrow.getTime();
+  }
+
+  /**
+   * The task with the action applied, or null when it changes nothing. Snoozing a reminder moves it;
+   * a notification without one (e.g. from an automation rule) gets a new reminder instead.
+   * service-worker.js applies the same changes.
+   */
+  static applyToTask(task: Task, action: TaskNotificationAction, boards: Board[], reminderId?: string, now: number = Date.now()): Task | null {
+    if (action === 'complete') {
+      return task.completed ? null : { ...task, status: doneStatusOf(task, boards), completed: true, updatedAt: now };
+    }
+    if (action === 'open') return null;
+
+    const until = this.snoozeUntil(action, now);
+    const reminders = task.reminders || [];
+    const snoozed = reminderId && reminders.some(r => r.id === reminderId)
+      ? reminders.map(r => (r.id === reminderId ? { ...r, snoozedUntil: until, fired: false } : r))
+      : [...reminders, { id: crypto.randomUUID(), time: until }];
+    return { ...task, reminders: snoozed, updatedAt: now };
+  }
+
+  // In the app: for tasks the service worker could not change
+  static async apply(action: TaskNotificationAction, taskId: string, reminderId?: string, at: number = Date.now()) {
+    const state = appStore.getState();
+    const task = SeriesService.resolve(taskId, state.tasks);
+    if (!task) return;
+    if (action === 'open') {
+      this.open(taskId);
+      return;
+    }
+
+    const changed = this.applyToTask(task, action, state.boards, reminderId, at);
+    if (!changed) return;
+    const updated = await AutomationService.evaluateRules(changed, task, state.automations);
+    appStore.saveTasks([updated]);
+  }
+
+  private static open(taskId: string) {
+    const task = SeriesService.resolve(taskId, appStore.getState().tasks);
+    if (task) this.openTaskListeners.forEach(listener => listener(task));
+  }
+
+  // Tasks the service worker changed: every tab reloads them, the leader runs the rules on the change
+  private static async reload(taskIds: string[]) {
+    if (appStore.getState().isLoading) return;
+    const stored = await Promise.all(taskIds.map(id => StorageService.getTask(id)));
+    const reloaded = new Map(stored.filter((t): t is Task => !!t).map(t => [t.id, normalizeTaskReminders(t)]));
+    if (reloaded.size === 0) return;
+
+    const previous = new Map(appStore.getState().tasks.filter(t => reloaded.has(t.id)).map(t => [t.id, t]));
+    appStore.setState(prev => ({
+      tasks: prev.tasks.map(t => reloaded.get(t.id) || t)
+    }), { source: 'load' });
+    if (!TabSyncService.isLeader()) return;
+
+    const { automations } = appStore.getState();
+    for (const task of reloaded.values()) {
+      const updated = await AutomationService.evaluateRules(task, previous.get(task.id) || null, automations);
+      if (updated !== task) appStore.updateTask(updated);
+    }
+  }
+}
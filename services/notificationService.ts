@@ -1,3 +1,28 @@
+import { Task } from '../types';
+
+// Fields of the Notifications API missing from the DOM typings
+export interface AppNotificationOptions extends NotificationOptions {
+  actions?: { action: string, title: string }[];
+  renotify?: boolean;
+  showTrigger?: unknown;
+}
+
+// Actions of notifications about a task, most important first: show() keeps only as many as
+// Notification.maxActions allows (2 on Chrome and Android), and a click on the body opens the task anyway.
+// The service worker applies them (see NotificationActionService), so their names are shared with service-worker.js.
+export const TASK_NOTIFICATION_ACTIONS = [
+  { action: 'complete', title: 'Выполнить' },
+  { action: 'snooze', title: 'Отложить на 15 мин' },
+  { action: 'open', title: 'Открыть' },
+];
+
+// Actions past the browser's limit would be dropped silently
+const withinMaxActions = (options?: AppNotificationOptions): AppNotificationOptions | undefined => {
+  const maxActions: number | undefined = (Notification as any).maxActions;
+  if (!options?.actions || maxActions === undefined) return options;
+  return { ...options, actions: options.actions.slice(0, maxActions) };
+};
+
 export class NotificationService {
   static async requestPermission(): Promise<boolean> {
     if (!('Notification' in window)) {
@@ -17,7 +42,7 @@ export class NotificationService {
     return false;
   }
 
-  static async show(title: string, options?: NotificationOptions): Promise<void> {
+  static async show(title: string, options?: AppNotificationOptions): Promise<void> {
     if (Notification.permission === 'granted') {
       try {
         // Try to use Service Worker registration for notifications (better for PWA)
@@ -28,7 +53,7 @@ export class NotificationService {
             icon: 'https://picsum.photos/64/64',
             badge: 'https://picsum.photos/32/32',
             vibrate: [200, 100, 200],
-            ...options
+            ...withinMaxActions(options)
           } as any);
         } else {
           // Fallback to standard Notification API
@@ -40,4 +65,13 @@ export class NotificationService {
       }
     }
   }
+
+  // A notification about a task, with the task actions before any actions of its own
+  static async showForTask(title: string, task: Task, options: AppNotificationOptions = {}): Promise<void> {
+    return this.show(title, {
+      ...options,
+      actions: [...TASK_NOTIFICATION_ACTIONS, ...(options.actions || [])],
+      data: { url: './', ...options.data, taskId: task.id }
+    });
+  }
 }
\ No newline at end of file
@@ -0,0 +1,188 @@
+
+import { AppState, SyncConflict, SyncOp, Tombstone, TombstoneEntityType } from '../types';
+import { StorageService } from './storageService';
+import { appStore, UpdateMeta } from '../lib/store';
+
+// AppState collections that are recorded op by op; everything else travels with checkpoints
+const LOGGED_COLLECTIONS: TombstoneEntityType[] = ['tasks', 'notes', 'boards', 'goals', 'automations', 'globalEvents'];
+
+// Bookkeeping fields every patch carries; concurrent edits never conflict on them (as in SyncService.mergeEntity)
+const UNCONFLICTED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+const DEVICE_ID_KEY = 'device_id';
+const FLUSH_DELAY_MS = 300;
+
+type PendingOp = Omit<SyncOp, 'seq'>;
+
+export class OpLogService {
+  private static deviceId: string | null = null;
+  private static queue: PendingOp[] = [];
+  private static flushTimer: number | null = null;
+  private static unsubscribe: (() => void) | null = null;
+
+  // Starts recording local store mutations. Call after StorageService.init().
+  static async init(): Promise<void> {
+    if (this.unsubscribe) return;
+    await this.getDeviceId();
+
+    this.unsubscribe = appStore.subscribe((state, prev, meta) => this.record(state, prev, meta));
+    window.addEventListener('pagehide', () => this.flush());
+  }
+
+  static async getDeviceId(): Promise<string> {
+    if (this.deviceId) return this.deviceId;
+    let id = await StorageService.getSyncStateItem(DEVICE_ID_KEY);
+    if (!id) {
+      id = crypto.randomUUID();
+      await StorageService.setSyncStateItem(DEVICE_ID_KEY, id);
+    }
+    this.deviceId = id as string;
+    return this.deviceId;
+  }
+
+  // Writes queued ops to IndexedDB in one transaction
+  static async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    const batch = this.queue;
+    this.queue = [];
+    try {
+      await StorageService.appendOps(batch);
+    } catch (e) {
+      console.error('[OpLog] Failed to persist operations', e);
+      this.queue = [...batch, ...this.queue];
+    }
+  }
+
+  private static record(state: AppState, prev: AppState, meta: UpdateMeta) {
+    if (meta.source !== 'local' || !this.deviceId || prev.isLoading) return;
+
+    const ops = this.diff(prev, state, this.deviceId);
+    if (ops.length === 0) return;
+
+    this.queue.push(...ops);
+    if (!this.flushTimer) {
+      this.flushTimer = window.setTimeout(() => this.flush(), FLUSH_DELAY_MS);
+    }
+  }
+
+  // Unchanged entities keep their object identity in the store, so a reference check skips them cheaply
+  static diff(prev: AppState, next: AppState, deviceId: string): PendingOp[] {
+    const ops: PendingOp[] = [];
+    const ts = Date.now();
+
+    LOGGED_COLLECTIONS.forEach(entityType => {
+      const before = (prev[entityType] || []) as any[];
+      const after = (next[entityType] || []) as any[];
+      if (before === after) return;
+
+      const beforeMap = new Map(before.map(e => [e.id, e]));
+      const afterIds = new Set<string>();
+
+      after.forEach(entity => {
+        afterIds.add(entity.id);
+        const old = beforeMap.get(entity.id);
+        if (old === entity) return;
+        if (!old) {
+          ops.push({ deviceId, ts, entityType, entityId: entity.id, kind: 'put', value: entity });
+          return;
+        }
+
+        const value: Record<string, any> = {};
+        const unset: string[] = [];
+        new Set([...Object.keys(old), ...Object.keys(entity)]).forEach(field => {
+          if (!(field in entity) || entity[field] === undefined) {
+            if (old[field] !== undefined) unset.push(field);
+          } else if (JSON.stringify(old[field]) !== JSON.stringify(entity[field])) {
+            value[field] = entity[field];
+          }
+        });
+        if (Object.keys(value).length > 0 || unset.length > 0) {
+          ops.push({ deviceId, ts, entityType, entityId: entity.id, kind: 'patch', value, unset: unset.length ? unset : undefined });
+        }
+      });
+
+      before.forEach(entity => {
+        if (!afterIds.has(entity.id)) {
+          ops.push({ deviceId, ts, entityType, entityId: entity.id, kind: 'delete' });
+        }
+      });
+    });
+
+    return ops;
+  }
+
+  /**
+   * Replays remote ops onto a state. A remote patch touching a field that also has a pending
+   * (not yet pushed) local op with a different value is recorded as a conflict; the newer op wins.
+   */
+  static applyOps(
+    state: AppState,
+    ops: SyncOp[],
+    pendingLocal: SyncOp[]
+  ): { state: AppState, applied: number, conflicts: SyncConflict[] } {
+    const collections: Record<string, Map<string, any>> = {};
+    LOGGED_COLLECTIONS.forEach(type => {
+      collections[type] = new Map(((state[type] || []) as any[]).map(e => [e.id, e]));
+    });
+    const tombstones = new Map((state.tombstones || []).map(t => [t.id, t]));
+    const conflicts: SyncConflict[] = [];
+    let applied = 0;
+
+    [...ops].sort((a, b) => a.ts - b.ts).forEach(op => {
+      const items = collections[op.entityType];
+      const current = items.get(op.entityId);
+      const tombstoneId = `${op.entityType}:${op.entityId}`;
+
+      if (op.kind === 'delete') {
+        if (!current) return;
+        items.delete(op.entityId);
+        const tombstone: Tombstone = { id: tombstoneId, entityType: op.entityType, entityId: op.entityId, deletedAt: op.ts };
+        tombstones.set(tombstoneId, tombstone);
+        applied++;
+      } else if (op.kind === 'put') {
+        const deletedAt = tombstones.get(tombstoneId)?.deletedAt;
+        if (deletedAt !== undefined && deletedAt >= op.ts) return;
+        if (current && (current.updatedAt || 0) > (op.value.updatedAt || 0)) return;
+        items.set(op.entityId, op.value);
+        tombstones.delete(tombstoneId); // Restored after the deletion (undo)
+        applied++;
+      } else if (current) {
+        const patched = { ...current };
+        Object.entries(op.value || {}).forEach(([field, value]) => {
+          const local = !UNCONFLICTED_FIELDS.has(field) && pendingLocal.filter(p =>
+            p.entityType === op.entityType && p.entityId === op.entityId && p.kind === 'patch' && field in (p.value || {})
+          ).pop();
+          if (local && JSON.stringify(local.value[field]) !== JSON.stringify(value)) {
+            conflicts.push({
+              id: `${op.entityType}:${op.entityId}:${field}`,
+              entityType: op.entityType as SyncConflict['entityType'],
+              entityId: op.entityId,
+              entityTitle: current.title || op.entityId,
+              field,
+              localValue: local.value[field],
+              cloudValue: value,
+              detectedAt: Date.now()
+            });
+            if (local.ts > op.ts) return;
+          }
+          patched[field] = field === 'updatedAt' ? Math.max(current.updatedAt || 0, value as number) : value;
+        });
+        (op.unset || []).forEach(field => delete patched[field]);
+        items.set(op.entityId, patched);
+        applied++;
+      }
+    });
+
+    const next: AppState = { ...state, tombstones: Array.from(tombstones.values()) };
+    LOGGED_COLLECTIONS.forEach(type => {
+      (next as any)[type] = Array.from(collections[type].values());
+    });
+
+    // Only tasks, notes and boards support conflict resolution in the UI
+    const resolvable = conflicts.filter(c => ['tasks', 'notes', 'boards'].includes(c.entityType));
+    return { state: next, applied, conflicts: resolvable };
+  }
+}
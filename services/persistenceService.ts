@@ -0,0 +1,131 @@
+
+import { AppState, EntityWrite, PersistedEntityType } from '../types';
+import { StorageService } from './storageService';
+import { MonitoringService } from './monitoringService';
+import { appStore, UpdateMeta } from '../lib/store';
+
+// AppState collections written through to IndexedDB; settings are tracked separately
+const PERSISTED_COLLECTIONS: PersistedEntityType[] = ['tasks', 'notes', 'boards', 'goals', 'automations', 'globalEvents', 'templates'];
+
+const MAX_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 500;
+
+type ErrorListener = (error: Error | null) => void;
+
+/**
+ * Write-through middleware: every local store update is diffed and queued, and the queue is
+ * written in one IndexedDB transaction at the end of the current task. Failed batches are
+ * retried with backoff, then reported; they stay queued and go out with the next write or retry().
+ */
+export class PersistenceService {
+  private static pending = new Map<string, EntityWrite>(); // Latest write per entity
+  private static settingsDirty = false;
+  private static flushTimer: number | null = null;
+  private static flushing: Promise<void> = Promise.resolve();
+  private static attempts = 0;
+  private static unsubscribe: (() => void) | null = null;
+  private static errorListeners = new Set<ErrorListener>();
+
+  static init() {
+    if (this.unsubscribe) return;
+    this.unsubscribe = appStore.subscribe((state, prev, meta) => this.record(state, prev, meta));
+    window.addEventListener('pagehide', () => this.flush());
+  }
+
+  // Called with the error once retries are exhausted, and with null after the next successful write
+  static onError(listener: ErrorListener): () => void {
+    this.errorListeners.add(listener);
+    return () => this.errorListeners.delete(listener);
+  }
+
+  static hasPending(): boolean {
+    return this.pending.size > 0 || this.settingsDirty;
+  }
+
+  // Resolves once everything queued so far is in IndexedDB (or failed)
+  static flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.flushing = this.flushing.then(() => this.write());
+    return this.flushing;
+  }
+
+  static retry(): Promise<void> {
+    this.attempts = 0;
+    return this.flush();
+  }
+
+  private static record(state: AppState, prev: AppState, meta: UpdateMeta) {
+    if (meta.source !== 'local' || meta.persisted || prev.isLoading) return;
+
+    PERSISTED_COLLECTIONS.forEach(entityType => {
+      const before = (prev[entityType] || []) as any[];
+      const after = (state[entityType] || []) as any[];
+      if (before === after) return;
+
+      const beforeMap = new Map(before.map(e => [e.id, e]));
+      const afterIds = new Set<string>();
+      after.forEach(entity => {
+        afterIds.add(entity.id);
+        if (beforeMap.get(entity.id) !== entity) this.queue({ entityType, id: entity.id, value: entity });
+      });
+      before.forEach(entity => {
+        if (!afterIds.has(entity.id)) this.queue({ entityType, id: entity.id });
+      });
+    });
+    if (state.settings !== prev.settings) this.settingsDirty = true;
+
+    if (this.hasPending()) this.schedule(0);
+  }
+
+  private static queue(write: EntityWrite) {
+    const key = `${write.entityType}:${write.id}`;
+    // Re-inserting moves the entity behind older writes, keeping the batch in change order
+    this.pending.delete(key);
+    this.pending.set(key, write);
+  }
+
+  private static schedule(delay: number) {
+    if (this.flushTimer) return;
+    this.flushTimer = window.setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, delay);
+  }
+
+  private static async write(): Promise<void> {
+    if (!this.hasPending()) return;
+
+    const writes = Array.from(this.pending.values());
+    const settingsDirty = this.settingsDirty;
+    this.pending.clear();
+    this.settingsDirty = false;
+
+    try {
+      await StorageService.applyWrites(writes);
+      if (settingsDirty) await StorageService.saveSettings(appStore.getState().settings);
+      if (this.attempts > 0) this.errorListeners.forEach(l => l(null));
+      this.attempts = 0;
+    } catch (e) {
+      // Writes queued meanwhile are newer and win
+      writes.forEach(w => {
+        const key = `${w.entityType}:${w.id}`;
+        if (!this.pending.has(key)) this.pending.set(key, w);
+      });
+      this.settingsDirty = this.settingsDirty || settingsDirty;
+      this.attempts++;
+
+      if (this.attempts <= MAX_RETRIES) {
+        console.warn(`[Persistence] Write failed, retry ${this.attempts}/${MAX_RETRIES}`, e);
+        this.schedule(RETRY_BASE_DELAY_MS * 2 ** (this.attempts - 1));
+      } else {
+        console.error('[Persistence] Giving up after retries', e);
+        MonitoringService.captureException(e, { type: 'persistence', pending: this.pending.size });
+        const error = e instanceof Error ? e : new Error(String(e));
+        this.errorListeners.forEach(l => l(error));
+      }
+    }
+  }
+}
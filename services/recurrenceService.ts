@@ -0,0 +1,338 @@
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export interface WeekdayRule {
+  weekday: number; // 0 = Sunday, as Date.getDay()
+  n?: number; // Nth such weekday of the month (of the year for YEARLY), negative from the end: -1FR is the last Friday
+}
+
+// Parsed RRULE value (RFC 5545, 3.3.10); rules with a smaller unit than a day are not supported
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  until?: number; // Inclusive
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[]; // 1..31, negative from the end of the month
+  byMonth?: number[]; // 1..12
+  bySetPos?: number[]; // Picks from the occurrences of one period, negative from the end
+  wkst: number; // First day of the week, Monday by default
+}
+
+export interface ExpandOptions {
+  exdates?: number[]; // EXDATE: occurrence starts to leave out; they still count towards COUNT
+  timeZone?: string; // IANA zone whose wall-clock time the occurrences keep; the device zone by default
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const SUPPORTED_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'BYSETPOS', 'WKST'];
+export const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Stops rules that can never match (FREQ=YEARLY;BYMONTH=2;BYMONTHDAY=30) from running forever
+const MAX_EMPTY_PERIODS = 3000;
+const MAX_OCCURRENCES = 10000;
+
+const WEEKDAY_LABELS = ['вс', 'пн', 'вт', 'ср', 'чт', 'пт', 'сб'];
+const MONTH_LABELS = ['янв', 'фев', 'мар', 'апр', 'мая', 'июн', 'июл', 'авг', 'сен', 'окт', 'ноя', 'дек'];
+
+// --- Calendar arithmetic ---
+// Dates are counted in days since 1970-01-01 and times of day in "wall" milliseconds (the local clock read
+// as if it were UTC), so adding a day never depends on a DST switch. Zones only come in at the very end.
+
+const dayNumber = (year: number, month: number, day: number) => Math.floor(Date.UTC(year, month, day) / DAY_MS);
+const weekdayOf = (day: number) => new Date(day * DAY_MS).getUTCDay();
+const daysInMonth = (year: number, month: number) => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+const sortedUnique = (days: number[]) => Array.from(new Set(days)).sort((a, b) => a - b);
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Offset of the zone's wall clock from UTC at `timestamp`
+const zoneOffset = (timestamp: number, timeZone: string): number => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone, hourCycle: 'h23',
+      year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  formatter.formatToParts(timestamp).forEach(p => { parts[p.type] = Number(p.value); });
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - Math.floor(timestamp / 1000) * 1000;
+};
+
+const toWall = (timestamp: number, timeZone: string) => timestamp + zoneOffset(timestamp, timeZone);
+
+// A wall time that occurs twice (clocks go back) is the first one; one skipped by clocks going forward
+// is read with the offset before the switch, so 02:30 becomes 03:30 (RFC 5545, 3.3.5)
+const fromWall = (wall: number, timeZone: string): number => {
+  const before = zoneOffset(wall - DAY_MS, timeZone);
+  const after = zoneOffset(wall + DAY_MS, timeZone);
+  const valid = [wall - before, wall - after].filter(t => zoneOffset(t, timeZone) === wall - t);
+  return valid.length > 0 ? Math.min(...valid) : wall - before;
+};
+
+const localZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+/**
+ * Recurrence engine for RFC 5545 RRULE values: FREQ (DAILY to YEARLY), INTERVAL, COUNT, UNTIL, BYDAY
+ * (with ordinals), BYMONTHDAY, BYMONTH, BYSETPOS, WKST, plus EXDATE through ExpandOptions.
+ * Occurrences keep the wall-clock time of DTSTART in a time zone, across DST switches, and are expanded
+ * deterministically: the same rule and DTSTART always give the same timestamps. As in RFC 5545, DTSTART
+ * itself is the first occurrence.
+ */
+export class RecurrenceService {
+
+  static parse(value: string): RecurrenceRule {
+    const parts = new Map<string, string>();
+    value.trim().replace(/^RRULE:/i, '').split(';').filter(Boolean).forEach(part => {
+      const [key, val = ''] = part.split('=');
+      parts.set(key.trim().toUpperCase(), val.trim().toUpperCase());
+    });
+
+    const unsupported = Array.from(parts.keys()).filter(key => !SUPPORTED_PARTS.includes(key));
+    if (unsupported.length > 0) throw new Error(`Unsupported rule parts: ${unsupported.join(', ')}`);
+    const freq = parts.get('FREQ') as RecurrenceFrequency;
+    if (!FREQUENCIES.includes(freq)) throw new Error(`Unsupported FREQ: ${parts.get('FREQ') || '(none)'}`);
+    if (parts.has('COUNT') && parts.has('UNTIL')) throw new Error('COUNT and UNTIL cannot be combined');
+
+    const numbers = (key: string, max: number, negative: boolean): number[] | undefined => {
+      if (!parts.has(key)) return undefined;
+      return parts.get(key)!.split(',').map(text => {
+        const n = Number(text);
+        if (!Number.isInteger(n) || n === 0 || Math.abs(n) > max || (n < 0 && !negative)) throw new Error(`Invalid ${key}: ${text}`);
+        return n;
+      });
+    };
+    const weekday = (code: string): number => {
+      const index = WEEKDAY_CODES.indexOf(code);
+      if (index === -1) throw new Error(`Invalid weekday: ${code}`);
+      return index;
+    };
+
+    const interval = parts.has('INTERVAL') ? Number(parts.get('INTERVAL')) : 1;
+    if (!Number.isInteger(interval) || interval < 1) throw new Error(`Invalid INTERVAL: ${parts.get('INTERVAL')}`);
+    const count = parts.has('COUNT') ? Number(parts.get('COUNT')) : undefined;
+    if (count !== undefined && (!Number.isInteger(count) || count < 1)) throw new Error(`Invalid COUNT: ${parts.get('COUNT')}`);
+
+    return {
+      freq,
+      interval,
+      count,
+      until: parts.has('UNTIL') ? this.parseUntil(parts.get('UNTIL')!) : undefined,
+      byDay: parts.get('BYDAY')?.split(',').map(text => {
+        const match = /^([+-]?\d{1,2})?([A-Z]{2})$/.exec(text);
+        if (!match) throw new Error(`Invalid BYDAY: ${text}`);
+        const n = match[1] ? Number(match[1]) : undefined;
+        if (n !== undefined && (n === 0 || Math.abs(n) > 53)) throw new Error(`Invalid BYDAY: ${text}`);
+        return n !== undefined ? { weekday: weekday(match[2]), n } : { weekday: weekday(match[2]) };
+      }),
+      byMonthDay: numbers('BYMONTHDAY', 31, true),
+      byMonth: numbers('BYMONTH', 12, false),
+      bySetPos: numbers('BYSETPOS', 366, true),
+      wkst: parts.has('WKST') ? weekday(parts.get('WKST')!) : 1
+    };
+  }
+
+  // Canonical RRULE value, without the "RRULE:" prefix
+  static format(rule: RecurrenceRule): string {
+    const parts = [`FREQ=${rule.freq}`];
+    if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+    if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    if (rule.byDay?.length) parts.push(`BYDAY=${rule.byDay.map(d => `${d.n ?? ''}${WEEKDAY_CODES[d.weekday]}`).join(',')}`);
+    if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    if (rule.wkst !== 1) parts.push(`WKST=${WEEKDAY_CODES[rule.wkst]}`);
+    if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+    if (rule.until !== undefined) parts.push(`UNTIL=${new Date(rule.until).toISOString().replace(/[-:]/g, '').split('.')[0]}Z`);
+    return parts.join(';');
+  }
+
+  // Occurrences within [from, to]
+  static between(value: string, dtstart: number, from: number, to: number, options: ExpandOptions = {}): number[] {
+    const result: number[] = [];
+    for (const occurrence of this.expand(this.parse(value), dtstart, options, to)) {
+      if (occurrence > to || result.length >= MAX_OCCURRENCES) break;
+      if (occurrence >= from) result.push(occurrence);
+    }
+    return result;
+  }
+
+  // The next `limit` occurrences strictly after `after`
+  static upcoming(value: string, dtstart: number, after: number, limit: number, options: ExpandOptions = {}): number[] {
+    const result: number[] = [];
+    for (const occurrence of this.expand(this.parse(value), dtstart, options)) {
+      if (result.length >= limit) break;
+      if (occurrence > after) result.push(occurrence);
+    }
+    return result;
+  }
+
+  // Null once the rule has ended (COUNT, UNTIL)
+  static next(value: string, dtstart: number, after: number, options: ExpandOptions = {}): number | null {
+    return this.upcoming(value, dtstart, after, 1, options)[0] ?? null;
+  }
+
+  // Local date and time in a zone as iCalendar text (YYYYMMDDTHHMMSS), for DTSTART;TZID=...
+  static formatLocal(timestamp: number, timeZone: string = localZone()): string {
+    return new Date(toWall(timestamp, timeZone)).toISOString().replace(/[-:]/g, '').split('.')[0];
+  }
+
+  static localTimeZone(): string {
+    return localZone();
+  }
+
+  // Short summary for the task form, e.g. "Каждый месяц: последний пт, 12 раз"
+  static describe(value: string): string {
+    const rule = this.parse(value);
+    const n = rule.interval;
+    const base = {
+      DAILY: n > 1 ? `Каждые ${n} дн.` : 'Каждый день',
+      WEEKLY: n > 1 ? `Каждые ${n} нед.` : 'Каждую неделю',
+      MONTHLY: n > 1 ? `Каждые ${n} мес.` : 'Каждый месяц',
+      YEARLY: n > 1 ? `Каждые ${n} г.` : 'Каждый год',
+    }[rule.freq];
+
+    const ordinal = (k: number) => (k === -1 ? 'последний' : k < 0 ? `${-k}-й с конца` : `${k}-й`);
+    const details: string[] = [];
+    if (rule.byMonth) details.push(rule.byMonth.map(m => MONTH_LABELS[m - 1]).join(', '));
+    if (rule.byMonthDay) details.push(rule.byMonthDay.map(d => (d === -1 ? 'последний день' : d < 0 ? `${-d}-й день с конца` : `${d}-го`)).join(', '));
+    if (rule.byDay) details.push(rule.byDay.map(d => (d.n ? `${ordinal(d.n)} ${WEEKDAY_LABELS[d.weekday]}` : WEEKDAY_LABELS[d.weekday])).join(', '));
+    if (rule.bySetPos) details.push(`из них ${rule.bySetPos.map(ordinal).join(', ')}`);
+
+    let text = details.length > 0 ? `${base}: ${details.join(' ')}` : base;
+    if (rule.count !== undefined) text += `, ${rule.count} раз`;
+    if (rule.until !== undefined) text += `, до ${new Date(rule.until).toLocaleDateString()}`;
+    return text;
+  }
+
+  // --- Expansion ---
+
+  private static *expand(rule: RecurrenceRule, dtstart: number, options: ExpandOptions, end?: number): Generator<number> {
+    const timeZone = options.timeZone || localZone();
+    const exdates = new Set(options.exdates || []);
+    const startWall = toWall(dtstart, timeZone);
+    const startDay = Math.floor(startWall / DAY_MS);
+    const timeOfDay = startWall - startDay * DAY_MS;
+    const endDay = end !== undefined && isFinite(end) ? Math.floor(toWall(end, timeZone) / DAY_MS) + 1 : Infinity;
+    const untilDay = rule.until !== undefined ? Math.floor(toWall(rule.until, timeZone) / DAY_MS) + 1 : Infinity;
+
+    if (rule.until !== undefined && dtstart > rule.until) return;
+    let emitted = 1;
+    if (!exdates.has(dtstart)) yield dtstart;
+
+    for (let period = 0, empty = 0; empty < MAX_EMPTY_PERIODS; period++) {
+      const { first, days } = this.periodDays(rule, startDay, period);
+      if (first > endDay || first > untilDay) return;
+
+      let produced = false;
+      for (const day of days) {
+        const wall = day * DAY_MS + timeOfDay;
+        if (wall <= startWall) continue;
+        const timestamp = fromWall(wall, timeZone);
+        if (rule.until !== undefined && timestamp > rule.until) return;
+        if (rule.count !== undefined && emitted >= rule.count) return;
+        emitted++;
+        produced = true;
+        if (!exdates.has(timestamp)) yield timestamp;
+      }
+      empty = produced ? 0 : empty + 1;
+    }
+  }
+
+  // Days of the `period`-th period after the one holding DTSTART, with all BY* parts applied
+  private static periodDays(rule: RecurrenceRule, startDay: number, period: number): { first: number, days: number[] } {
+    const start = new Date(startDay * DAY_MS);
+    const [startYear, startMonth, startDate] = [start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()];
+    const inMonths = (day: number) => !rule.byMonth || rule.byMonth.includes(new Date(day * DAY_MS).getUTCMonth() + 1);
+
+    switch (rule.freq) {
+      case 'DAILY': {
+        const day = startDay + period * rule.interval;
+        const date = new Date(day * DAY_MS);
+        const length = daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+        const matches = inMonths(day)
+          && (!rule.byMonthDay || rule.byMonthDay.some(d => (d > 0 ? d : length + d + 1) === date.getUTCDate()))
+          && (!rule.byDay || rule.byDay.some(d => d.weekday === date.getUTCDay()));
+        return { first: day, days: this.setPositions(rule, matches ? [day] : []) };
+      }
+      case 'WEEKLY': {
+        const first = startDay - ((weekdayOf(startDay) - rule.wkst + 7) % 7) + period * 7 * rule.interval;
+        const weekdays = rule.byDay ? rule.byDay.map(d => d.weekday) : [weekdayOf(startDay)];
+        const days = Array.from({ length: 7 }, (_, i) => first + i).filter(day => weekdays.includes(weekdayOf(day)) && inMonths(day));
+        return { first, days: this.setPositions(rule, days) };
+      }
+      case 'MONTHLY': {
+        const index = startYear * 12 + startMonth + period * rule.interval;
+        const [year, month] = [Math.floor(index / 12), index % 12];
+        const days = !rule.byMonth || rule.byMonth.includes(month + 1) ? this.monthDays(rule, year, month, startDate) : [];
+        return { first: dayNumber(year, month, 1), days: this.setPositions(rule, days) };
+      }
+      case 'YEARLY': {
+        const year = startYear + period * rule.interval;
+        let days: number[];
+        if (rule.byDay && !rule.byMonth && !rule.byMonthDay) {
+          // Weekdays counted through the whole year: 20MO is the 20th Monday
+          days = this.weekdaysIn(rule.byDay, dayNumber(year, 0, 1), dayNumber(year + 1, 0, 1));
+        } else {
+          const months = rule.byMonth ? rule.byMonth.map(m => m - 1) : rule.byMonthDay ? Array.from({ length: 12 }, (_, i) => i) : [startMonth];
+          days = months.flatMap(month => this.monthDays(rule, year, month, startDate));
+        }
+        return { first: dayNumber(year, 0, 1), days: this.setPositions(rule, days) };
+      }
+    }
+  }
+
+  // Days of one month by BYMONTHDAY and BYDAY (weekdays counted within the month), or DTSTART's day of month
+  private static monthDays(rule: RecurrenceRule, year: number, month: number, defaultDate: number): number[] {
+    const first = dayNumber(year, month, 1);
+    const length = daysInMonth(year, month);
+    if (rule.byMonthDay) {
+      const days = rule.byMonthDay
+        .map(d => (d > 0 ? d : length + d + 1))
+        .filter(d => d >= 1 && d <= length)
+        .map(d => first + d - 1);
+      // BYDAY only narrows BYMONTHDAY down ("Friday the 13th")
+      return rule.byDay ? days.filter(day => rule.byDay!.some(d => d.weekday === weekdayOf(day))) : days;
+    }
+    if (rule.byDay) return this.weekdaysIn(rule.byDay, first, first + length);
+    // A month without DTSTART's day (the 31st) has no occurrence
+    return defaultDate <= length ? [first + defaultDate - 1] : [];
+  }
+
+  // Days in [from, to) matching BYDAY; an ordinal picks the Nth (or Nth from the end) such weekday
+  private static weekdaysIn(byDay: WeekdayRule[], from: number, to: number): number[] {
+    const days: number[] = [];
+    for (const { weekday, n } of byDay) {
+      const offset = (weekday - weekdayOf(from) + 7) % 7;
+      const all: number[] = [];
+      for (let day = from + offset; day < to; day += 7) all.push(day);
+      if (n === undefined) days.push(...all);
+      else {
+        const day = n > 0 ? all[n - 1] : all[all.length + n];
+        if (day !== undefined) days.push(day);
+      }
+    }
+    return sortedUnique(days);
+  }
+
+  private static setPositions(rule: RecurrenceRule, days: number[]): number[] {
+    const sorted = sortedUnique(days);
+    if (!rule.bySetPos) return sorted;
+    return sortedUnique(rule.bySetPos
+      .map(pos => (pos > 0 ? sorted[pos - 1] : sorted[sorted.length + pos]))
+      .filter((day): day is number => day !== undefined));
+  }
+
+  // Date-only UNTIL covers the whole day
+  private static parseUntil(text: string): number {
+    const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(text);
+    if (!match) throw new Error(`Invalid UNTIL: ${text}`);
+    const [, y, m, d, hh, mm, ss] = match;
+    return hh !== undefined
+      ? Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss)
+      : Date.UTC(+y, +m - 1, +d, 23, 59, 59);
+  }
+}
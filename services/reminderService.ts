@@ -0,0 +1,282 @@
+
+import { AppSettings, EventType, Task, TaskReminder } from '../types';
+import { appStore } from '../lib/store';
+import { NotificationService, AppNotificationOptions, TASK_NOTIFICATION_ACTIONS } from './notificationService';
+import { SeriesService } from './seriesService';
+import { TabSyncService } from './tabSyncService';
+
+// A reminder of a task at the time it currently resolves to
+export interface ScheduledReminder {
+  task: Task;
+  reminder: TaskReminder;
+  time: number;
+}
+
+// Longest wait between checks: timers stop while the device sleeps, so a check is never far behind a wake-up
+const REMINDER_MAX_DELAY_MS = 60 * 1000;
+// Reminders shown later than this say when they were due
+const REMINDER_LATE_MS = 5 * 60 * 1000;
+// More reminders due at once (e.g. after a long sleep) are shown as one notification
+const REMINDER_GROUP_LIMIT = 3;
+// Occurrences of recurring series are looked ahead this far for reminders set before their start
+const REMINDER_HORIZON_MS = 7 * 24 * 60 * 60 * 1000;
+const REMINDER_TAG_PREFIX = 'reminder:';
+// Periodic Background Sync tag; without an open tab the service worker shows due reminders itself
+const PERIODIC_SYNC_TAG = 'task-reminders';
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// Longer snoozes after the task actions, where the browser shows that many (see NotificationActionService)
+const REMINDER_ACTIONS = [
+  ...TASK_NOTIFICATION_ACTIONS,
+  { action: 'snooze-1h', title: '+1 час' },
+  { action: 'snooze-tomorrow', title: 'Завтра' },
+];
+
+const formatTime = (time: number) =>
+  new Date(time).toLocaleString('ru-RU', { day: 'numeric', month: 'short', hour: '2-digit', minute: '2-digit' });
+
+const tagOf = ({ task, reminder }: ScheduledReminder) => `${REMINDER_TAG_PREFIX}${task.id}:${reminder.id}`;
+
+/**
+ * Fires the reminders of tasks (Task.reminders) through NotificationService and marks them fired.
+ * A reminder is set for a fixed time or as an offset before the task's start or deadline; offset
+ * reminders move with the task, and moved reminders that are still ahead fire again.
+ *
+ * A single timer waits for the earliest reminder, but never longer than a minute, so reminders
+ * missed while the device slept are caught up right after it wakes; showing the tab again checks too.
+ * Only the leader tab fires; the flags reach the other tabs through TabSyncService.
+ *
+ * Where the browser supports Notification Triggers, upcoming reminders are also handed to the system
+ * and show without an open tab. Installed apps register a periodic sync, on which the service worker
+ * shows due reminders of unsealed tasks. Notifications offer the task actions of NotificationActionService.
+ */
+export class ReminderService {
+  private static timer: number | null = null;
+  private static unsubscribe: (() => void) | null = null;
+  private static running = false;
+  private static triggerKey = '';
+
+  static init() {
+    if (this.unsubscribe) return;
+
+    this.unsubscribe = appStore.subscribe((state, prev, meta) => {
+      if (meta.source === 'local' && state.tasks !== prev.tasks) this.rearmMoved(state.tasks, prev.tasks);
+      if (state.tasks !== prev.tasks || state.isLoading !== prev.isLoading) this.schedule();
+    });
+    document.addEventListener('visibilitychange', () => {
+      if (document.visibilityState === 'visible') this.run();
+    });
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', event => {
+        if (event.data?.type === 'RUN_REMINDERS') this.run();
+      });
+      this.registerPeriodicSync();
+    }
+    this.run();
+  }
+
+  // A snooze replaces the reminder's own time; offset reminders need the date they are set against
+  static timeOf(task: Task, reminder: TaskReminder): number | undefined {
+    if (reminder.snoozedUntil !== undefined) return reminder.snoozedUntil;
+    if (!reminder.offset) return reminder.time;
+    const anchor = task[reminder.offset.anchor];
+    return anchor === undefined ? undefined : anchor - reminder.offset.minutesBefore * 60 * 1000;
+  }
+
+  // Reminders a new task of the event type starts with
+  static defaultsFor(eventType: EventType | undefined, settings: AppSettings): TaskReminder[] {
+    return (settings.reminderDefaults?.[eventType || 'task'] || []).map(offset => ({ id: crypto.randomUUID(), offset: { ...offset } }));
+  }
+
+  // Unfired reminders of open tasks, including series occurrences not stored yet, earliest first
+  static pending(tasks: Task[], now: number = Date.now()): ScheduledReminder[] {
+    const result: ScheduledReminder[] = [];
+    [...tasks, ...SeriesService.virtualInstances(tasks, now, now + REMINDER_HORIZON_MS, now)].forEach(task => {
+      if (task.completed) return;
+      task.reminders?.forEach(reminder => {
+        const time = this.timeOf(task, reminder);
+        if (!reminder.fired && time !== undefined) result.push({ task, reminder, time });
+      });
+    });
+    return result.sort((a, b) => a.time - b.time);
+  }
+
+  static due(tasks: Task[], now: number = Date.now()): ScheduledReminder[] {
+    return this.pending(tasks, now).filter(entry => entry.time <= now);
+  }
+
+  // Returns the number of reminders fired
+  static async run(now: number = Date.now()): Promise<number> {
+    if (this.running || appStore.getState().isLoading || !TabSyncService.isLeader()) return 0;
+    this.running = true;
+    try {
+      const due = this.due(appStore.getState().tasks, now);
+      if (due.length === 0) return 0;
+
+      // Marked before showing, so a failing notification is not repeated on every check.
+      // Occurrences of a series are stored with the flag. Not undoable, like the scheduler's changes.
+      const fired = new Map<string, Task>();
+      due.forEach(({ task, reminder }) => {
+        const current = fired.get(task.id) || task;
+        const reminders = current.reminders!.map(r => (r.id === reminder.id ? { ...r, fired: true } : r));
+        fired.set(task.id, { ...current, reminders, updatedAt: now });
+      });
+      appStore.setState(prev => {
+        const existing = new Set(prev.tasks.map(t => t.id));
+        const created = Array.from(fired.values()).filter(t => !existing.has(t.id));
+        return { tasks: [...prev.tasks.map(t => fired.get(t.id) || t), ...created] };
+      }, { source: 'local', skipHistory: true });
+      await this.notify(due, now);
+      return due.length;
+    } catch (e) {
+      console.error('[Reminders] Run failed', e);
+      return 0;
+    } finally {
+      this.running = false;
+      this.schedule();
+    }
+  }
+
+  static notificationOptions(entry: ScheduledReminder, now: number = Date.now()): AppNotificationOptions {
+    const { task, reminder, time } = entry;
+    const details: string[] = [];
+    if (task.startTime !== undefined) details.push(`Начало: ${formatTime(task.startTime)}`);
+    else if (task.deadline !== undefined) details.push(`Срок: ${formatTime(task.deadline)}`);
+    if (now - time > REMINDER_LATE_MS) details.push(`Напоминание на ${formatTime(time)} пропущено`);
+
+    return {
+      body: details.join('\n') || 'Напоминание',
+      tag: tagOf(entry),
+      renotify: true,
+      requireInteraction: true,
+      actions: REMINDER_ACTIONS,
+      data: { taskId: task.id, reminderId: reminder.id, url: './' }
+    };
+  }
+
+  // --- Scheduling ---
+
+  private static schedule(now: number = Date.now()) {
+    if (this.timer !== null) window.clearTimeout(this.timer);
+    this.timer = null;
+
+    const { tasks, isLoading } = appStore.getState();
+    if (isLoading || !TabSyncService.isLeader()) return;
+    const pending = this.pending(tasks, now);
+    this.syncTriggers(pending, now);
+    if (pending.length === 0) return;
+
+    const delay = Math.min(Math.max(pending[0].time - now, 0), REMINDER_MAX_DELAY_MS);
+    this.timer = window.setTimeout(() => {
+      this.timer = null;
+      this.run();
+    }, delay);
+  }
+
+  // Fired reminders whose time a local change moved ahead of now are armed again
+  private static rearmMoved(tasks: Task[], prevTasks: Task[], now: number = Date.now()) {
+    const before = new Map(prevTasks.map(t => [t.id, t]));
+    const rearmed = new Map<string, Set<string>>();
+    tasks.forEach(task => {
+      const old = before.get(task.id);
+      if (!old || old === task) return;
+      task.reminders?.forEach(reminder => {
+        const previous = old.reminders?.find(r => r.id === reminder.id);
+        const time = this.timeOf(task, reminder);
+        if (!reminder.fired || !previous || time === undefined || time <= now || time === this.timeOf(old, previous)) return;
+        rearmed.set(task.id, (rearmed.get(task.id) || new Set()).add(reminder.id));
+      });
+    });
+    if (rearmed.size === 0) return;
+
+    // After the current update has reached every listener
+    queueMicrotask(() => appStore.setState(prev => ({
+      tasks: prev.tasks.map(t => {
+        const ids = rearmed.get(t.id);
+        return ids && t.reminders ? { ...t, reminders: t.reminders.map(r => (ids.has(r.id) ? { ...r, fired: false } : r)) } : t;
+      })
+    }), { source: 'local', skipHistory: true }));
+  }
+
+  // One notification per task; a task with several reminders due at once shows the latest
+  private static async notify(due: ScheduledReminder[], now: number) {
+    // Shown already by a notification trigger or the service worker
+    const shown = await this.shownTags();
+    const byTask = new Map<string, ScheduledReminder>();
+    due.filter(entry => !shown.has(tagOf(entry))).forEach(entry => byTask.set(entry.task.id, entry));
+    const unseen = Array.from(byTask.values());
+
+    if (unseen.length > REMINDER_GROUP_LIMIT) {
+      await NotificationService.show(`Напоминания: ${unseen.length}`, {
+        body: unseen.map(entry => entry.task.title).join('\n'),
+        tag: `${REMINDER_TAG_PREFIX}group`,
+        data: { url: './' }
+      });
+      return;
+    }
+    for (const entry of unseen) await NotificationService.show(entry.task.title, this.notificationOptions(entry, now));
+  }
+
+  // getRegistration, not ready: ready never settles where the worker could not be registered
+  private static async shownTags(): Promise<Set<string>> {
+    try {
+      const registration = 'serviceWorker' in navigator ? await navigator.serviceWorker.getRegistration() : undefined;
+      const notifications = registration ? await registration.getNotifications() : [];
+      return new Set(notifications.map(n => n.tag));
+    } catch {
+      return new Set();
+    }
+  }
+
+  // --- Background delivery ---
+
+  private static supportsTriggers(): boolean {
+    return 'Notification' in window && Notification.permission === 'granted'
+      && 'showTrigger' in Notification.prototype && 'TimestampTrigger' in window;
+  }
+
+  // Keeps one pending trigger notification per upcoming reminder; changed and dropped ones are cancelled
+  private static async syncTriggers(pending: ScheduledReminder[], now: number) {
+    if (!this.supportsTriggers()) return;
+    const upcoming = pending.filter(entry => entry.time > now && entry.time - now <= REMINDER_HORIZON_MS);
+    const key = upcoming.map(entry => `${tagOf(entry)}:${entry.time}:${entry.task.title}`).join('|');
+    if (key === this.triggerKey) return;
+    this.triggerKey = key;
+
+    try {
+      const registration = await navigator.serviceWorker.getRegistration();
+      if (!registration) return;
+      const wanted = new Map(upcoming.map(entry => [tagOf(entry), entry]));
+      const scheduled = await registration.getNotifications({ includeTriggered: true } as any);
+      scheduled.forEach((notification: any) => {
+        const timestamp = notification.showTrigger?.timestamp;
+        if (!notification.tag.startsWith(REMINDER_TAG_PREFIX) || !(timestamp > now)) return;
+        const entry = wanted.get(notification.tag);
+        if (entry && entry.time === timestamp && entry.task.title === notification.title) wanted.delete(notification.tag);
+        else notification.close();
+      });
+
+      const TimestampTrigger = (window as any).TimestampTrigger;
+      for (const entry of wanted.values()) {
+        await NotificationService.show(entry.task.title, {
+          ...this.notificationOptions(entry, entry.time),
+          showTrigger: new TimestampTrigger(entry.time)
+        });
+      }
+    } catch (e) {
+      this.triggerKey = '';
+      console.warn('[Reminders] Notification triggers failed', e);
+    }
+  }
+
+  // Chromium only, and only for installed apps
+  private static async registerPeriodicSync() {
+    try {
+      const registration: any = await navigator.serviceWorker.ready;
+      if (!registration.periodicSync) return;
+      await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS });
+    } catch (e) {
+      console.warn('[Reminders] Periodic sync unavailable', e);
+    }
+  }
+}
@@ -0,0 +1,128 @@
+
+import { AutomationRule, AutomationRunMark, Task } from '../types';
+import { appStore } from '../lib/store';
+import { AutomationService } from './automationService';
+import { StorageService } from './storageService';
+import { TabSyncService } from './tabSyncService';
+import { SeriesService } from './seriesService';
+import { normalizeLegacyRule } from './storageMigrations';
+
+const SCHEDULER_INTERVAL_MS = 60 * 1000;
+// Periodic Background Sync tag; the service worker forwards its events as RUN_SCHEDULER messages
+const PERIODIC_SYNC_TAG = 'automation-scheduler';
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Runs time-based automation rules (deadline, overdue, schedule, inactivity) against all tasks:
+ * on startup, every minute and when the service worker reports a periodic sync.
+ * Only the leader tab runs it; changed tasks reach the other tabs through TabSyncService.
+ *
+ * A rule fires once per task per occurrence of its time conditions. The last fired occurrences are
+ * kept in IndexedDB (AutomationRunMark), so a restart does not repeat an action.
+ * Each run also stores the occurrences of recurring series that have come due (SeriesService).
+ */
+export class SchedulerService {
+  private static timer: number | null = null;
+  private static marks: Map<string, AutomationRunMark> | null = null;
+  private static running = false;
+
+  static init() {
+    if (this.timer !== null) return;
+
+    this.timer = window.setInterval(() => this.run(), SCHEDULER_INTERVAL_MS);
+    if ('serviceWorker' in navigator) {
+      navigator.serviceWorker.addEventListener('message', event => {
+        if (event.data?.type === 'RUN_SCHEDULER') this.run();
+      });
+      this.registerPeriodicSync();
+    }
+    this.run();
+  }
+
+  // Returns the number of rule runs
+  static async run(now: number = Date.now()): Promise<number> {
+    if (this.running || appStore.getState().isLoading || !TabSyncService.isLeader()) return 0;
+    this.running = true;
+    try {
+      const marks = await this.loadMarks();
+
+      // Nothing is awaited from here until the store is updated, so tasks cannot change underneath
+      const state = appStore.getState();
+      if (state.isLoading) return 0;
+      const rules = AutomationService.orderRules(state.automations
+        .map(normalizeLegacyRule)
+        .filter(rule => rule.isActive && AutomationService.isScheduled(rule)));
+
+      const fired: AutomationRunMark[] = [];
+      const firedRules = new Map<string, AutomationRule>();
+      const updatedTasks = new Map<string, Task>();
+
+      for (const task of state.tasks) {
+        for (const rule of rules) {
+          const scope = { task, previous: null, now, simulate: false };
+          if (!AutomationService.matchesConditions(rule, scope)) continue;
+
+          const id = `${rule.id}:${task.id}`;
+          const occurrences = AutomationService.timeOccurrences(rule, scope);
+          const previous = marks.get(id)?.occurrences || {};
+          if (Object.keys(occurrences).every(path => previous[path] === occurrences[path])) continue;
+
+          const mark: AutomationRunMark = { id, ruleId: rule.id, taskId: task.id, occurrences: { ...previous, ...occurrences }, firedAt: now };
+          marks.set(id, mark);
+          fired.push(mark);
+          firedRules.set(rule.id, { ...rule, lastRun: now });
+
+          const current = updatedTasks.get(task.id) || task;
+          let updated = AutomationService.applyActions(rule, current, scope, 'scheduler');
+          if (updated === current) continue;
+          // Rules watching the fields this rule changed run as the next pass of a chain
+          updated = AutomationService.runChain(updated, current, state.automations, undefined, { now, source: 'scheduler', depth: 1 });
+          updatedTasks.set(task.id, { ...updated, updatedAt: now });
+        }
+      }
+
+      const instances = SeriesService.materializeDue(state.tasks.map(t => updatedTasks.get(t.id) || t), now);
+      if (fired.length === 0 && instances.length === 0) return 0;
+
+      // Not undoable: the user did not make these changes in this session
+      appStore.setState(prev => ({
+        tasks: updatedTasks.size > 0 || instances.length > 0 ? [...prev.tasks.map(t => updatedTasks.get(t.id) || t), ...instances] : prev.tasks,
+        automations: firedRules.size > 0 ? prev.automations.map(r => firedRules.get(r.id) || r) : prev.automations
+      }), { source: 'local', skipHistory: true });
+
+      if (fired.length > 0) await StorageService.saveAutomationRuns(fired);
+      return fired.length;
+    } catch (e) {
+      console.error('[Scheduler] Run failed', e);
+      return 0;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Marks are cached after the first read; marks of deleted rules and tasks are dropped then
+  private static async loadMarks(): Promise<Map<string, AutomationRunMark>> {
+    if (this.marks) return this.marks;
+
+    const { automations, tasks } = appStore.getState();
+    const ruleIds = new Set(automations.map(r => r.id));
+    const taskIds = new Set(tasks.map(t => t.id));
+    const stored = await StorageService.getAutomationRuns();
+    const stale = stored.filter(m => !ruleIds.has(m.ruleId) || !taskIds.has(m.taskId));
+    if (stale.length > 0) await StorageService.deleteAutomationRuns(stale.map(m => m.id));
+
+    this.marks = new Map(stored.filter(m => !stale.includes(m)).map(m => [m.id, m]));
+    return this.marks;
+  }
+
+  // Chromium only, and only for installed apps; elsewhere the interval covers open tabs
+  private static async registerPeriodicSync() {
+    try {
+      const registration: any = await navigator.serviceWorker.ready;
+      if (!registration.periodicSync) return;
+      await registration.periodicSync.register(PERIODIC_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS });
+    } catch (e) {
+      console.warn('[Scheduler] Periodic sync unavailable', e);
+    }
+  }
+}
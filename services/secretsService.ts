@@ -0,0 +1,88 @@
+
+import { AppSecrets, AppState, SecretKey } from '../types';
+import { StorageService } from './storageService';
+import { CryptoService } from './cryptoService';
+
+export const SECRET_KEYS: SecretKey[] = ['openRouterApiKey', 'githubToken', 'encryptionPassword', 'webdavPassword', 'webhookSecrets'];
+
+/**
+ * Local vault for API keys, tokens and passwords. Secrets are kept apart from AppSettings so that
+ * sync, export and backups can never carry them. The vault can be wrapped with a passphrase,
+ * which then has to be entered once per session.
+ */
+export class SecretsService {
+  private static passphrase: string | null = null;
+
+  static async load(): Promise<{ secrets: AppSecrets, locked: boolean }> {
+    const vault = await StorageService.getVault();
+    if (!vault?.wrapped) return { secrets: vault?.secrets || {}, locked: false };
+    if (!this.passphrase) return { secrets: {}, locked: true };
+    return { secrets: await this.unwrap(vault.wrapped, this.passphrase), locked: false };
+  }
+
+  static async unlock(passphrase: string): Promise<AppSecrets> {
+    const vault = await StorageService.getVault();
+    if (!vault?.wrapped) return vault?.secrets || {};
+    const secrets = await this.unwrap(vault.wrapped, passphrase);
+    this.passphrase = passphrase;
+    return secrets;
+  }
+
+  static async save(secrets: AppSecrets): Promise<void> {
+    // Saving without the passphrase would replace the wrapped secrets with a plain partial copy
+    if (!this.passphrase && await this.isWrapped()) {
+      throw new Error("Хранилище секретов заблокировано");
+    }
+    await this.write(secrets);
+  }
+
+  // Wraps the vault with a new passphrase, or stores it in plain form when null
+  static async setPassphrase(secrets: AppSecrets, passphrase: string | null): Promise<void> {
+    this.passphrase = passphrase || null;
+    await this.write(secrets);
+  }
+
+  static async isWrapped(): Promise<boolean> {
+    return !!(await StorageService.getVault())?.wrapped;
+  }
+
+  private static async write(secrets: AppSecrets): Promise<void> {
+    const clean = this.pick(secrets);
+    if (this.passphrase) {
+      await StorageService.saveVault({ wrapped: await CryptoService.encrypt(JSON.stringify(clean), this.passphrase) });
+    } else {
+      await StorageService.saveVault({ secrets: clean });
+    }
+  }
+
+  private static async unwrap(wrapped: string, passphrase: string): Promise<AppSecrets> {
+    try {
+      return JSON.parse(await CryptoService.decrypt(wrapped, passphrase));
+    } catch (e) {
+      throw new Error("Неверная парольная фраза хранилища");
+    }
+  }
+
+  // --- Redaction ---
+
+  static pick(source: Record<string, any> = {}): AppSecrets {
+    const secrets: AppSecrets = {};
+    SECRET_KEYS.forEach(key => {
+      if (source[key]) secrets[key] = source[key];
+    });
+    return secrets;
+  }
+
+  // Settings written by older versions still carry secrets inline
+  static stripSettings<T extends Record<string, any>>(settings: T): T {
+    const clean: Record<string, any> = { ...settings };
+    SECRET_KEYS.forEach(key => delete clean[key]);
+    return clean as T;
+  }
+
+  // State safe to leave the device: sync payloads, exports, backup snapshots
+  static redactState<T extends Partial<AppState>>(state: T): T {
+    const { secrets, secretsLocked, ...rest } = state;
+    return (rest.settings ? { ...rest, settings: this.stripSettings(rest.settings) } : rest) as T;
+  }
+}
@@ -0,0 +1,363 @@
+
+import { Task, TaskReminder } from '../types';
+import { RecurrenceService } from './recurrenceService';
+
+// Which occurrences an edit of a recurring task applies to
+export type SeriesEditScope = 'this' | 'following' | 'all';
+
+// Tasks to save and to delete, applied together with appStore.saveTasks
+export interface SeriesChanges {
+  upserts: Task[];
+  deletes: string[];
+}
+
+// Fields an occurrence takes from the master, and that edits of several occurrences carry over
+const SERIES_FIELDS = ['title', 'description', 'tags', 'assignee', 'color', 'eventType', 'boardId', 'estimatedDuration', 'dependencies'] as const;
+// Dates, kept relative to the start of the occurrence
+const SERIES_TIME_FIELDS = ['startTime', 'endTime', 'deadline'] as const;
+
+const isDone = (task: Task) => task.completed || task.status === 'done';
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Fixed-time reminders moved by `delta`; offset reminders follow the task's dates by themselves
+const moveReminders = (reminders: TaskReminder[] | undefined, delta: number): TaskReminder[] | undefined =>
+  reminders?.map(r => (r.time === undefined ? r : { ...r, time: r.time + delta }));
+
+const withoutRule = (task: Task): Task => ({ ...task, recurrence: undefined, recurrenceStart: undefined, recurrenceExceptions: undefined });
+
+/**
+ * Recurring series: the master task holds the rule (recurrence, recurrenceStart as DTSTART,
+ * recurrenceExceptions as EXDATE) and stands for one occurrence itself; the other occurrences are
+ * instances linked by seriesId, with recurrenceId as the original start of their occurrence.
+ * Instances are stored once an occurrence is due, done or edited; until then CalendarView shows
+ * them as virtual instances built on the fly. Instance ids are derived from the master and the
+ * occurrence, so devices that store the same occurrence end up with the same task.
+ */
+export class SeriesService {
+
+  // --- Lookup ---
+
+  // Start of the occurrence a task stands for; a rescheduled occurrence keeps its original start
+  static occurrenceOf(task: Task): number {
+    return task.recurrenceId ?? task.startTime ?? task.deadline ?? task.createdAt;
+  }
+
+  static seriesIdOf(task: Task): string | undefined {
+    return task.recurrence ? task.id : task.seriesId;
+  }
+
+  static dtstart(master: Task): number {
+    return master.recurrenceStart ?? this.occurrenceOf(master);
+  }
+
+  static masterOf(task: Task, tasks: Task[]): Task | null {
+    if (task.recurrence) return task;
+    return (task.seriesId && tasks.find(t => t.id === task.seriesId && t.recurrence)) || null;
+  }
+
+  static instanceId(masterId: string, occurrence: number): string {
+    return `${masterId}:${occurrence}`;
+  }
+
+  // A stored task, or the virtual instance an id of CalendarView stands for
+  static resolve(id: string, tasks: Task[], now: number = Date.now()): Task | null {
+    const stored = tasks.find(t => t.id === id);
+    if (stored) return stored;
+    const separator = id.lastIndexOf(':');
+    const occurrence = Number(id.slice(separator + 1));
+    const master = separator > 0 ? tasks.find(t => t.id === id.slice(0, separator) && t.recurrence) : undefined;
+    return master && Number.isFinite(occurrence) ? this.instanceAt(master, occurrence, now) : null;
+  }
+
+  // The occurrence as a new task: the master's fields and dates, without its state and time logs
+  static instanceAt(master: Task, occurrence: number, now: number): Task {
+    const base = this.occurrenceOf(master);
+    const move = (time?: number) => (time === undefined ? undefined : occurrence + (time - base));
+    const instance: Task = {
+      id: this.instanceId(master.id, occurrence),
+      title: master.title,
+      status: 'backlog',
+      tags: master.tags,
+      completed: false,
+      order: master.order,
+      createdAt: now,
+      updatedAt: now,
+      startTime: move(master.startTime),
+      endTime: move(master.endTime),
+      deadline: move(master.deadline),
+      reminders: moveReminders(master.reminders, occurrence - base)?.map(({ snoozedUntil, fired, ...r }) => r),
+      seriesId: master.id,
+      recurrenceId: occurrence
+    };
+    SERIES_FIELDS.forEach(field => { (instance as any)[field] = master[field]; });
+    return instance;
+  }
+
+  // --- Rescheduling ---
+
+  // Dates of a task moved to start at `to` (its deadline when it has no start). The dates keep their
+  // distances, so offset reminders follow; a task without dates gets `to` as its deadline.
+  static moveDates(task: Task, to: number): Pick<Task, 'startTime' | 'endTime' | 'deadline'> {
+    const anchor = task.startTime ?? task.deadline;
+    if (anchor === undefined) return { deadline: to };
+    const move = (time?: number) => (time === undefined ? undefined : time + to - anchor);
+    return { startTime: move(task.startTime), endTime: move(task.endTime), deadline: move(task.deadline) };
+  }
+
+  // --- Expansion ---
+
+  /**
+   * Instances of occurrences that have come due since the last stored one, or of the next occurrence
+   * once every stored one is done. Of several missed occurrences only the latest is stored.
+   */
+  static materializeDue(tasks: Task[], now: number = Date.now()): Task[] {
+    const created: Task[] = [];
+    this.groupSeries(tasks).forEach(({ master, members }) => {
+      const stored = new Set(members.map(t => this.occurrenceOf(t)));
+      const due = this.occurrences(master, this.lastPast(stored, now) + 1, now).pop();
+      const next = due ?? (members.every(isDone) ? this.nextOccurrence(master, Math.max(now, ...stored)) : null);
+      if (next === null || stored.has(next)) return;
+      created.push(this.instanceAt(master, next, now));
+    });
+    return created;
+  }
+
+  // Occurrences in [from, to] that are not stored, from the last stored one that has passed; for display only
+  static virtualInstances(tasks: Task[], from: number, to: number, now: number = Date.now()): Task[] {
+    const result: Task[] = [];
+    this.groupSeries(tasks).forEach(({ master, members }) => {
+      if (master.startTime === undefined && master.deadline === undefined) return;
+      const stored = new Set(members.map(t => this.occurrenceOf(t)));
+      this.occurrences(master, Math.max(from, this.lastPast(stored, now) + 1), to).forEach(occurrence => {
+        if (!stored.has(occurrence)) result.push(this.instanceAt(master, occurrence, now));
+      });
+    });
+    return result;
+  }
+
+  // --- Editing ---
+
+  /**
+   * Saves an edited occurrence. `original` is the occurrence before the edit (stored or virtual),
+   * `edited` the same with the form applied; its recurrence is the rule the form shows for the series.
+   * 'following' ends the series before the occurrence and starts a new one from it; rule changes
+   * only apply to 'following' and 'all'.
+   */
+  static edit(original: Task, edited: Task, scope: SeriesEditScope, tasks: Task[], now: number = Date.now()): SeriesChanges {
+    const master = this.masterOf(original, tasks);
+    if (!master) return { upserts: [edited], deletes: [] };
+
+    const occurrence = this.occurrenceOf(original);
+    if (scope === 'following' && occurrence <= this.occurrenceOf(master)) scope = 'all';
+
+    if (scope === 'this') {
+      const updated = { ...withoutRule(edited), seriesId: master.id, recurrenceId: occurrence, updatedAt: now };
+      if (original.id !== master.id) return { upserts: [updated], deletes: [] };
+      // The master keeps the series' fields; they move on to the next occurrence not stored yet
+      const handover = this.handOver(master, tasks, now);
+      if (!handover) return { upserts: [{ ...edited, updatedAt: now }], deletes: [] };
+      return { upserts: [...handover.upserts.filter(t => t.id !== master.id), { ...updated, seriesId: handover.master.id }], deletes: [] };
+    }
+
+    const members = tasks.filter(t => t.seriesId === master.id);
+    const start = (task: Task) => task.startTime ?? task.deadline;
+    const shift = start(edited) !== undefined && start(original) !== undefined ? start(edited)! - start(original)! : 0;
+    const changed = [...SERIES_FIELDS, ...SERIES_TIME_FIELDS, 'reminders' as const].filter(field => !sameValue(original[field], edited[field]));
+    const rule = edited.recurrence || undefined;
+    const ruleChanged = rule !== master.recurrence;
+
+    // Carries the edit over to another open occurrence of the series
+    const carry = (task: Task): Task => {
+      const updated: Task = { ...task, recurrenceId: this.occurrenceOf(task) + shift, updatedAt: now };
+      SERIES_FIELDS.forEach(field => {
+        if (changed.includes(field)) (updated as any)[field] = edited[field];
+      });
+      SERIES_TIME_FIELDS.forEach(field => {
+        if (changed.includes(field)) {
+          updated[field] = edited[field] === undefined ? undefined : updated.recurrenceId! + (edited[field]! - occurrence - shift);
+        } else if (task[field] !== undefined) {
+          updated[field] = task[field]! + shift;
+        }
+      });
+      if (changed.includes('reminders')) {
+        // The occurrence keeps the state of reminders it had already
+        const own = new Map((task.reminders || []).map(r => [r.id, r]));
+        updated.reminders = moveReminders(edited.reminders, updated.recurrenceId! - occurrence - shift)
+          ?.map(({ snoozedUntil, fired, ...r }) => ({ ...r, fired: own.get(r.id)?.fired }));
+      } else {
+        updated.reminders = moveReminders(task.reminders, shift);
+      }
+      return updated;
+    };
+
+    if (scope === 'all') {
+      const dtstart = this.dtstart(master) + shift;
+      const head: Task = {
+        ...(original.id === master.id ? edited : carry(master)),
+        recurrence: rule,
+        recurrenceStart: rule ? dtstart : undefined,
+        recurrenceExceptions: rule ? master.recurrenceExceptions?.map(t => t + shift) : undefined,
+        recurrenceId: this.occurrenceOf(master) + shift,
+        updatedAt: now
+      };
+      return this.relink(head, members, original, edited, carry, shift, ruleChanged, now);
+    }
+
+    // 'following': the current series ends before this occurrence, a new one starts from it
+    const after = members.filter(t => this.occurrenceOf(t) >= occurrence && t.id !== original.id);
+    const { ending, remaining } = this.endBefore(master, occurrence);
+    const newRule = ruleChanged ? rule : remaining;
+    const head: Task = {
+      ...withoutRule(edited),
+      seriesId: undefined,
+      recurrence: newRule,
+      recurrenceStart: newRule ? occurrence + shift : undefined,
+      recurrenceExceptions: newRule ? master.recurrenceExceptions?.filter(t => t > occurrence).map(t => t + shift) : undefined,
+      recurrenceId: occurrence + shift,
+      updatedAt: now
+    };
+    const result = this.relink(head, after, original, edited, carry, shift, ruleChanged, now);
+    result.upserts.push({
+      ...master,
+      recurrence: ending,
+      recurrenceExceptions: master.recurrenceExceptions?.filter(t => t < occurrence),
+      updatedAt: now
+    });
+    return result;
+  }
+
+  /**
+   * Skips one occurrence: adds it to the master's EXDATE and deletes its instance. Skipping the
+   * master's own occurrence hands the series over to the next occurrence first.
+   */
+  static skip(task: Task, tasks: Task[], now: number = Date.now()): SeriesChanges {
+    const master = this.masterOf(task, tasks);
+    if (!master) return { upserts: [], deletes: [task.id] };
+
+    const occurrence = this.occurrenceOf(task);
+    const exceptions = [...(master.recurrenceExceptions || []), occurrence];
+    if (task.id !== master.id) {
+      return { upserts: [{ ...master, recurrenceExceptions: exceptions, updatedAt: now }], deletes: [task.id] };
+    }
+
+    const handover = this.handOver({ ...master, recurrenceExceptions: exceptions }, tasks, now);
+    return {
+      upserts: handover ? handover.upserts.filter(t => t.id !== master.id) : [],
+      deletes: [master.id]
+    };
+  }
+
+  // --- Internals ---
+
+  private static groupSeries(tasks: Task[]): Map<string, { master: Task, members: Task[] }> {
+    const series = new Map<string, { master: Task, members: Task[] }>();
+    tasks.forEach(task => {
+      if (task.recurrence) series.set(task.id, { master: task, members: [task] });
+    });
+    tasks.forEach(task => {
+      if (task.seriesId) series.get(task.seriesId)?.members.push(task);
+    });
+    return series;
+  }
+
+  private static lastPast(occurrences: Set<number>, now: number): number {
+    return Math.max(-Infinity, ...Array.from(occurrences).filter(occurrence => occurrence <= now));
+  }
+
+  // Occurrences within [from, to]; an invalid rule has none
+  private static occurrences(master: Task, from: number, to: number): number[] {
+    try {
+      return RecurrenceService.between(master.recurrence!, this.dtstart(master), from, to, { exdates: master.recurrenceExceptions });
+    } catch (e) {
+      console.warn(`[Recurrence] Invalid rule on task "${master.title}"`, e);
+      return [];
+    }
+  }
+
+  private static nextOccurrence(master: Task, after: number): number | null {
+    try {
+      return RecurrenceService.next(master.recurrence!, this.dtstart(master), after, { exdates: master.recurrenceExceptions });
+    } catch (e) {
+      console.warn(`[Recurrence] Invalid rule on task "${master.title}"`, e);
+      return null;
+    }
+  }
+
+  /**
+   * Moves the rule to a new master at the next occurrence that is not stored yet, so the old master
+   * can change or go away alone. The old master becomes an instance of the new one.
+   */
+  private static handOver(master: Task, tasks: Task[], now: number): { master: Task, upserts: Task[] } | null {
+    const members = tasks.filter(t => t.seriesId === master.id);
+    const stored = new Set(members.map(t => this.occurrenceOf(t)));
+    let next = this.nextOccurrence(master, Math.max(this.occurrenceOf(master), now));
+    while (next !== null && stored.has(next)) next = this.nextOccurrence(master, next);
+    if (next === null) return null;
+
+    const successor: Task = {
+      ...this.instanceAt(master, next, now),
+      seriesId: undefined,
+      recurrence: master.recurrence,
+      recurrenceStart: this.dtstart(master),
+      recurrenceExceptions: master.recurrenceExceptions
+    };
+    return {
+      master: successor,
+      upserts: [
+        successor,
+        { ...withoutRule(master), seriesId: successor.id, recurrenceId: this.occurrenceOf(master), updatedAt: now },
+        ...members.map(t => ({ ...t, seriesId: successor.id, updatedAt: now }))
+      ]
+    };
+  }
+
+  // The rule ending right before `occurrence`, and what remains of it from there (COUNT shared out)
+  private static endBefore(master: Task, occurrence: number): { ending: string | undefined, remaining: string | undefined } {
+    const rule = RecurrenceService.parse(master.recurrence!);
+    if (rule.count === undefined) {
+      return { ending: RecurrenceService.format({ ...rule, until: occurrence - 1000 }), remaining: master.recurrence };
+    }
+    // COUNT includes skipped occurrences
+    const used = RecurrenceService.between(master.recurrence!, this.dtstart(master), -Infinity, occurrence - 1).length;
+    const left = rule.count - used;
+    return {
+      ending: RecurrenceService.format({ ...rule, count: used }),
+      remaining: left > 0 ? RecurrenceService.format({ ...rule, count: left }) : undefined
+    };
+  }
+
+  // Points `members` at `head` and carries the edit over to the open ones; without a rule they leave the series
+  private static relink(
+    head: Task,
+    members: Task[],
+    original: Task,
+    edited: Task,
+    carry: (task: Task) => Task,
+    shift: number,
+    ruleChanged: boolean,
+    now: number
+  ): SeriesChanges {
+    const seriesId = head.recurrence ? head.id : undefined;
+    const upserts: Task[] = [head];
+    const deletes: string[] = [];
+    members.forEach(task => {
+      if (task.id === head.id) return;
+      if (task.id === original.id) {
+        upserts.push({ ...withoutRule(edited), seriesId, recurrenceId: this.occurrenceOf(original) + shift, updatedAt: now });
+        return;
+      }
+      if (isDone(task)) {
+        upserts.push({ ...task, seriesId, recurrenceId: this.occurrenceOf(task) + shift, updatedAt: now });
+        return;
+      }
+      const updated = { ...carry(task), seriesId };
+      // Open occurrences the changed rule no longer has
+      if (ruleChanged && (!head.recurrence || this.occurrences(head, updated.recurrenceId!, updated.recurrenceId!).length === 0)) {
+        deletes.push(task.id);
+        return;
+      }
+      upserts.push(updated);
+    });
+    return { upserts, deletes };
+  }
+}
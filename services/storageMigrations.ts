@@ -0,0 +1,398 @@
+
+import { Task, Board, BoardColumn, AutomationRule, LegacyAutomationRule, RuleCondition, RecurrenceConfig, TaskReminder } from '../types';
+import { RecurrenceService } from './recurrenceService';
+
+/**
+ * One step of the TaskAssistDB schema. `upgrade` runs inside the versionchange transaction,
+ * so schema changes and data transforms of a step commit (or fail) together.
+ * Steps are frozen once released: they use literal store names and values instead of shared constants,
+ * and their own copy of each data transform, since the normalizers used on load keep changing. Only
+ * converters of a single legacy format (e.g. normalizeLegacyRule), which never change, are shared.
+ */
+export interface Migration {
+  version: number;
+  description: string;
+  upgrade: (db: IDBDatabase, tx: IDBTransaction) => void;
+}
+
+// Versions up to 13 were created by a single catch-all upgrade block, so a database at an old
+// version may already contain stores of later ones. Schema helpers therefore tolerate existing objects.
+const createStore = (db: IDBDatabase, name: string, options: IDBObjectStoreParameters = { keyPath: 'id' }): void => {
+  if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, options);
+};
+
+const createIndex = (tx: IDBTransaction, storeName: string, name: string, keyPath: string | string[], options?: IDBIndexParameters): void => {
+  const store = tx.objectStore(storeName);
+  if (!store.indexNames.contains(name)) store.createIndex(name, keyPath, options);
+};
+
+// Rewrites queued per upgrade transaction; the first one is running
+const queuedRewrites = new WeakMap<IDBTransaction, (() => void)[]>();
+
+// Rewrites every record of a store. Records sealed by the app lock cannot be read here and are
+// skipped; a transform that must reach them is repeated when the data is loaded.
+// Rewrites run one after another in the order they were called, so steps must call this from upgrade
+// itself: cursors of several steps over one store would read records before the earlier step wrote them.
+const updateRecords = (tx: IDBTransaction, storeName: string, transform: (record: any) => any | null): void => {
+  const queue = queuedRewrites.get(tx) || [];
+  queuedRewrites.set(tx, queue);
+
+  const next = () => {
+    queue.shift();
+    queue[0]?.();
+  };
+  const run = () => {
+    const request = tx.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return next();
+      if (typeof cursor.value.sealed !== 'string') {
+        const updated = transform(cursor.value);
+        if (updated) cursor.update(updated);
+      }
+      cursor.continue();
+    };
+  };
+
+  queue.push(run);
+  if (queue.length === 1) run();
+};
+
+// Fields added to tasks over time; also applied to tasks imported from old export files
+export const normalizeLegacyTask = (task: any, fallbackBoardId?: string): Task => normalizeTaskReminders(normalizeTaskRecurrence({
+  ...task,
+  status: task.status || (task.completed ? 'done' : 'backlog'),
+  tags: task.tags || [],
+  order: task.order || 0,
+  eventType: task.eventType || 'task',
+  color: task.color || '#3b82f6',
+  boardId: task.boardId || fallbackBoardId
+}));
+
+const LEGACY_FREQUENCIES: Record<string, 'DAILY' | 'WEEKLY' | 'MONTHLY'> = { daily: 'DAILY', weekly: 'WEEKLY', monthly: 'MONTHLY' };
+
+const isLegacyRecurrence = (value: unknown) => value !== undefined && !(typeof value === 'string' && value.includes('FREQ='));
+
+// 'none' | 'daily' | 'weekly' | 'monthly' or a RecurrenceConfig become an RRULE value; RRULE values pass through.
+// "monthly" used to mean every 30 days and becomes the same day of every month.
+export const normalizeLegacyRecurrence = (value: unknown): string | undefined => {
+  if (!isLegacyRecurrence(value)) return value as string | undefined;
+  const config: Partial<RecurrenceConfig> = typeof value === 'string' ? { frequency: value as any } : (value as RecurrenceConfig) || {};
+  const freq = LEGACY_FREQUENCIES[config.frequency || ''];
+  if (!freq) return undefined;
+  return RecurrenceService.format({
+    freq,
+    interval: Math.max(1, Math.floor(config.interval || 1)),
+    byDay: freq === 'WEEKLY' && config.daysOfWeek?.length ? config.daysOfWeek.map(weekday => ({ weekday })) : undefined,
+    wkst: 1
+  });
+};
+
+// The same task when its recurrence is current. Before recurring series, every spawned copy kept the rule
+// and a done copy was marked with lastRecurrence once it had spawned the next one: such copies become plain
+// done tasks, so only the latest copy of a chain is a series master. Copies still to be done carried the
+// mark over from the task they were spawned from, it is just dropped.
+// Also applied on load, since tasks sealed by the app lock skip the schema migration.
+export const normalizeTaskRecurrence = <T extends { recurrence?: unknown, completed?: boolean, status?: string }>(task: T): T => {
+  const { lastRecurrence, ...rest } = task as T & { lastRecurrence?: number };
+  if (!('lastRecurrence' in task) && !isLegacyRecurrence(task.recurrence)) return task;
+  if (lastRecurrence !== undefined && (task.completed || task.status === 'done')) {
+    return { ...rest, recurrence: undefined, recurrenceStart: undefined, recurrenceExceptions: undefined } as unknown as T;
+  }
+  return { ...rest, recurrence: normalizeLegacyRecurrence(task.recurrence) } as unknown as T;
+};
+
+// The single reminderTime / reminderFired pair becomes the first entry of the reminder list.
+// Also applied on load, since tasks sealed by the app lock skip the schema migration.
+export const normalizeTaskReminders = <T extends { reminders?: TaskReminder[] }>(task: T): T => {
+  if (!('reminderTime' in task) && !('reminderFired' in task)) return task;
+  const { reminderTime, reminderFired, ...rest } = task as T & { reminderTime?: number, reminderFired?: boolean };
+  const legacy: TaskReminder[] = reminderTime === undefined ? [] : [{ id: 'legacy', time: reminderTime, fired: reminderFired || undefined }];
+  return { ...rest, reminders: [...legacy, ...(task.reminders || [])] } as unknown as T;
+};
+
+// Single-trigger rules become a one-condition tree with a one-action list; current rules pass through.
+// Also applied on load, since rules sealed by the app lock skip the schema migration.
+export const normalizeLegacyRule = (rule: AutomationRule | LegacyAutomationRule): AutomationRule => {
+  if (!('trigger' in rule)) return rule;
+
+  const { trigger, action, ...rest } = rule;
+  let condition: RuleCondition | null = null;
+  switch (trigger.type) {
+    case 'status_change':
+      condition = { type: 'field', field: 'status', operator: 'changed_to', value: trigger.value };
+      break;
+    case 'tag_added':
+      condition = { type: 'field', field: 'tags', operator: 'changed_to', value: trigger.value };
+      break;
+    case 'location_enter':
+    case 'location_leave':
+      // Without coordinates the old trigger could never fire, the empty tree keeps it that way
+      if (trigger.location) {
+        condition = { type: 'location', event: trigger.type === 'location_enter' ? 'enter' : 'leave', location: trigger.location };
+      }
+      break;
+    case 'weather_condition':
+      condition = { type: 'weather', weather: trigger.weather || (trigger.value as any) };
+      break;
+    case 'inactivity':
+      condition = { type: 'inactivity', days: trigger.inactivityDays || 7 };
+      break;
+  }
+
+  return {
+    ...rest,
+    conditions: { type: 'group', logic: 'and', conditions: condition ? [condition] : [] },
+    actions: action ? [action] : []
+  };
+};
+
+const LEGACY_SECRET_KEYS = ['openRouterApiKey', 'githubToken', 'encryptionPassword', 'webdavPassword'];
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Tasks and notes',
+    upgrade: (db) => {
+      createStore(db, 'tasks');
+      createStore(db, 'notes');
+    }
+  },
+  {
+    version: 2,
+    description: 'Goals, automations and project templates',
+    upgrade: (db) => {
+      createStore(db, 'goals');
+      createStore(db, 'automations');
+      createStore(db, 'templates');
+    }
+  },
+  {
+    version: 3,
+    description: 'Copilot memory and user profile',
+    upgrade: (db) => {
+      createStore(db, 'memory');
+      createStore(db, 'user');
+    }
+  },
+  {
+    version: 4,
+    description: 'Local backups',
+    upgrade: (db) => createStore(db, 'backups')
+  },
+  {
+    version: 5,
+    description: 'Task indexes for Kanban columns',
+    upgrade: (_db, tx) => {
+      createIndex(tx, 'tasks', 'status_idx', 'status', { unique: false });
+      createIndex(tx, 'tasks', 'completed_idx', 'completed', { unique: false });
+    }
+  },
+  {
+    version: 6,
+    description: 'Custom Kanban columns',
+    upgrade: (db) => createStore(db, 'columns')
+  },
+  {
+    version: 7,
+    description: 'Multiple boards',
+    upgrade: (db) => createStore(db, 'boards')
+  },
+  {
+    version: 8,
+    description: 'Reserved (no schema change)',
+    upgrade: () => {}
+  },
+  {
+    version: 9,
+    description: 'Global events (holidays, vacations)',
+    upgrade: (db) => createStore(db, 'global_events')
+  },
+  {
+    version: 10,
+    description: 'Sync state: merge base and conflicts',
+    upgrade: (db) => createStore(db, 'sync_state')
+  },
+  {
+    version: 11,
+    description: 'Tombstones for synced deletions',
+    upgrade: (db) => createStore(db, 'tombstones')
+  },
+  {
+    version: 12,
+    description: 'Device-local settings',
+    upgrade: (db) => createStore(db, 'settings')
+  },
+  {
+    version: 13,
+    description: 'Operation log for delta sync',
+    upgrade: (db) => createStore(db, 'oplog', { keyPath: 'seq', autoIncrement: true })
+  },
+  {
+    version: 14,
+    description: 'Normalize legacy tasks, create the default board, move inline secrets to the vault',
+    upgrade: (_db, tx) => {
+      const boards = tx.objectStore('boards');
+      const columnsRequest = tx.objectStore('columns').getAll();
+
+      // Boards first: tasks without a board are moved to the first one. Requests complete in order,
+      // so the board is known when the task rewrite below reads its first record.
+      let boardId: string | undefined;
+      const boardsRequest = boards.getAll();
+      boardsRequest.onsuccess = () => {
+        // Ids stay readable on sealed records
+        boardId = boardsRequest.result[0]?.id;
+
+        if (!boardId) {
+          const legacyColumns: BoardColumn[] = columnsRequest.result || [];
+          const defaultBoard: Board = {
+            id: 'default-board',
+            title: 'Главная',
+            columns: legacyColumns.length > 0 ? legacyColumns : [
+              { id: 'backlog', title: 'Бэклог', order: 0 },
+              { id: 'in-progress', title: 'В работе', order: 1 },
+              { id: 'review', title: 'Проверка', order: 2 },
+              { id: 'done', title: 'Готово', order: 3 },
+            ],
+            updatedAt: 0 // Loses against any synced version of the default board
+          };
+          boards.put(defaultBoard);
+          boardId = defaultBoard.id;
+        }
+      };
+
+      updateRecords(tx, 'tasks', task => ({
+        ...task,
+        status: task.status || (task.completed ? 'done' : 'backlog'),
+        tags: task.tags || [],
+        order: task.order || 0,
+        eventType: task.eventType || 'task',
+        color: task.color || '#3b82f6',
+        recurrence: task.recurrence || 'none',
+        boardId: task.boardId || boardId
+      }));
+
+      // Settings saved before the secrets vault kept credentials inline
+      const settings = tx.objectStore('settings');
+      const settingsRequest = settings.get('app');
+      settingsRequest.onsuccess = () => {
+        const value = settingsRequest.result?.value;
+        if (!value || !LEGACY_SECRET_KEYS.some(key => value[key])) return;
+
+        const secrets: Record<string, string> = {};
+        const clean = { ...value };
+        LEGACY_SECRET_KEYS.forEach(key => {
+          if (value[key]) secrets[key] = value[key];
+          delete clean[key];
+        });
+
+        const vaultRequest = settings.get('secrets');
+        vaultRequest.onsuccess = () => {
+          if (!vaultRequest.result) settings.put({ id: 'secrets', value: { secrets } });
+          settings.put({ id: 'app', value: clean });
+        };
+      };
+    }
+  },
+  {
+    version: 15,
+    description: 'Task query indexes',
+    upgrade: (_db, tx) => {
+      createIndex(tx, 'tasks', 'board_status_idx', ['boardId', 'status'], { unique: false });
+      createIndex(tx, 'tasks', 'deadline_idx', 'deadline', { unique: false });
+      createIndex(tx, 'tasks', 'tags_idx', 'tags', { unique: false, multiEntry: true });
+      createIndex(tx, 'tasks', 'updated_idx', 'updatedAt', { unique: false });
+    }
+  },
+  {
+    version: 16,
+    description: 'Automation rules with condition trees and action lists',
+    upgrade: (_db, tx) => {
+      updateRecords(tx, 'automations', rule => (rule.trigger ? normalizeLegacyRule(rule) : null));
+    }
+  },
+  {
+    version: 17,
+    description: 'Scheduler bookkeeping for time-based automation rules',
+    upgrade: (db) => createStore(db, 'automation_runs')
+  },
+  {
+    version: 18,
+    description: 'Automation log',
+    upgrade: (db, tx) => {
+      createStore(db, 'automation_log');
+      createIndex(tx, 'automation_log', 'task_idx', 'taskId', { unique: false });
+      createIndex(tx, 'automation_log', 'timestamp_idx', 'timestamp', { unique: false });
+    }
+  },
+  {
+    version: 19,
+    description: 'Webhook delivery queue',
+    upgrade: (db) => createStore(db, 'webhook_deliveries')
+  },
+  {
+    version: 20,
+    description: 'RRULE recurrence',
+    upgrade: (_db, tx) => {
+      // Copies carried lastRecurrence from the task they were spawned from; it is dropped on tasks still to be done
+      updateRecords(tx, 'tasks', task => {
+        if (!isLegacyRecurrence(task.recurrence)) return null;
+        return {
+          ...task,
+          recurrence: normalizeLegacyRecurrence(task.recurrence),
+          lastRecurrence: task.completed ? task.lastRecurrence : undefined
+        };
+      });
+    }
+  },
+  {
+    version: 21,
+    description: 'Recurring task series',
+    upgrade: (_db, tx) => {
+      // Done copies that spawned the next one become plain done tasks, so only the latest copy of a chain
+      // is a series master; the mark is dropped everywhere else
+      updateRecords(tx, 'tasks', task => {
+        if (!('lastRecurrence' in task)) return null;
+        const { lastRecurrence, ...rest } = task;
+        if (lastRecurrence !== undefined && (task.completed || task.status === 'done')) {
+          return { ...rest, recurrence: undefined, recurrenceStart: undefined, recurrenceExceptions: undefined };
+        }
+        return rest;
+      });
+    }
+  },
+  {
+    version: 22,
+    description: 'Multiple reminders per task',
+    upgrade: (_db, tx) => {
+      updateRecords(tx, 'tasks', task => {
+        const updated = normalizeTaskReminders(task);
+        return updated === task ? null : updated;
+      });
+    }
+  }
+];
+
+export const LATEST_DB_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+export const runMigrations = (db: IDBDatabase, tx: IDBTransaction, oldVersion: number, newVersion: number): void => {
+  MIGRATIONS
+    .filter(m => m.version > oldVersion && m.version <= newVersion)
+    .forEach(m => {
+      console.log(`[DB] Migrating to v${m.version}: ${m.description}`);
+      m.upgrade(db, tx);
+    });
+};
+
+// Opens (and upgrades) a database with the migration registry. Exposed for tests on throwaway databases.
+export const openDatabase = (name: string, version: number = LATEST_DB_VERSION): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(name, version);
+
+    request.onerror = () => reject(request.error);
+    request.onsuccess = () => resolve(request.result);
+    request.onupgradeneeded = (event) => {
+      runMigrations(request.result, request.transaction!, event.oldVersion, event.newVersion ?? version);
+    };
+  });
+};
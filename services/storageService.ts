@@ -1,8 +1,10 @@
 
-import { Task, Note, Goal, AutomationRule, ProjectTemplate, CopilotMemory, BackupSnapshot, BoardColumn, Board, GlobalEvent } from '../types';
+import { Task, Note, Goal, AutomationRule, ProjectTemplate, CopilotMemory, BackupSnapshot, BoardColumn, Board, GlobalEvent, AppState, AppSettings, AppLockConfig, SecretsVault, SyncConflict, SyncOp, AutomationRunMark, AutomationLogEntry, WebhookDelivery, Tombstone, TombstoneEntityType, TaskQuery, TaskPage, HistoryStacks, EntityWrite, PersistedEntityType } from '../types';
+import { SecretsService } from './secretsService';
+import { CryptoService } from './cryptoService';
+import { openDatabase } from './storageMigrations';
 
-const DB_NAME = 'TaskAssistDB';
-const DB_VERSION = 9; // Incremented for Global Events
+const DB_NAME = 'TaskAssistDB'; // Schema versions live in storageMigrations.ts
 const STORES = {
   TASKS: 'tasks',
   NOTES: 'notes',
@@ -14,7 +16,66 @@ const STORES = {
   BACKUPS: 'backups',
   COLUMNS: 'columns',
   BOARDS: 'boards',
-  GLOBAL_EVENTS: 'global_events' // New store
+  GLOBAL_EVENTS: 'global_events',
+  SYNC_STATE: 'sync_state', // Merge base snapshot & unresolved conflicts
+  TOMBSTONES: 'tombstones',
+  SETTINGS: 'settings',
+  OPLOG: 'oplog',
+  AUTOMATION_RUNS: 'automation_runs',
+  AUTOMATION_LOG: 'automation_log',
+  WEBHOOK_DELIVERIES: 'webhook_deliveries' // Also read and written by the service worker
+};
+
+const SETTINGS_KEY = 'app';
+const VAULT_KEY = 'secrets';
+const APP_LOCK_KEY = 'app_lock';
+const HISTORY_KEY = 'history';
+
+// Which object store holds each tombstoned entity type
+const TOMBSTONE_STORES: Record<TombstoneEntityType, string> = {
+  tasks: STORES.TASKS,
+  notes: STORES.NOTES,
+  boards: STORES.BOARDS,
+  goals: STORES.GOALS,
+  automations: STORES.AUTOMATIONS,
+  globalEvents: STORES.GLOBAL_EVENTS
+};
+
+const ENTITY_STORES: Record<PersistedEntityType, string> = {
+  ...TOMBSTONE_STORES,
+  templates: STORES.TEMPLATES
+};
+
+// Tombstones older than this are compacted away; a device offline for longer may resurrect deletions
+export const TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+const DEFAULT_QUERY_LIMIT = 50;
+
+const SYNC_BASE_KEY = 'base';
+const SYNC_CONFLICTS_KEY = 'conflicts';
+
+// --- App lock: records sealed with the data key ---
+// Stores whose records are encrypted at rest, with the fields that stay readable (key path first, then indexed fields).
+// Task query fields stay readable too, so a locked device reveals board/status/deadline/tags of tasks, not their content.
+const SEALED_STORES: Record<string, string[]> = {
+  [STORES.TASKS]: ['id', 'status', 'completed', 'boardId', 'deadline', 'tags', 'updatedAt'],
+  [STORES.NOTES]: ['id'],
+  [STORES.GOALS]: ['id'],
+  [STORES.AUTOMATIONS]: ['id'],
+  [STORES.TEMPLATES]: ['id'],
+  [STORES.MEMORY]: ['id'],
+  [STORES.BACKUPS]: ['id', 'timestamp'],
+  [STORES.BOARDS]: ['id'],
+  [STORES.GLOBAL_EVENTS]: ['id'],
+  [STORES.OPLOG]: ['seq'],
+  [STORES.AUTOMATION_LOG]: ['id', 'taskId', 'timestamp'],
+  // The service worker cannot unseal deliveries, those wait for the unlocked app
+  [STORES.WEBHOOK_DELIVERIES]: ['id', 'state', 'nextAttemptAt', 'createdAt']
+};
+// Key/value stores where only some records hold user data (the rest, e.g. folder handles, must stay cloneable)
+const SEALED_KEYS: Record<string, string[]> = {
+  [STORES.SYNC_STATE]: [SYNC_BASE_KEY, SYNC_CONFLICTS_KEY],
+  [STORES.SETTINGS]: [VAULT_KEY, HISTORY_KEY]
 };
 
 // LRU Cache Implementation
@@ -49,59 +110,92 @@ class LRUCache<K, V> {
 export class StorageService {
   private static db: IDBDatabase | null = null;
   private static taskCache = new LRUCache<string, Task>(100);
+  private static sealingEnabled = false;
+  private static dataKey: CryptoKey | null = null;
 
   static async init(): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+    try {
+      this.db = await openDatabase(DB_NAME);
+    } catch (e) {
+      console.error("IndexedDB error:", e);
+      throw "Could not open IndexedDB";
+    }
+  }
 
-      request.onerror = (event) => {
-        console.error("IndexedDB error:", event);
-        reject("Could not open IndexedDB");
-      };
+  private static getStore(storeName: string, mode: IDBTransactionMode = 'readonly'): IDBObjectStore {
+    if (!this.db) throw new Error("Database not initialized");
+    const transaction = this.db.transaction(storeName, mode);
+    return transaction.objectStore(storeName);
+  }
 
-      request.onsuccess = (event) => {
-        this.db = (event.target as IDBOpenDBRequest).result;
-        resolve();
-      };
+  // --- Encryption at rest (driven by AppLockService) ---
 
-      request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-        const transaction = (event.target as IDBOpenDBRequest).transaction;
+  // With sealing enabled and no key, reads and writes of sealed records fail: the app is locked
+  static setEncryption(enabled: boolean, key: CryptoKey | null) {
+    this.sealingEnabled = enabled;
+    this.dataKey = key;
+    if (!key) this.taskCache = new LRUCache<string, Task>(100);
+  }
 
-        if (!db.objectStoreNames.contains(STORES.TASKS)) {
-          const taskStore = db.createObjectStore(STORES.TASKS, { keyPath: 'id' });
-          taskStore.createIndex('status_idx', 'status', { unique: false });
-          taskStore.createIndex('completed_idx', 'completed', { unique: false });
-        } else {
-           const taskStore = transaction?.objectStore(STORES.TASKS);
-           if (taskStore && !taskStore.indexNames.contains('status_idx')) {
-             taskStore.createIndex('status_idx', 'status', { unique: false });
-           }
-        }
+  static isLocked(): boolean {
+    return this.sealingEnabled && !this.dataKey;
+  }
 
-        if (!db.objectStoreNames.contains(STORES.NOTES)) db.createObjectStore(STORES.NOTES, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.GOALS)) db.createObjectStore(STORES.GOALS, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.AUTOMATIONS)) db.createObjectStore(STORES.AUTOMATIONS, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.TEMPLATES)) db.createObjectStore(STORES.TEMPLATES, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.MEMORY)) db.createObjectStore(STORES.MEMORY, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.USER)) db.createObjectStore(STORES.USER, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.BACKUPS)) db.createObjectStore(STORES.BACKUPS, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.COLUMNS)) db.createObjectStore(STORES.COLUMNS, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.BOARDS)) db.createObjectStore(STORES.BOARDS, { keyPath: 'id' });
-        if (!db.objectStoreNames.contains(STORES.GLOBAL_EVENTS)) db.createObjectStore(STORES.GLOBAL_EVENTS, { keyPath: 'id' });
-      };
+  private static async seal(storeName: string, record: any): Promise<any> {
+    const clearFields = SEALED_STORES[storeName] || ((SEALED_KEYS[storeName] || []).includes(record?.id) ? ['id'] : null);
+    if (!this.sealingEnabled || !clearFields) return record;
+    if (!this.dataKey) throw new Error("Приложение заблокировано");
+
+    const sealed: Record<string, any> = {};
+    clearFields.forEach(field => {
+      if (record[field] !== undefined) sealed[field] = record[field];
     });
+    sealed.sealed = await CryptoService.encryptWithKey(JSON.stringify(record), this.dataKey);
+    return sealed;
   }
 
-  private static getStore(storeName: string, mode: IDBTransactionMode = 'readonly'): IDBObjectStore {
-    if (!this.db) throw new Error("Database not initialized");
-    const transaction = this.db.transaction(storeName, mode);
-    return transaction.objectStore(storeName);
+  // Plain records pass through, so a database can be read while it is being (un)sealed
+  private static async unseal(record: any): Promise<any> {
+    if (!record || typeof record.sealed !== 'string') return record;
+    if (!this.dataKey) throw new Error("Приложение заблокировано");
+    const { sealed, ...clear } = record;
+    return { ...JSON.parse(await CryptoService.decryptWithKey(sealed, this.dataKey)), ...clear };
+  }
+
+  /**
+   * Rewrites every sealable record under new settings: seals them with `key`, or stores them
+   * in plain form when sealing is turned off. Everything is read before anything is written.
+   */
+  static async reseal(enabled: boolean, key: CryptoKey | null): Promise<void> {
+    const storeNames = [...Object.keys(SEALED_STORES), ...Object.keys(SEALED_KEYS)];
+    const contents = await Promise.all(storeNames.map(async name => ({
+      name,
+      records: (await this.getAll(name)).filter(r => SEALED_STORES[name] || SEALED_KEYS[name].includes(r.id))
+    })));
+
+    this.setEncryption(enabled, key);
+    for (const { name, records } of contents) {
+      for (const record of records) await this.add(name, record);
+    }
+  }
+
+  // Tasks sealed before their query fields were kept readable are missing from the task indexes
+  static async resealStaleTasks(): Promise<void> {
+    if (!this.dataKey) return;
+    const records = await new Promise<any[]>((resolve, reject) => {
+      try {
+        const request = this.getStore(STORES.TASKS).getAll();
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      } catch (e) { reject(e); }
+    });
+    const stale = records.filter(r => typeof r.sealed === 'string' && r.updatedAt === undefined);
+    for (const record of stale) await this.add(STORES.TASKS, await this.unseal(record));
   }
 
   // --- Task Operations ---
   static async getTasks(): Promise<Task[]> {
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<any[]>((resolve, reject) => {
       try {
         const store = this.getStore(STORES.TASKS);
         const request = store.getAll();
@@ -109,13 +203,107 @@ export class StorageService {
         request.onerror = () => reject(request.error);
       } catch (e) { reject(e); }
     });
+    return Promise.all(records.map(r => this.unseal(r)));
+  }
+
+  /**
+   * Returns one page of tasks, walking the index of the most selective filter:
+   * board (+status) → tag → deadline (soonest first) → last update (newest first).
+   * The other filters are checked on the raw records, whose query fields stay readable when sealed.
+   */
+  static async queryTasks(query: TaskQuery = {}): Promise<TaskPage> {
+    const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+    const after: { key: IDBValidKey, id: string } | null = query.cursor ? JSON.parse(query.cursor) : null;
+    const { indexName, direction, range } = this.planTaskQuery(query, after?.key);
+    const forward = direction === 'next';
+
+    const matches = (record: any): boolean =>
+      (query.boardId === undefined || record.boardId === query.boardId) &&
+      (query.status === undefined || record.status === query.status) &&
+      (query.completed === undefined || !!record.completed === query.completed) &&
+      (query.dueBefore === undefined || (typeof record.deadline === 'number' && record.deadline < query.dueBefore)) &&
+      (query.tag === undefined || (Array.isArray(record.tags) && record.tags.includes(query.tag)));
+
+    const { records, last } = await new Promise<{ records: any[], last: IDBCursor | null }>((resolve, reject) => {
+      try {
+        const request = this.getStore(STORES.TASKS).index(indexName).openCursor(range, direction);
+        const records: any[] = [];
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return resolve({ records, last: null });
+
+          // The range starts at the cursor key; skip what the previous page already returned
+          if (after && indexedDB.cmp(cursor.key, after.key) === 0) {
+            const order = indexedDB.cmp(cursor.primaryKey, after.id) * (forward ? 1 : -1);
+            if (order < 0) return cursor.continuePrimaryKey(after.key, after.id);
+            if (order === 0) return cursor.continue();
+          }
+
+          if (matches(cursor.value)) {
+            records.push(cursor.value);
+            if (records.length >= limit) return resolve({ records, last: cursor });
+          }
+          cursor.continue();
+        };
+        request.onerror = () => reject(request.error);
+      } catch (e) { reject(e); }
+    });
+
+    return {
+      tasks: await Promise.all(records.map(r => this.unseal(r))),
+      cursor: last ? JSON.stringify({ key: last.key, id: last.primaryKey }) : undefined
+    };
+  }
+
+  private static planTaskQuery(query: TaskQuery, from?: IDBValidKey): { indexName: string, direction: IDBCursorDirection, range?: IDBKeyRange } {
+    let indexName = 'updated_idx';
+    let direction: IDBCursorDirection = 'prev';
+    let lower: IDBValidKey | undefined;
+    let upper: IDBValidKey | undefined;
+    let upperOpen = false;
+
+    if (query.boardId !== undefined) {
+      indexName = 'board_status_idx';
+      direction = 'next';
+      // Arrays sort after strings, so [boardId, []] closes the range of every status
+      lower = query.status !== undefined ? [query.boardId, query.status] : [query.boardId];
+      upper = query.status !== undefined ? [query.boardId, query.status] : [query.boardId, []];
+    } else if (query.tag !== undefined) {
+      indexName = 'tags_idx';
+      direction = 'next';
+      lower = upper = query.tag;
+    } else if (query.dueBefore !== undefined) {
+      indexName = 'deadline_idx';
+      direction = 'next';
+      upper = query.dueBefore;
+      upperOpen = true;
+    }
+
+    if (from !== undefined) {
+      if (direction === 'next') lower = from;
+      else { upper = from; upperOpen = false; }
+    }
+
+    let range: IDBKeyRange | undefined;
+    if (lower !== undefined && upper !== undefined) range = IDBKeyRange.bound(lower, upper, false, upperOpen);
+    else if (lower !== undefined) range = IDBKeyRange.lowerBound(lower);
+    else if (upper !== undefined) range = IDBKeyRange.upperBound(upper, upperOpen);
+    return { indexName, direction, range };
+  }
+
+  // Straight from IndexedDB, refreshing the cache: the record may have been written by the service worker
+  static async getTask(id: string): Promise<Task | null> {
+    const task = await this.getById(STORES.TASKS, id) as Task | null;
+    if (task) this.taskCache.put(task.id, task);
+    return task;
   }
 
   static async addTask(task: Task): Promise<void> {
     this.taskCache.put(task.id, task);
+    const record = await this.seal(STORES.TASKS, task);
     return new Promise((resolve, reject) => {
       const store = this.getStore(STORES.TASKS, 'readwrite');
-      const request = store.add(task);
+      const request = store.add(record);
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
@@ -125,34 +313,25 @@ export class StorageService {
     const cached = this.taskCache.get(id);
     if (cached) this.taskCache.put(id, { ...cached, ...updates });
 
-    return new Promise((resolve, reject) => {
-      const store = this.getStore(STORES.TASKS, 'readwrite');
-      const getRequest = store.get(id);
-
-      getRequest.onsuccess = () => {
-        const task = getRequest.result as Task;
-        if (!task) return reject("Task not found");
-        const updatedTask = { ...task, ...updates };
-        const putRequest = store.put(updatedTask);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      };
-      getRequest.onerror = () => reject(getRequest.error);
-    });
+    // Read and write in separate transactions: sealing is async and would let a shared one auto-commit
+    const task = await this.getById(STORES.TASKS, id) as Task;
+    if (!task) throw "Task not found";
+    return this.add(STORES.TASKS, { ...task, ...updates });
+  }
+
+  // Upsert, used when applying merged/imported data where the task may already exist
+  static async saveTask(task: Task): Promise<void> {
+    this.taskCache.put(task.id, task);
+    return this.add(STORES.TASKS, task);
   }
 
   static async deleteTask(id: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const store = this.getStore(STORES.TASKS, 'readwrite');
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return this.deleteWithTombstone('tasks', id);
   }
 
   // --- Note Operations ---
   static async getNotes(): Promise<Note[]> {
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<any[]>((resolve, reject) => {
       try {
         const store = this.getStore(STORES.NOTES);
         const request = store.getAll();
@@ -160,50 +339,89 @@ export class StorageService {
         request.onerror = () => reject(request.error);
       } catch (e) { reject(e); }
     });
+    return Promise.all(records.map(r => this.unseal(r)));
   }
 
   static async addNote(note: Note): Promise<void> {
+    const record = await this.seal(STORES.NOTES, note);
     return new Promise((resolve, reject) => {
       const store = this.getStore(STORES.NOTES, 'readwrite');
-      const request = store.add(note);
+      const request = store.add(record);
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
 
   static async updateNote(id: string, updates: Partial<Note>): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const store = this.getStore(STORES.NOTES, 'readwrite');
-      const getRequest = store.get(id);
-      getRequest.onsuccess = () => {
-        const note = getRequest.result as Note;
-        if (!note) return reject("Note not found");
-        const updatedNote = { ...note, ...updates };
-        const putRequest = store.put(updatedNote);
-        putRequest.onsuccess = () => resolve();
-        putRequest.onerror = () => reject(putRequest.error);
-      };
-      getRequest.onerror = () => reject(getRequest.error);
-    });
+    const note = await this.getById(STORES.NOTES, id) as Note;
+    if (!note) throw "Note not found";
+    return this.add(STORES.NOTES, { ...note, ...updates });
   }
 
+  static async saveNote(note: Note): Promise<void> { return this.add(STORES.NOTES, note); }
+
   static async deleteNote(id: string): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const store = this.getStore(STORES.NOTES, 'readwrite');
-      const request = store.delete(id);
-      request.onsuccess = () => resolve();
-      request.onerror = () => reject(request.error);
-    });
+    return this.deleteWithTombstone('notes', id);
   }
 
   // --- Other Stores (Goals, Automations, Templates, Memory, Columns, Boards, GlobalEvents) ---
   static async getGoals(): Promise<Goal[]> { return this.getAll(STORES.GOALS); }
   static async addGoal(goal: Goal): Promise<void> { return this.add(STORES.GOALS, goal); }
-  static async deleteGoal(id: string): Promise<void> { return this.delete(STORES.GOALS, id); }
+  static async deleteGoal(id: string): Promise<void> { return this.deleteWithTombstone('goals', id); }
   
   static async getAutomations(): Promise<AutomationRule[]> { return this.getAll(STORES.AUTOMATIONS); }
   static async addAutomation(rule: AutomationRule): Promise<void> { return this.add(STORES.AUTOMATIONS, rule); }
-  static async deleteAutomation(id: string): Promise<void> { return this.delete(STORES.AUTOMATIONS, id); }
+  static async deleteAutomation(id: string): Promise<void> { return this.deleteWithTombstone('automations', id); }
+
+  // Scheduler bookkeeping holds only ids and timestamps, so it is not sealed
+  static async getAutomationRuns(): Promise<AutomationRunMark[]> { return this.getAll(STORES.AUTOMATION_RUNS); }
+  static async saveAutomationRuns(marks: AutomationRunMark[]): Promise<void> {
+    for (const mark of marks) await this.add(STORES.AUTOMATION_RUNS, mark);
+  }
+  static async deleteAutomationRuns(ids: string[]): Promise<void> {
+    for (const id of ids) await this.delete(STORES.AUTOMATION_RUNS, id);
+  }
+
+  static async addAutomationLogEntry(entry: AutomationLogEntry): Promise<void> { return this.add(STORES.AUTOMATION_LOG, entry); }
+  static async getAutomationLog(): Promise<AutomationLogEntry[]> { return this.getAll(STORES.AUTOMATION_LOG); }
+  static async getAutomationLogForTask(taskId: string): Promise<AutomationLogEntry[]> {
+    const records = await new Promise<any[]>((resolve, reject) => {
+      try {
+        const request = this.getStore(STORES.AUTOMATION_LOG).index('task_idx').getAll(taskId);
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      } catch (e) { reject(e); }
+    });
+    return Promise.all(records.map(r => this.unseal(r)));
+  }
+
+  // Deletes the oldest entries beyond `limit` and all entries older than `before`
+  static async pruneAutomationLog(limit: number, before: number): Promise<void> {
+    if (!this.db) return;
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(STORES.AUTOMATION_LOG, 'readwrite');
+      const store = transaction.objectStore(STORES.AUTOMATION_LOG);
+      const countRequest = store.count();
+      countRequest.onsuccess = () => {
+        let excess = countRequest.result - limit;
+        const cursorRequest = store.index('timestamp_idx').openCursor();
+        cursorRequest.onsuccess = () => {
+          const cursor = cursorRequest.result;
+          if (!cursor || (excess <= 0 && cursor.value.timestamp >= before)) return;
+          cursor.delete();
+          excess--;
+          cursor.continue();
+        };
+      };
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  }
+
+  static async getWebhookDeliveries(): Promise<WebhookDelivery[]> { return this.getAll(STORES.WEBHOOK_DELIVERIES); }
+  static async saveWebhookDelivery(delivery: WebhookDelivery): Promise<void> { return this.add(STORES.WEBHOOK_DELIVERIES, delivery); }
+  static async deleteWebhookDelivery(id: string): Promise<void> { return this.delete(STORES.WEBHOOK_DELIVERIES, id); }
 
   static async getTemplates(): Promise<ProjectTemplate[]> { return this.getAll(STORES.TEMPLATES); }
   static async addTemplate(tpl: ProjectTemplate): Promise<void> { return this.add(STORES.TEMPLATES, tpl); }
@@ -211,37 +429,209 @@ export class StorageService {
   static async getColumns(): Promise<BoardColumn[]> { return this.getAll(STORES.COLUMNS); } // Legacy
   
   static async getBoards(): Promise<Board[]> { return this.getAll(STORES.BOARDS); }
-  static async saveBoard(board: Board): Promise<void> {
-    return new Promise((resolve, reject) => {
-        const store = this.getStore(STORES.BOARDS, 'readwrite');
-        const request = store.put(board);
-        request.onsuccess = () => resolve();
-        request.onerror = () => reject(request.error);
-    });
-  }
-  static async deleteBoard(id: string): Promise<void> { return this.delete(STORES.BOARDS, id); }
+  static async saveBoard(board: Board): Promise<void> { return this.add(STORES.BOARDS, board); }
+  static async deleteBoard(id: string): Promise<void> { return this.deleteWithTombstone('boards', id); }
 
   static async getGlobalEvents(): Promise<GlobalEvent[]> { return this.getAll(STORES.GLOBAL_EVENTS); }
   static async addGlobalEvent(event: GlobalEvent): Promise<void> { return this.add(STORES.GLOBAL_EVENTS, event); }
-  static async deleteGlobalEvent(id: string): Promise<void> { return this.delete(STORES.GLOBAL_EVENTS, id); }
+  static async deleteGlobalEvent(id: string): Promise<void> { return this.deleteWithTombstone('globalEvents', id); }
 
   static async getMemory(): Promise<CopilotMemory[]> { return this.getAll(STORES.MEMORY); }
   static async setMemory(key: string, value: any): Promise<void> {
+    const mem: CopilotMemory = { id: key, key, value, updatedAt: Date.now() };
+    return this.add(STORES.MEMORY, mem);
+  }
+  static async getMemoryItem(key: string): Promise<any> {
+    return (await this.getById(STORES.MEMORY, key))?.value || null;
+  }
+
+  // --- Settings (device-local copy, sync backend config must survive a reload) ---
+  static async getSettings(): Promise<AppSettings> {
+    return new Promise(resolve => {
+      try {
+        const request = this.getStore(STORES.SETTINGS).get(SETTINGS_KEY);
+        request.onsuccess = () => resolve(request.result?.value || {});
+        request.onerror = () => resolve({});
+      } catch (e) { resolve({}); }
+    });
+  }
+  static async saveSettings(settings: AppSettings): Promise<void> {
+    return this.add(STORES.SETTINGS, { id: SETTINGS_KEY, value: settings });
+  }
+
+  // Raw vault record, see SecretsService
+  static async getVault(): Promise<SecretsVault | null> {
+    return (await this.getById(STORES.SETTINGS, VAULT_KEY))?.value || null;
+  }
+  static async saveVault(vault: SecretsVault): Promise<void> {
+    return this.add(STORES.SETTINGS, { id: VAULT_KEY, value: vault });
+  }
+
+  // Must stay readable while locked, it holds the wrapped data key
+  static async getAppLock(): Promise<AppLockConfig | null> {
+    return (await this.getById(STORES.SETTINGS, APP_LOCK_KEY))?.value || null;
+  }
+  static async saveAppLock(config: AppLockConfig | null): Promise<void> {
+    return config ? this.add(STORES.SETTINGS, { id: APP_LOCK_KEY, value: config }) : this.delete(STORES.SETTINGS, APP_LOCK_KEY);
+  }
+
+  // Undo/redo stacks, see appStore.getHistory()
+  static async getHistory(): Promise<HistoryStacks | null> {
+    return (await this.getById(STORES.SETTINGS, HISTORY_KEY))?.value || null;
+  }
+  static async saveHistory(stacks: HistoryStacks): Promise<void> {
+    return this.add(STORES.SETTINGS, { id: HISTORY_KEY, value: stacks });
+  }
+
+  // --- Batched entity writes ---
+
+  /**
+   * Applies a batch of upserts and deletions in a single transaction. Deleting a synced entity
+   * leaves a tombstone; an upsert clears it (the entity exists again, e.g. after undo).
+   * Used by PersistenceService for store write-through.
+   */
+  static async applyWrites(writes: EntityWrite[]): Promise<void> {
+    if (writes.length === 0) return;
+    if (!this.db) throw new Error("Database not initialized");
+
+    // Sealing is async and would let the transaction auto-commit, so it happens up front
+    const records = await Promise.all(writes.map(w => w.value ? this.seal(ENTITY_STORES[w.entityType], w.value) : null));
+    const storeNames = Array.from(new Set([...writes.map(w => ENTITY_STORES[w.entityType]), STORES.TOMBSTONES]));
+    const now = Date.now();
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, 'readwrite');
+      const tombstones = transaction.objectStore(STORES.TOMBSTONES);
+      writes.forEach((write, i) => {
+        const store = transaction.objectStore(ENTITY_STORES[write.entityType]);
+        const tracked = write.entityType !== 'templates';
+        const tombstoneId = `${write.entityType}:${write.id}`;
+        if (records[i]) {
+          store.put(records[i]);
+          if (tracked) tombstones.delete(tombstoneId);
+        } else {
+          store.delete(write.id);
+          if (tracked) tombstones.put({ id: tombstoneId, entityType: write.entityType, entityId: write.id, deletedAt: now });
+        }
+      });
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+
+    writes.forEach(w => {
+      if (w.entityType === 'tasks' && w.value) this.taskCache.put(w.id, w.value);
+    });
+  }
+
+  // --- Tombstones ---
+  static async getTombstones(): Promise<Tombstone[]> { return this.getAll(STORES.TOMBSTONES); }
+
+  // Records tombstones coming from another device and removes the entities they point to,
+  // unless they were edited after the deletion (as SyncService.withoutDeleted keeps them)
+  static async applyTombstones(tombstones: Tombstone[]): Promise<void> {
+    for (const t of tombstones) {
+      await this.add(STORES.TOMBSTONES, t);
+      const stored = await this.getById(TOMBSTONE_STORES[t.entityType], t.entityId);
+      if (stored && (stored.updatedAt || 0) > t.deletedAt) continue;
+      await this.delete(TOMBSTONE_STORES[t.entityType], t.entityId);
+    }
+  }
+
+  static async compactTombstones(retentionMs: number = TOMBSTONE_RETENTION_MS): Promise<Tombstone[]> {
+    const cutoff = Date.now() - retentionMs;
+    const tombstones = await this.getTombstones();
+    const expired = tombstones.filter(t => t.deletedAt < cutoff);
+    for (const t of expired) {
+      await this.delete(STORES.TOMBSTONES, t.id);
+    }
+    return tombstones.filter(t => t.deletedAt >= cutoff);
+  }
+
+  // Wipes the user entities an import re-populates, without leaving tombstones; used before an overwriting import
+  static async clearEntities(): Promise<void> {
+    for (const storeName of [STORES.TASKS, STORES.NOTES, STORES.GOALS, STORES.AUTOMATIONS, STORES.BOARDS, STORES.GLOBAL_EVENTS, STORES.TOMBSTONES]) {
+      await new Promise<void>((resolve, reject) => {
+        const request = this.getStore(storeName, 'readwrite').clear();
+        request.onsuccess = () => resolve();
+        request.onerror = () => reject(request.error);
+      });
+    }
+    this.taskCache = new LRUCache<string, Task>(100);
+  }
+
+  private static async deleteWithTombstone(entityType: TombstoneEntityType, id: string): Promise<void> {
+    await this.delete(TOMBSTONE_STORES[entityType], id);
+    const tombstone: Tombstone = { id: `${entityType}:${id}`, entityType, entityId: id, deletedAt: Date.now() };
+    await this.add(STORES.TOMBSTONES, tombstone);
+  }
+
+  // --- Operation Log (append-only, pruned once ops are pushed) ---
+  static async appendOps(ops: Omit<SyncOp, 'seq'>[]): Promise<void> {
+    if (!this.db || ops.length === 0) return;
+    const records = await Promise.all(ops.map(op => this.seal(STORES.OPLOG, op)));
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(STORES.OPLOG, 'readwrite');
+      const store = transaction.objectStore(STORES.OPLOG);
+      records.forEach(record => store.add(record));
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => reject(transaction.error);
+    });
+  }
+
+  static async getOpsAfter(seq: number): Promise<SyncOp[]> {
+    const records = await new Promise<any[]>((resolve, reject) => {
+      try {
+        const request = this.getStore(STORES.OPLOG).getAll(IDBKeyRange.lowerBound(seq, true));
+        request.onsuccess = () => resolve(request.result || []);
+        request.onerror = () => reject(request.error);
+      } catch (e) { reject(e); }
+    });
+    return Promise.all(records.map(r => this.unseal(r)));
+  }
+
+  static async getLastOpSeq(): Promise<number> {
+    return new Promise(resolve => {
+      try {
+        const request = this.getStore(STORES.OPLOG).openCursor(null, 'prev');
+        request.onsuccess = () => resolve(request.result ? Number(request.result.key) : 0);
+        request.onerror = () => resolve(0);
+      } catch (e) { resolve(0); }
+    });
+  }
+
+  static async deleteOpsUpTo(seq: number): Promise<void> {
     return new Promise((resolve, reject) => {
-      const store = this.getStore(STORES.MEMORY, 'readwrite');
-      const mem: CopilotMemory = { id: key, key, value, updatedAt: Date.now() };
-      const request = store.put(mem);
+      const request = this.getStore(STORES.OPLOG, 'readwrite').delete(IDBKeyRange.upperBound(seq));
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
   }
-  static async getMemoryItem(key: string): Promise<any> {
-     const store = this.getStore(STORES.MEMORY);
-     const request = store.get(key);
-     return new Promise(resolve => {
-         request.onsuccess = () => resolve(request.result?.value || null);
-         request.onerror = () => resolve(null);
-     });
+
+  // --- Sync State (three-way merge) ---
+  // The base is the state as it was after the last successful sync, i.e. the
+  // common ancestor of the local and cloud copies on the next sync.
+  static async getSyncBase(): Promise<AppState | null> {
+    return this.getSyncStateItem(SYNC_BASE_KEY);
+  }
+  static async saveSyncBase(data: AppState): Promise<void> {
+    return this.setSyncStateItem(SYNC_BASE_KEY, data);
+  }
+
+  static async getSyncConflicts(): Promise<SyncConflict[]> {
+    return (await this.getSyncStateItem(SYNC_CONFLICTS_KEY)) || [];
+  }
+  static async saveSyncConflicts(conflicts: SyncConflict[]): Promise<void> {
+    return this.setSyncStateItem(SYNC_CONFLICTS_KEY, conflicts);
+  }
+
+  // Generic key/value access to the sync store (also holds backend state such as folder handles)
+  static async setSyncStateItem(key: string, value: any): Promise<void> {
+    return this.add(STORES.SYNC_STATE, { id: key, value, updatedAt: Date.now() });
+  }
+
+  static async getSyncStateItem(key: string): Promise<any> {
+    return (await this.getById(STORES.SYNC_STATE, key))?.value || null;
   }
 
   // --- Backup Operations ---
@@ -250,7 +640,7 @@ export class StorageService {
       id: crypto.randomUUID(),
       timestamp: Date.now(),
       label,
-      data
+      data: SecretsService.redactState(data)
     };
     await this.add(STORES.BACKUPS, backup);
     
@@ -270,17 +660,12 @@ export class StorageService {
   }
 
   static async restoreBackup(id: string): Promise<BackupSnapshot | null> {
-    return new Promise((resolve) => {
-      const store = this.getStore(STORES.BACKUPS);
-      const req = store.get(id);
-      req.onsuccess = () => resolve(req.result || null);
-      req.onerror = () => resolve(null);
-    });
+    return this.getById(STORES.BACKUPS, id);
   }
 
   // --- Generic Helpers ---
   private static async getAll(storeName: string): Promise<any[]> {
-    return new Promise((resolve, reject) => {
+    const records = await new Promise<any[]>(resolve => {
       try {
         const store = this.getStore(storeName);
         const request = store.getAll();
@@ -288,11 +673,23 @@ export class StorageService {
         request.onerror = () => resolve([]);
       } catch (e) { resolve([]); }
     });
+    return Promise.all(records.map(r => this.unseal(r)));
+  }
+  private static async getById(storeName: string, id: string): Promise<any> {
+    const record = await new Promise<any>(resolve => {
+      try {
+        const request = this.getStore(storeName).get(id);
+        request.onsuccess = () => resolve(request.result || null);
+        request.onerror = () => resolve(null);
+      } catch (e) { resolve(null); }
+    });
+    return this.unseal(record);
   }
   private static async add(storeName: string, item: any): Promise<void> {
+    const record = await this.seal(storeName, item);
     return new Promise((resolve, reject) => {
       const store = this.getStore(storeName, 'readwrite');
-      const request = store.put(item); // Use PUT to support both add and update based on keyPath
+      const request = store.put(record); // Use PUT to support both add and update based on keyPath
       request.onsuccess = () => resolve();
       request.onerror = () => reject(request.error);
     });
@@ -0,0 +1,422 @@
+
+import { SyncProviderId } from '../types';
+import { StorageService } from './storageService';
+
+export interface SyncFileMetadata {
+  name: string;
+  updatedAt: number; // timestamp
+  size?: number;
+}
+
+// A remote (or local) place where sync files live. Implementations only move strings around,
+// encryption and merging stay in SyncService.
+export interface SyncBackend {
+  readonly id: SyncProviderId;
+  list(): Promise<SyncFileMetadata[]>;
+  read(name: string): Promise<string | null>; // null if the file does not exist
+  write(name: string, content: string): Promise<void>;
+  remove(name: string): Promise<void>; // no-op if the file does not exist
+  metadata(name: string): Promise<SyncFileMetadata | null>;
+}
+
+const ensureOk = async (res: Response, action: string): Promise<Response> => {
+  if (!res.ok) throw new Error(`${action} failed: ${res.status} ${res.statusText}`);
+  return res;
+};
+
+// --- GOOGLE DRIVE (App Data Folder) ---
+
+export class GoogleDriveBackend implements SyncBackend {
+  readonly id = 'google_drive' as const;
+
+  constructor(private token: string) {}
+
+  private get headers() {
+    return { Authorization: `Bearer ${this.token}` };
+  }
+
+  private async findFile(name: string): Promise<{ id: string, modifiedTime: string, size?: string } | null> {
+    const q = encodeURIComponent(`name = '${name}' and 'appDataFolder' in parents and trashed = false`);
+    const res = await fetch(`https://www.googleapis.com/drive/v3/files?q=${q}&spaces=appDataFolder&fields=files(id, modifiedTime, size)`, {
+      headers: this.headers
+    });
+    if (!res.ok) return null;
+    const data = await res.json();
+    return data.files && data.files.length > 0 ? data.files[0] : null;
+  }
+
+  async list(): Promise<SyncFileMetadata[]> {
+    const res = await ensureOk(await fetch('https://www.googleapis.com/drive/v3/files?spaces=appDataFolder&fields=files(name, modifiedTime, size)', {
+      headers: this.headers
+    }), 'Google Drive list');
+    const data = await res.json();
+    return (data.files || []).map((f: any) => ({ name: f.name, updatedAt: new Date(f.modifiedTime).getTime(), size: Number(f.size) || undefined }));
+  }
+
+  async read(name: string): Promise<string | null> {
+    const file = await this.findFile(name);
+    if (!file) return null;
+    const res = await ensureOk(await fetch(`https://www.googleapis.com/drive/v3/files/${file.id}?alt=media`, {
+      headers: this.headers
+    }), 'Google Drive read');
+    return res.text();
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    const file = await this.findFile(name);
+    const blob = new Blob([content], { type: 'application/json' });
+
+    if (file) {
+      await ensureOk(await fetch(`https://www.googleapis.com/upload/drive/v3/files/${file.id}?uploadType=media`, {
+        method: 'PATCH',
+        headers: this.headers,
+        body: blob
+      }), 'Google Drive write');
+    } else {
+      const metadata = { name, parents: ['appDataFolder'] };
+      const form = new FormData();
+      form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
+      form.append('file', blob);
+
+      await ensureOk(await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
+        method: 'POST',
+        headers: this.headers,
+        body: form
+      }), 'Google Drive create');
+    }
+  }
+
+  async remove(name: string): Promise<void> {
+    const file = await this.findFile(name);
+    if (!file) return;
+    await ensureOk(await fetch(`https://www.googleapis.com/drive/v3/files/${file.id}`, {
+      method: 'DELETE',
+      headers: this.headers
+    }), 'Google Drive delete');
+  }
+
+  async metadata(name: string): Promise<SyncFileMetadata | null> {
+    const file = await this.findFile(name);
+    return file ? { name, updatedAt: new Date(file.modifiedTime).getTime(), size: Number(file.size) || undefined } : null;
+  }
+}
+
+// --- GITHUB GIST ---
+
+const GIST_DESCRIPTION = 'TaskAssist Backup';
+
+export class GistBackend implements SyncBackend {
+  readonly id = 'github_gist' as const;
+
+  constructor(private token: string, private gistId?: string) {}
+
+  private get headers() {
+    return { Authorization: `token ${this.token}` };
+  }
+
+  private async getGist(): Promise<any> {
+    if (this.gistId) {
+      const res = await fetch(`https://api.github.com/gists/${this.gistId}`, { headers: this.headers });
+      if (res.ok) return await res.json();
+    }
+
+    // Find gist by description if ID not provided
+    const res = await ensureOk(await fetch(`https://api.github.com/gists`, { headers: this.headers }), 'Gist lookup');
+    const gists = await res.json();
+    const gist = gists.find((g: any) => g.description === GIST_DESCRIPTION);
+    if (!gist) return null;
+
+    // The list endpoint omits file contents
+    this.gistId = gist.id;
+    const full = await fetch(`https://api.github.com/gists/${gist.id}`, { headers: this.headers });
+    return full.ok ? await full.json() : gist;
+  }
+
+  async list(): Promise<SyncFileMetadata[]> {
+    const gist = await this.getGist();
+    if (!gist) return [];
+    const updatedAt = new Date(gist.updated_at).getTime();
+    return Object.values(gist.files || {}).map((f: any) => ({ name: f.filename, updatedAt, size: f.size }));
+  }
+
+  async read(name: string): Promise<string | null> {
+    const gist = await this.getGist();
+    const file = gist?.files?.[name];
+    if (!file) return null;
+
+    // Gist truncates large content, fetch raw if truncated
+    if (file.truncated) {
+      const rawRes = await ensureOk(await fetch(file.raw_url), 'Gist raw read');
+      return rawRes.text();
+    }
+    return file.content;
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    const existing = await this.getGist();
+    const body = {
+      description: GIST_DESCRIPTION,
+      public: false,
+      files: { [name]: { content } }
+    };
+
+    const res = await ensureOk(await fetch(existing ? `https://api.github.com/gists/${existing.id}` : 'https://api.github.com/gists', {
+      method: existing ? 'PATCH' : 'POST',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    }), 'Gist write');
+
+    if (!existing) this.gistId = (await res.json()).id;
+  }
+
+  async remove(name: string): Promise<void> {
+    const gist = await this.getGist();
+    if (!gist?.files?.[name]) return;
+    // A null file entry deletes it from the gist
+    await ensureOk(await fetch(`https://api.github.com/gists/${gist.id}`, {
+      method: 'PATCH',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: JSON.stringify({ files: { [name]: null } })
+    }), 'Gist delete');
+  }
+
+  async metadata(name: string): Promise<SyncFileMetadata | null> {
+    const gist = await this.getGist();
+    const file = gist?.files?.[name];
+    return file ? { name, updatedAt: new Date(gist.updated_at).getTime(), size: file.size } : null;
+  }
+}
+
+// --- YANDEX DISK (app folder) ---
+
+export class YandexDiskBackend implements SyncBackend {
+  readonly id = 'yandex_disk' as const;
+  private static readonly API = 'https://cloud-api.yandex.net/v1/disk/resources';
+
+  constructor(private token: string) {}
+
+  private get headers() {
+    return { Authorization: `OAuth ${this.token}` };
+  }
+
+  private path(name: string) {
+    return encodeURIComponent(`app:/${name}`);
+  }
+
+  async list(): Promise<SyncFileMetadata[]> {
+    const res = await fetch(`${YandexDiskBackend.API}?path=${this.path('')}&limit=100`, { headers: this.headers });
+    if (res.status === 404) return [];
+    await ensureOk(res, 'Yandex Disk list');
+    const data = await res.json();
+    return (data._embedded?.items || [])
+      .filter((i: any) => i.type === 'file')
+      .map((i: any) => ({ name: i.name, updatedAt: new Date(i.modified).getTime(), size: i.size }));
+  }
+
+  async read(name: string): Promise<string | null> {
+    const linkRes = await fetch(`${YandexDiskBackend.API}/download?path=${this.path(name)}`, { headers: this.headers });
+    if (linkRes.status === 404) return null;
+    const { href } = await (await ensureOk(linkRes, 'Yandex Disk download link')).json();
+    const res = await ensureOk(await fetch(href), 'Yandex Disk read');
+    return res.text();
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    const linkRes = await ensureOk(await fetch(`${YandexDiskBackend.API}/upload?path=${this.path(name)}&overwrite=true`, {
+      headers: this.headers
+    }), 'Yandex Disk upload link');
+    const { href } = await linkRes.json();
+    await ensureOk(await fetch(href, { method: 'PUT', body: content }), 'Yandex Disk write');
+  }
+
+  async remove(name: string): Promise<void> {
+    const res = await fetch(`${YandexDiskBackend.API}?path=${this.path(name)}&permanently=true`, {
+      method: 'DELETE',
+      headers: this.headers
+    });
+    if (res.status !== 404) await ensureOk(res, 'Yandex Disk delete');
+  }
+
+  async metadata(name: string): Promise<SyncFileMetadata | null> {
+    const res = await fetch(`${YandexDiskBackend.API}?path=${this.path(name)}`, { headers: this.headers });
+    if (res.status === 404) return null;
+    const data = await (await ensureOk(res, 'Yandex Disk metadata')).json();
+    return { name, updatedAt: new Date(data.modified).getTime(), size: data.size };
+  }
+}
+
+// --- WEBDAV (Nextcloud, ownCloud, any RFC 4918 server) ---
+
+export class WebDavBackend implements SyncBackend {
+  readonly id = 'webdav' as const;
+  private baseUrl: string;
+
+  // url: folder to keep files in, e.g. https://cloud.example.com/remote.php/dav/files/<user>/TaskAssist/
+  constructor(url: string, private username: string, private password: string) {
+    this.baseUrl = url.endsWith('/') ? url : `${url}/`;
+  }
+
+  private get headers(): Record<string, string> {
+    return { Authorization: `Basic ${btoa(unescape(encodeURIComponent(`${this.username}:${this.password}`)))}` };
+  }
+
+  private async propfind(url: string, depth: '0' | '1'): Promise<Response> {
+    return fetch(url, {
+      method: 'PROPFIND',
+      headers: { ...this.headers, Depth: depth, 'Content-Type': 'application/xml' },
+      body: '<?xml version="1.0"?><d:propfind xmlns:d="DAV:"><d:prop><d:getlastmodified/><d:getcontentlength/><d:resourcetype/></d:prop></d:propfind>'
+    });
+  }
+
+  private parseMultistatus(xml: string): (SyncFileMetadata & { isCollection: boolean })[] {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    return Array.from(doc.getElementsByTagNameNS('DAV:', 'response')).map(response => {
+      const text = (tag: string) => response.getElementsByTagNameNS('DAV:', tag)[0]?.textContent || '';
+      const href = decodeURIComponent(text('href')).replace(/\/$/, '');
+      return {
+        name: href.substring(href.lastIndexOf('/') + 1),
+        updatedAt: new Date(text('getlastmodified')).getTime() || 0,
+        size: Number(text('getcontentlength')) || undefined,
+        isCollection: response.getElementsByTagNameNS('DAV:', 'collection').length > 0
+      };
+    });
+  }
+
+  async list(): Promise<SyncFileMetadata[]> {
+    const res = await this.propfind(this.baseUrl, '1');
+    if (res.status === 404) return [];
+    const entries = this.parseMultistatus(await (await ensureOk(res, 'WebDAV list')).text());
+    return entries.filter(e => !e.isCollection).map(({ isCollection, ...meta }) => meta);
+  }
+
+  async read(name: string): Promise<string | null> {
+    const res = await fetch(this.baseUrl + encodeURIComponent(name), { headers: this.headers });
+    if (res.status === 404) return null;
+    return (await ensureOk(res, 'WebDAV read')).text();
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    const put = () => fetch(this.baseUrl + encodeURIComponent(name), {
+      method: 'PUT',
+      headers: { ...this.headers, 'Content-Type': 'application/json' },
+      body: content
+    });
+
+    let res = await put();
+    // Folder does not exist yet (409 Conflict per RFC 4918, some servers answer 404)
+    if (res.status === 409 || res.status === 404) {
+      await fetch(this.baseUrl, { method: 'MKCOL', headers: this.headers });
+      res = await put();
+    }
+    await ensureOk(res, 'WebDAV write');
+  }
+
+  async remove(name: string): Promise<void> {
+    const res = await fetch(this.baseUrl + encodeURIComponent(name), { method: 'DELETE', headers: this.headers });
+    if (res.status !== 404) await ensureOk(res, 'WebDAV delete');
+  }
+
+  async metadata(name: string): Promise<SyncFileMetadata | null> {
+    const res = await this.propfind(this.baseUrl + encodeURIComponent(name), '0');
+    if (res.status === 404) return null;
+    const [entry] = this.parseMultistatus(await (await ensureOk(res, 'WebDAV metadata')).text());
+    return entry ? { name, updatedAt: entry.updatedAt, size: entry.size } : null;
+  }
+}
+
+// --- LOCAL FOLDER (File System Access API) ---
+// Useful with a folder that another tool (Syncthing, Dropbox client, NAS mount) keeps in sync.
+
+const LOCAL_FOLDER_HANDLE_KEY = 'local_folder_handle';
+const FOLDER_PERMISSION = { mode: 'readwrite' };
+
+export class LocalFolderBackend implements SyncBackend {
+  readonly id = 'local_folder' as const;
+
+  static isSupported(): boolean {
+    return 'showDirectoryPicker' in window;
+  }
+
+  // Must be called from a user gesture (button click)
+  static async pickFolder(): Promise<string> {
+    const handle = await (window as any).showDirectoryPicker({ id: 'taskassist-sync', mode: 'readwrite' });
+    await StorageService.setSyncStateItem(LOCAL_FOLDER_HANDLE_KEY, handle);
+    return handle.name;
+  }
+
+  static async getFolderName(): Promise<string | null> {
+    const handle = await StorageService.getSyncStateItem(LOCAL_FOLDER_HANDLE_KEY);
+    return handle?.name || null;
+  }
+
+  // Permissions granted to a stored handle do not survive a reload
+  static async hasPermission(): Promise<boolean> {
+    const handle = await StorageService.getSyncStateItem(LOCAL_FOLDER_HANDLE_KEY);
+    return !!handle && (await handle.queryPermission(FOLDER_PERMISSION)) === 'granted';
+  }
+
+  // Must be called from a user gesture (button click)
+  static async requestPermission(): Promise<boolean> {
+    const handle = await StorageService.getSyncStateItem(LOCAL_FOLDER_HANDLE_KEY);
+    return !!handle && (await handle.requestPermission(FOLDER_PERMISSION)) === 'granted';
+  }
+
+  // Sync runs in the background, where the browser refuses permission prompts: it only checks them
+  private async getHandle(): Promise<any> {
+    const handle = await StorageService.getSyncStateItem(LOCAL_FOLDER_HANDLE_KEY);
+    if (!handle) throw new Error('Папка для синхронизации не выбрана');
+    if ((await handle.queryPermission(FOLDER_PERMISSION)) !== 'granted') {
+      throw new Error('Нужен доступ к папке синхронизации: разрешите его в настройках');
+    }
+    return handle;
+  }
+
+  private async getFile(name: string): Promise<File | null> {
+    const dir = await this.getHandle();
+    try {
+      const fileHandle = await dir.getFileHandle(name);
+      return await fileHandle.getFile();
+    } catch (e: any) {
+      if (e?.name === 'NotFoundError') return null;
+      throw e;
+    }
+  }
+
+  async list(): Promise<SyncFileMetadata[]> {
+    const dir = await this.getHandle();
+    const files: SyncFileMetadata[] = [];
+    for await (const entry of dir.values()) {
+      if (entry.kind !== 'file') continue;
+      const file: File = await entry.getFile();
+      files.push({ name: entry.name, updatedAt: file.lastModified, size: file.size });
+    }
+    return files;
+  }
+
+  async read(name: string): Promise<string | null> {
+    const file = await this.getFile(name);
+    return file ? file.text() : null;
+  }
+
+  async write(name: string, content: string): Promise<void> {
+    const dir = await this.getHandle();
+    const fileHandle = await dir.getFileHandle(name, { create: true });
+    const writable = await fileHandle.createWritable();
+    await writable.write(content);
+    await writable.close();
+  }
+
+  async remove(name: string): Promise<void> {
+    const dir = await this.getHandle();
+    try {
+      await dir.removeEntry(name);
+    } catch (e: any) {
+      if (e?.name !== 'NotFoundError') throw e;
+    }
+  }
+
+  async metadata(name: string): Promise<SyncFileMetadata | null> {
+    const file = await this.getFile(name);
+    return file ? { name, updatedAt: file.lastModified, size: file.size } : null;
+  }
+}
@@ -1,14 +1,194 @@
 
-import { AppState, AuthProvider } from '../types';
-import { StorageService } from './storageService';
+import { AppState, BackupSnapshot, Board, BoardColumn, SyncConflict, SyncEntityType, SyncOp, SyncResult, TimeLog, Tombstone, TombstoneEntityType, SyncProviderId } from '../types';
+import { StorageService, TOMBSTONE_RETENTION_MS } from './storageService';
 import { CryptoService } from './cryptoService';
+import { AuthService } from './authService';
+import { OpLogService } from './opLogService';
+import { SecretsService } from './secretsService';
+import { SyncBackend, SyncFileMetadata, GoogleDriveBackend, GistBackend, YandexDiskBackend, WebDavBackend, LocalFolderBackend } from './syncBackends';
 
-const BACKUP_FILE_NAME = 'task_assistant_data.json';
+// Full-state file written by clients before the op log; still read when no checkpoint exists
+const LEGACY_FILE_NAME = 'task_assistant_data.json';
+
+// Cloud layout: one checkpoint (a BackupSnapshot named after its creation time) plus
+// op files `task_assistant_ops_<deviceId>_<fromSeq>_<toSeq>.json` appended by each device since then.
+const CHECKPOINT_PATTERN = /^task_assistant_checkpoint_(\d+)\.json$/;
+const OP_FILE_PATTERN = /^task_assistant_ops_([\w-]+)_(\d+)_(\d+)\.json$/;
+
+// A new checkpoint is written once the op files pile up or the last one gets old
+const MAX_OP_FILES = 50;
+const CHECKPOINT_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+const CURSORS_KEY = 'delta_cursors';
+
+interface DeltaCursors {
+  checkpoint: string | null; // Name of the checkpoint this device last built on
+  applied: Record<string, number>; // Last op seq pulled, per remote device
+  pushed: number; // Last own op seq uploaded
+  checkpointAt: number;
+}
+
+interface OpFile {
+  name: string;
+  deviceId: string;
+  fromSeq: number;
+  toSeq: number;
+}
 
 export class SyncService {
   
   // --- CORE SYNC LOGIC: MERGING & ENCRYPTION ---
 
+  // Bookkeeping fields that never produce conflicts
+  private static readonly IGNORED_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+  // Array fields merged as sets: additions and removals from both sides are kept
+  private static readonly SET_FIELDS = new Set(['tags', 'dependencies']);
+
+  private static isEqual(a: any, b: any): boolean {
+    if (a === b) return true;
+    if (a === null || b === null || typeof a !== 'object' || typeof b !== 'object') {
+      // Treat missing and undefined/null optional fields as the same value
+      return (a === undefined || a === null) && (b === undefined || b === null);
+    }
+    if (Array.isArray(a) !== Array.isArray(b)) return false;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!this.isEqual(a[key], b[key])) return false;
+    }
+    return true;
+  }
+
+  private static mergeSets(base: any[] = [], local: any[] = [], cloud: any[] = []): any[] {
+    const removed = new Set([
+      ...base.filter(v => !local.includes(v)),
+      ...base.filter(v => !cloud.includes(v))
+    ]);
+    const result: any[] = [];
+    [...local, ...cloud].forEach(v => {
+      if (!removed.has(v) && !result.includes(v)) result.push(v);
+    });
+    return result;
+  }
+
+  private static mergeTimeLogs(local: TimeLog[] = [], cloud: TimeLog[] = []): TimeLog[] {
+    // Logs are keyed by start; a finished log wins over the still-running copy
+    const byStart = new Map<number, TimeLog>();
+    [...local, ...cloud].forEach(log => {
+      const existing = byStart.get(log.start);
+      if (!existing || (!existing.end && log.end)) byStart.set(log.start, log);
+    });
+    return Array.from(byStart.values()).sort((a, b) => a.start - b.start);
+  }
+
+  // Columns are merged by id so a column added on one device and renamed on another both survive.
+  // A column missing on one side is dropped only if it existed in the base (i.e. it was deleted).
+  private static mergeColumns(base: BoardColumn[] = [], local: BoardColumn[] = [], cloud: BoardColumn[] = [], localNewer: boolean): BoardColumn[] {
+    const baseMap = new Map(base.map(c => [c.id, c]));
+    const localMap = new Map(local.map(c => [c.id, c]));
+    const cloudMap = new Map(cloud.map(c => [c.id, c]));
+    const ids = Array.from(new Set([...local.map(c => c.id), ...cloud.map(c => c.id)]));
+    const result: BoardColumn[] = [];
+
+    ids.forEach(id => {
+      const b = baseMap.get(id), l = localMap.get(id), c = cloudMap.get(id);
+      if (l && c) {
+        const pick = <K extends 'title' | 'order'>(field: K): BoardColumn[K] =>
+          this.isEqual(l[field], c[field]) || this.isEqual(b?.[field], c[field]) ? l[field]
+            : this.isEqual(b?.[field], l[field]) ? c[field]
+            : (localNewer ? l[field] : c[field]);
+        result.push({ ...l, title: pick('title'), order: pick('order') });
+      } else if (!b) {
+        result.push((l || c)!); // Added on one side
+      }
+    });
+
+    return result.sort((a, b) => a.order - b.order);
+  }
+
+  private static mergeEntity(
+    entityType: SyncEntityType,
+    base: any,
+    local: any,
+    cloud: any,
+    conflicts: SyncConflict[]
+  ): any {
+    const localNewer = (local.updatedAt || 0) >= (cloud.updatedAt || 0);
+    const merged: any = { id: local.id };
+    const fields = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(cloud)]);
+
+    fields.forEach(field => {
+      if (field === 'id') return;
+      const b = base[field], l = local[field], c = cloud[field];
+      let value: any;
+
+      if (this.IGNORED_FIELDS.has(field)) {
+        value = field === 'createdAt' ? (l ?? c) : Math.max(l || 0, c || 0);
+      } else if (this.isEqual(l, c) || this.isEqual(b, c)) {
+        value = l; // Same on both sides, or only changed locally
+      } else if (this.isEqual(b, l)) {
+        value = c; // Only changed in the cloud
+      } else if (this.SET_FIELDS.has(field) && Array.isArray(l) && Array.isArray(c)) {
+        value = this.mergeSets(b, l, c);
+      } else if (field === 'timeLogs') {
+        value = this.mergeTimeLogs(l, c);
+      } else if (entityType === 'boards' && field === 'columns') {
+        value = this.mergeColumns(b, l, c, localNewer);
+      } else {
+        // Both sides changed the field: keep the newer one for now, let the user decide
+        value = localNewer ? l : c;
+        conflicts.push({
+          id: `${entityType}:${local.id}:${field}`,
+          entityType,
+          entityId: local.id,
+          entityTitle: local.title || cloud.title || local.id,
+          field,
+          baseValue: b,
+          localValue: l,
+          cloudValue: c,
+          detectedAt: Date.now()
+        });
+      }
+
+      if (value !== undefined) merged[field] = value;
+    });
+
+    return merged;
+  }
+
+  // Three-way merge: uses the base snapshot (last synced state) as the common ancestor.
+  // Without a base version of an item we fall back to Last Updated Wins.
+  private static mergeEntitiesThreeWay(
+    entityType: SyncEntityType,
+    local: any[],
+    cloud: any[],
+    base: any[] | undefined,
+    conflicts: SyncConflict[]
+  ): any[] {
+    const baseMap = new Map((base || []).map(item => [item.id, item]));
+    const mergedMap = new Map();
+
+    local.forEach(item => mergedMap.set(item.id, item));
+
+    cloud.forEach(cloudItem => {
+      const localItem = mergedMap.get(cloudItem.id);
+      const baseItem = baseMap.get(cloudItem.id);
+      if (!localItem) {
+        mergedMap.set(cloudItem.id, cloudItem);
+      } else if (baseItem) {
+        mergedMap.set(cloudItem.id, this.mergeEntity(entityType, baseItem, localItem, cloudItem, conflicts));
+      } else {
+        const cloudNewer = (cloudItem.updatedAt || 0) > (localItem.updatedAt || 0);
+        const winner = cloudNewer ? cloudItem : localItem;
+        // No common ancestor for boards (e.g. the default board on both devices): keep columns of both
+        mergedMap.set(cloudItem.id, entityType === 'boards'
+          ? { ...winner, columns: this.mergeColumns([], localItem.columns, cloudItem.columns, !cloudNewer) }
+          : winner);
+      }
+    });
+
+    return Array.from(mergedMap.values());
+  }
+
   private static mergeEntities(local: any[], cloud: any[]): any[] {
     const mergedMap = new Map();
     
@@ -32,192 +212,415 @@ export class SyncService {
     return Array.from(mergedMap.values());
   }
 
-  private static mergeStates(local: AppState, cloud: AppState): AppState {
+  // Union of both sides, newest deletion wins; expired tombstones are compacted away
+  private static mergeTombstones(local: Tombstone[] = [], cloud: Tombstone[] = []): Tombstone[] {
+    const cutoff = Date.now() - TOMBSTONE_RETENTION_MS;
+    const byId = new Map<string, Tombstone>();
+    [...local, ...cloud].forEach(t => {
+      const existing = byId.get(t.id);
+      if (!existing || t.deletedAt > existing.deletedAt) byId.set(t.id, t);
+    });
+    return Array.from(byId.values()).filter(t => t.deletedAt >= cutoff);
+  }
+
+  // Drops entities deleted on any device, unless they were edited after the deletion
+  private static withoutDeleted<T extends { id: string }>(items: T[], entityType: TombstoneEntityType, tombstones: Tombstone[]): T[] {
+    const deletedAt = new Map(tombstones.filter(t => t.entityType === entityType).map(t => [t.entityId, t.deletedAt]));
+    return items.filter(item => {
+      const deleted = deletedAt.get(item.id);
+      return deleted === undefined || ((item as any).updatedAt || 0) > deleted;
+    });
+  }
+
+  // Tasks synced by older clients may point to boards that never reached this device
+  static reattachOrphanedTasks<T extends { boardId?: string }>(tasks: T[], boards: Board[]): T[] {
+    const fallbackBoardId = boards[0]?.id;
+    if (!fallbackBoardId) return tasks;
+    const boardIds = new Set(boards.map(b => b.id));
+    return tasks.map(t => t.boardId && boardIds.has(t.boardId) ? t : { ...t, boardId: fallbackBoardId });
+  }
+
+  private static mergeStates(local: AppState, cloud: AppState, base?: AppState | null): AppState {
+    const conflicts: SyncConflict[] = [];
+    const tombstones = this.mergeTombstones(local.tombstones, cloud.tombstones);
+
+    const tasks = this.withoutDeleted(
+      this.mergeEntitiesThreeWay('tasks', local.tasks, cloud.tasks || [], base?.tasks, conflicts), 'tasks', tombstones);
+    const notes = this.withoutDeleted(
+      this.mergeEntitiesThreeWay('notes', local.notes, cloud.notes || [], base?.notes, conflicts), 'notes', tombstones);
+    const boards = this.withoutDeleted(
+      this.mergeEntitiesThreeWay('boards', local.boards, cloud.boards || [], base?.boards, conflicts), 'boards', tombstones);
+
+    // New conflicts replace older ones recorded for the same field
+    const newIds = new Set(conflicts.map(c => c.id));
+    const syncConflicts = [
+      ...(local.syncConflicts || []).filter(c => !newIds.has(c.id)),
+      ...conflicts
+    ];
+
     return {
       ...local,
-      tasks: this.mergeEntities(local.tasks, cloud.tasks),
-      notes: this.mergeEntities(local.notes, cloud.notes),
-      goals: this.mergeEntities(local.goals, cloud.goals),
-      automations: this.mergeEntities(local.automations, cloud.automations),
-      templates: this.mergeEntities(local.templates, cloud.templates),
-      memory: this.mergeEntities(local.memory, cloud.memory),
+      tasks: this.reattachOrphanedTasks(tasks, boards),
+      notes,
+      boards,
+      goals: this.withoutDeleted(this.mergeEntities(local.goals, cloud.goals || []), 'goals', tombstones),
+      automations: this.withoutDeleted(this.mergeEntities(local.automations, cloud.automations || []), 'automations', tombstones),
+      globalEvents: this.withoutDeleted(this.mergeEntities(local.globalEvents || [], cloud.globalEvents || []), 'globalEvents', tombstones),
+      templates: this.mergeEntities(local.templates, cloud.templates || []),
+      memory: this.mergeEntities(local.memory, cloud.memory || []),
       // Settings: usually cloud wins if newer, but simpler to keep local for some prefs. 
-      // Let's assume cloud settings overwrite local if user explicitly syncs
-      settings: { ...local.settings, ...cloud.settings },
+      // Let's assume cloud settings overwrite local if user explicitly syncs.
+      // Payloads of older clients may still carry secrets inline, those never override the local vault.
+      settings: { ...local.settings, ...SecretsService.stripSettings(cloud.settings || {}) },
+      // Conflicts on entities deleted elsewhere are moot
+      syncConflicts: syncConflicts.filter(c => ({ tasks, notes, boards })[c.entityType].some((e: any) => e.id === c.entityId)),
+      tombstones,
       lastSynced: Date.now()
     };
   }
 
-  private static async prepareUploadData(state: AppState): Promise<string> {
-    const json = JSON.stringify(state);
-    if (state.settings.encryptionPassword) {
-      return await CryptoService.encrypt(json, state.settings.encryptionPassword);
+  // Strip device-local fields and secrets before the state leaves the device
+  private static toPayload(state: AppState): AppState {
+    const { syncConflicts, isLoading, ...payload } = SecretsService.redactState(state);
+    return { ...payload, isLoading: false };
+  }
+
+  private static async encode(payload: any, password?: string): Promise<string> {
+    const json = JSON.stringify(payload);
+    if (password) {
+      return await CryptoService.encrypt(json, password);
     }
     return json;
   }
 
-  private static async parseDownloadData(content: string, password?: string): Promise<AppState> {
-    try {
-      // Try parsing as JSON first
-      return JSON.parse(content);
-    } catch (e) {
-      // Not JSON, maybe encrypted?
-      if (password) {
-        try {
-          const decrypted = await CryptoService.decrypt(content, password);
-          return JSON.parse(decrypted);
-        } catch (decErr) {
-          throw new Error("Не удалось расшифровать данные. Неверный пароль?");
-        }
+  private static async decode<T>(content: string, password?: string): Promise<T> {
+    if (!CryptoService.isEncrypted(content)) {
+      try {
+        return JSON.parse(content);
+      } catch (e) {
+        throw new Error("Формат данных не распознан.");
       }
-      throw new Error("Формат данных не распознан или зашифрован.");
+    }
+    if (!password) {
+      throw new Error("Данные в облаке зашифрованы. Укажите пароль шифрования.");
+    }
+    try {
+      return JSON.parse(await CryptoService.decrypt(content, password));
+    } catch (decErr) {
+      throw new Error("Не удалось расшифровать данные. Неверный пароль?");
     }
   }
 
-  // --- GITHUB GIST IMPLEMENTATION ---
+  // --- BACKENDS ---
+
+  /**
+   * Picks the storage backend for this state. An explicit `settings.syncProvider` wins;
+   * otherwise the storage that belongs to the login provider is used (Google → Drive, Yandex → Disk).
+   * Returns null when sync is not configured, or while the secrets vault is locked: without the
+   * encryption password the cloud copy would be written in plaintext.
+   */
+  static resolveBackend(state: AppState): SyncBackend | null {
+    if (state.secretsLocked) return null;
+    const { settings, user } = state;
+    const secrets = state.secrets || {};
+    const token = AuthService.getToken();
+    const loginProvider = user?.provider || AuthService.getProvider();
+    const providerId: SyncProviderId | undefined = settings.syncProvider || (
+      loginProvider === 'google' ? 'google_drive' :
+      loginProvider === 'yandex' ? 'yandex_disk' :
+      loginProvider === 'github' ? 'github_gist' : undefined
+    );
 
-  private static async getGist(token: string, gistId?: string): Promise<any> {
-    if (gistId) {
-      const res = await fetch(`https://api.github.com/gists/${gistId}`, {
-        headers: { Authorization: `token ${token}` }
-      });
-      if (res.ok) return await res.json();
+    switch (providerId) {
+      case 'google_drive':
+        return token && loginProvider === 'google' ? new GoogleDriveBackend(token) : null;
+      case 'yandex_disk':
+        return token && loginProvider === 'yandex' ? new YandexDiskBackend(token) : null;
+      case 'github_gist': {
+        const gistToken = secrets.githubToken || (loginProvider === 'github' ? token : null);
+        return gistToken ? new GistBackend(gistToken, settings.githubGistId) : null;
+      }
+      case 'webdav':
+        return settings.webdavUrl ? new WebDavBackend(settings.webdavUrl, settings.webdavUsername || '', secrets.webdavPassword || '') : null;
+      case 'local_folder':
+        return LocalFolderBackend.isSupported() ? new LocalFolderBackend() : null;
+      default:
+        return null;
     }
-    
-    // Find gist by description if ID not provided
-    const res = await fetch(`https://api.github.com/gists`, {
-       headers: { Authorization: `token ${token}` }
-    });
-    const gists = await res.json();
-    return gists.find((g: any) => g.description === 'TaskAssist Backup');
   }
 
-  private static async uploadGitHub(state: AppState, token: string, gistId?: string): Promise<void> {
-    const content = await this.prepareUploadData(state);
-    
-    const body = {
-      description: 'TaskAssist Backup',
-      public: false,
-      files: {
-        [BACKUP_FILE_NAME]: { content }
-      }
-    };
+  // --- CHECKPOINTS & OP FILES ---
 
-    let url = 'https://api.github.com/gists';
-    let method = 'POST';
+  private static parseOpFiles(files: SyncFileMetadata[]): OpFile[] {
+    return files.flatMap(f => {
+      const match = f.name.match(OP_FILE_PATTERN);
+      return match ? [{ name: f.name, deviceId: match[1], fromSeq: Number(match[2]), toSeq: Number(match[3]) }] : [];
+    });
+  }
 
-    // If we have an ID or find one, update it
-    const existing = await this.getGist(token, gistId);
-    if (existing) {
-      url = `https://api.github.com/gists/${existing.id}`;
-      method = 'PATCH';
-    }
+  private static latestCheckpoint(files: SyncFileMetadata[]): string | null {
+    const names = files.map(f => f.name).filter(n => CHECKPOINT_PATTERN.test(n));
+    return names.sort((a, b) => Number(a.match(CHECKPOINT_PATTERN)![1]) - Number(b.match(CHECKPOINT_PATTERN)![1])).pop() || null;
+  }
 
-    await fetch(url, {
-      method,
-      headers: { Authorization: `token ${token}`, 'Content-Type': 'application/json' },
-      body: JSON.stringify(body)
-    });
+  private static async getCursors(): Promise<DeltaCursors> {
+    const stored = await StorageService.getSyncStateItem(CURSORS_KEY);
+    return stored || { checkpoint: null, applied: {}, pushed: 0, checkpointAt: 0 };
   }
 
-  private static async downloadGitHub(token: string, gistId?: string, password?: string): Promise<{ data: AppState | null, updatedAt: number }> {
-    const gist = await this.getGist(token, gistId);
-    if (!gist || !gist.files[BACKUP_FILE_NAME]) return { data: null, updatedAt: 0 };
+  // Own ops may already be pruned locally, the autoincrement keeps growing past the pushed cursor
+  private static async getOwnSeq(cursors: DeltaCursors): Promise<number> {
+    return Math.max(cursors.pushed, await StorageService.getLastOpSeq());
+  }
 
-    const rawContent = gist.files[BACKUP_FILE_NAME].content;
-    // Gist sometimes truncates content in the list view, fetch raw if truncated
-    let content = rawContent;
-    if (gist.truncated) {
-        const rawRes = await fetch(gist.files[BACKUP_FILE_NAME].raw_url);
-        content = await rawRes.text();
+  // Op files not yet folded into the checkpoint, from other devices as well as our own
+  private static async readOps(
+    backend: SyncBackend,
+    opFiles: OpFile[],
+    after: Record<string, number>,
+    password?: string
+  ): Promise<SyncOp[]> {
+    const pending = opFiles.filter(f => f.toSeq > (after[f.deviceId] || 0));
+    const ops: SyncOp[] = [];
+    for (const file of pending) {
+      const content = await backend.read(file.name);
+      if (content === null) continue; // Compacted by another device meanwhile
+      const fileOps = await this.decode<SyncOp[]>(content, password);
+      ops.push(...fileOps.filter(op => op.seq > (after[op.deviceId] || 0)));
     }
+    return ops;
+  }
 
-    const data = await this.parseDownloadData(content, password);
-    return { data, updatedAt: new Date(gist.updated_at).getTime() };
+  private static advanceCursors(cursors: Record<string, number>, ops: SyncOp[]): Record<string, number> {
+    const next = { ...cursors };
+    ops.forEach(op => { next[op.deviceId] = Math.max(next[op.deviceId] || 0, op.seq); });
+    return next;
   }
 
-  // --- GOOGLE DRIVE IMPLEMENTATION (Existing + Updated) ---
-  // ... (Code reused from previous, but logic wrapped in prepareUploadData/parseDownloadData)
-  
-  private static async findGoogleFileId(token: string): Promise<string | null> {
-    const q = encodeURIComponent(`name = '${BACKUP_FILE_NAME}' and 'appDataFolder' in parents and trashed = false`);
-    const response = await fetch(`https://www.googleapis.com/drive/v3/files?q=${q}&spaces=appDataFolder&fields=files(id, modifiedTime)`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
-    if (!response.ok) return null;
-    const data = await response.json();
-    return data.files && data.files.length > 0 ? data.files[0].id : null;
-  }
-
-  private static async uploadGoogle(state: AppState, token: string): Promise<void> {
-    const fileId = await this.findGoogleFileId(token);
-    const content = await this.prepareUploadData(state);
-    const blob = new Blob([content], { type: 'application/json' });
-
-    if (fileId) {
-      await fetch(`https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=media`, {
-        method: 'PATCH',
-        headers: { Authorization: `Bearer ${token}` },
-        body: blob
-      });
-    } else {
-      const metadata = { name: BACKUP_FILE_NAME, parents: ['appDataFolder'] };
-      const form = new FormData();
-      form.append('metadata', new Blob([JSON.stringify(metadata)], { type: 'application/json' }));
-      form.append('file', blob);
-
-      await fetch('https://www.googleapis.com/upload/drive/v3/files?uploadType=multipart', {
-        method: 'POST',
-        headers: { Authorization: `Bearer ${token}` },
-        body: form
-      });
+  // Checkpoint + every op file on top of it: the current cloud state
+  private static async readCloudState(
+    backend: SyncBackend,
+    files: SyncFileMetadata[],
+    password?: string
+  ): Promise<{ data: AppState | null, cursors: Record<string, number>, updatedAt: number }> {
+    const checkpointName = this.latestCheckpoint(files);
+    const name = checkpointName || LEGACY_FILE_NAME;
+    const content = await backend.read(name);
+    if (content === null) return { data: null, cursors: {}, updatedAt: 0 };
+
+    const updatedAt = files.find(f => f.name === name)?.updatedAt || 0;
+    if (!checkpointName) {
+      return { data: await this.decode<AppState>(content, password), cursors: {}, updatedAt };
     }
+
+    const checkpoint = await this.decode<BackupSnapshot>(content, password);
+    const cursors = checkpoint.cursors || {};
+    const ops = await this.readOps(backend, this.parseOpFiles(files), cursors, password);
+    const data = OpLogService.applyOps(checkpoint.data, ops, []).state;
+    return { data, cursors: this.advanceCursors(cursors, ops), updatedAt };
   }
 
-  private static async downloadGoogle(token: string, password?: string): Promise<{ data: AppState | null, updatedAt: number }> {
-    const fileId = await this.findGoogleFileId(token);
-    if (!fileId) return { data: null, updatedAt: 0 };
+  /**
+   * Replaces everything in the cloud with a checkpoint of `state`. Op files and older checkpoints
+   * are removed only after the new checkpoint is written, so a failed upload loses nothing.
+   */
+  private static async writeCheckpoint(
+    state: AppState,
+    backend: SyncBackend,
+    files: SyncFileMetadata[],
+    applied: Record<string, number>
+  ): Promise<void> {
+    const deviceId = await OpLogService.getDeviceId();
+    const cursors = await this.getCursors();
+    const ownSeq = await this.getOwnSeq(cursors);
+    const timestamp = Date.now();
+    const name = `task_assistant_checkpoint_${timestamp}.json`;
 
-    const metaResp = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?fields=modifiedTime`, {
-        headers: { Authorization: `Bearer ${token}` }
-    });
-    const meta = await metaResp.json();
-    const updatedAt = new Date(meta.modifiedTime).getTime();
+    const snapshot: BackupSnapshot = {
+      id: `checkpoint_${timestamp}`,
+      timestamp,
+      label: 'Sync Checkpoint',
+      data: this.toPayload(state),
+      cursors: { ...applied, [deviceId]: ownSeq }
+    };
+    await backend.write(name, await this.encode(snapshot, state.secrets?.encryptionPassword));
 
-    const contentResp = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-      headers: { Authorization: `Bearer ${token}` }
-    });
-    const text = await contentResp.text();
-    const data = await this.parseDownloadData(text, password);
-    
-    return { data, updatedAt };
+    const obsolete = files.filter(f => f.name !== name && (f.name === LEGACY_FILE_NAME || CHECKPOINT_PATTERN.test(f.name)));
+    const covered = this.parseOpFiles(files).filter(f => f.toSeq <= (snapshot.cursors![f.deviceId] || 0));
+    for (const file of [...obsolete, ...covered]) {
+      await backend.remove(file.name);
+    }
+
+    await StorageService.setSyncStateItem(CURSORS_KEY, {
+      checkpoint: name,
+      applied: snapshot.cursors,
+      pushed: ownSeq,
+      checkpointAt: timestamp
+    } as DeltaCursors);
+    await StorageService.deleteOpsUpTo(ownSeq);
+    // Cloud now matches this state: it is the common ancestor for the next merge
+    await StorageService.saveSyncBase(snapshot.data);
   }
 
   // --- PUBLIC API ---
 
-  static async upload(state: AppState, token: string, provider: AuthProvider): Promise<void> {
+  // Overwrites the cloud copy with local state
+  static async upload(state: AppState, backend: SyncBackend): Promise<void> {
     // 1. Auto-Backup before sync
     await StorageService.createBackup(state, 'Pre-Sync Backup');
 
     // 2. Upload
-    if (provider === 'google') {
-      await this.uploadGoogle(state, token);
-    } else if (provider === 'github') {
-      await this.uploadGitHub(state, token, state.settings.githubGistId);
+    await OpLogService.flush();
+    const files = await backend.list();
+    const { applied } = await this.getCursors();
+    await this.writeCheckpoint(state, backend, files, applied);
+  }
+
+  static async download(backend: SyncBackend, password?: string): Promise<{ data: AppState | null, updatedAt: number }> {
+    const files = await backend.list();
+    const { data, updatedAt } = await this.readCloudState(backend, files, password);
+    return { data, updatedAt };
+  }
+
+  /**
+   * Regular sync. Normally only op files are exchanged: ops of other devices are replayed onto
+   * local state and our own unpushed ops are uploaded as one new file. When another device wrote a
+   * newer checkpoint, or it is time for a new one, falls back to a full three-way merge.
+   * When `hasRemoteChanges` is set the caller must apply `data` locally before the next sync,
+   * otherwise the saved base would no longer match local state.
+   */
+  static async sync(local: AppState, backend: SyncBackend): Promise<SyncResult> {
+    if (local.secretsLocked) return { success: false, error: 'Хранилище секретов заблокировано' };
+    try {
+      await OpLogService.flush();
+      const files = await backend.list();
+      const cursors = await this.getCursors();
+      const opFiles = this.parseOpFiles(files);
+
+      const needsCheckpoint = !cursors.checkpoint
+        || this.latestCheckpoint(files) !== cursors.checkpoint
+        || opFiles.length > MAX_OP_FILES
+        || Date.now() - cursors.checkpointAt > CHECKPOINT_INTERVAL_MS;
+
+      const result = needsCheckpoint
+        ? await this.fullSync(local, backend, files)
+        : await this.deltaSync(local, backend, opFiles, cursors);
+      await StorageService.saveSyncConflicts(result.data!.syncConflicts || []);
+      return result;
+    } catch (e: any) {
+      console.error("Sync failed", e);
+      return { success: false, error: e?.message || String(e) };
     }
-    // Yandex impl omitted for brevity but follows same pattern
   }
 
-  static async download(token: string, provider: AuthProvider, password?: string): Promise<{ data: AppState | null, updatedAt: number }> {
-    if (provider === 'google') {
-      return this.downloadGoogle(token, password);
-    } else if (provider === 'github') {
-      return this.downloadGitHub(token, undefined, password);
+  private static async fullSync(local: AppState, backend: SyncBackend, files: SyncFileMetadata[]): Promise<SyncResult> {
+    await StorageService.createBackup(local, 'Pre-Sync Backup');
+
+    const password = local.secrets?.encryptionPassword;
+    const cloud = await this.readCloudState(backend, files, password);
+    const base = await StorageService.getSyncBase();
+
+    const merged = cloud.data ? this.mergeStates(local, cloud.data, base) : { ...local, lastSynced: Date.now() };
+    await this.writeCheckpoint(merged, backend, files, cloud.cursors);
+
+    return {
+      success: true,
+      data: merged,
+      timestamp: merged.lastSynced,
+      conflicts: merged.syncConflicts,
+      hasRemoteChanges: !this.isEqual(this.toPayload(local), { ...this.toPayload(merged), lastSynced: local.lastSynced })
+    };
+  }
+
+  private static async deltaSync(local: AppState, backend: SyncBackend, opFiles: OpFile[], cursors: DeltaCursors): Promise<SyncResult> {
+    const deviceId = await OpLogService.getDeviceId();
+    const password = local.secrets?.encryptionPassword;
+
+    // 1. Pull ops of other devices
+    const remoteOps = await this.readOps(backend, opFiles.filter(f => f.deviceId !== deviceId), cursors.applied, password);
+    const pendingOps = await StorageService.getOpsAfter(cursors.pushed);
+    const { state, applied, conflicts } = OpLogService.applyOps(local, remoteOps, pendingOps);
+
+    // 2. Push own ops as one file
+    let pushed = cursors.pushed;
+    if (pendingOps.length > 0) {
+      const fromSeq = pendingOps[0].seq;
+      const toSeq = pendingOps[pendingOps.length - 1].seq;
+      await backend.write(`task_assistant_ops_${deviceId}_${fromSeq}_${toSeq}.json`, await this.encode(pendingOps, password));
+      pushed = toSeq;
     }
-    return { data: null, updatedAt: 0 };
+
+    await StorageService.setSyncStateItem(CURSORS_KEY, {
+      ...cursors,
+      applied: this.advanceCursors(cursors.applied, remoteOps),
+      pushed
+    } as DeltaCursors);
+    await StorageService.deleteOpsUpTo(pushed);
+
+    const newIds = new Set(conflicts.map(c => c.id));
+    const merged: AppState = {
+      ...state,
+      syncConflicts: [...(local.syncConflicts || []).filter(c => !newIds.has(c.id)), ...conflicts],
+      lastSynced: Date.now()
+    };
+    await StorageService.saveSyncBase(this.toPayload(merged));
+
+    return {
+      success: true,
+      data: merged,
+      timestamp: merged.lastSynced,
+      conflicts: merged.syncConflicts,
+      hasRemoteChanges: applied > 0
+    };
   }
 
-  static merge(local: AppState, cloud: AppState): AppState {
-    return this.mergeStates(local, cloud);
+  /**
+   * Re-encrypts every sync file with a new password (or stores them as plain JSON when it is empty).
+   * Must finish before the new password is saved locally; on failure the old one stays valid.
+   * Other devices need the new password entered before their next sync.
+   */
+  static async rotateKey(backend: SyncBackend, oldPassword: string | undefined, newPassword: string | undefined): Promise<number> {
+    await OpLogService.flush();
+    const files = (await backend.list()).filter(f =>
+      f.name === LEGACY_FILE_NAME || CHECKPOINT_PATTERN.test(f.name) || OP_FILE_PATTERN.test(f.name));
+
+    // Decrypt everything first so a wrong old password fails before anything is overwritten
+    const decoded: { name: string, payload: any }[] = [];
+    for (const file of files) {
+      const content = await backend.read(file.name);
+      if (content !== null) decoded.push({ name: file.name, payload: await this.decode(content, oldPassword) });
+    }
+    for (const { name, payload } of decoded) {
+      await backend.write(name, await this.encode(payload, newPassword));
+    }
+    return decoded.length;
+  }
+
+  static merge(local: AppState, cloud: AppState, base?: AppState | null): AppState {
+    return this.mergeStates(local, cloud, base);
+  }
+
+  /**
+   * Applies the user's choice for a recorded conflict.
+   * Returns the patched entity (to be persisted by the caller) and the remaining conflicts.
+   */
+  static resolveConflict(
+    state: AppState,
+    conflictId: string,
+    side: 'local' | 'cloud'
+  ): { entityType: SyncEntityType, entity: any, syncConflicts: SyncConflict[] } | null {
+    const conflict = (state.syncConflicts || []).find(c => c.id === conflictId);
+    if (!conflict) return null;
+
+    const syncConflicts = (state.syncConflicts || []).filter(c => c.id !== conflictId);
+    const current = (state[conflict.entityType] as any[]).find(e => e.id === conflict.entityId);
+    if (!current) return { entityType: conflict.entityType, entity: null, syncConflicts };
+
+    const entity = {
+      ...current,
+      [conflict.field]: side === 'local' ? conflict.localValue : conflict.cloudValue,
+      updatedAt: Date.now()
+    };
+    return { entityType: conflict.entityType, entity, syncConflicts };
   }
 }
@@ -0,0 +1,172 @@
+
+import { AppState } from '../types';
+import { appStore, UpdateMeta } from '../lib/store';
+
+// Entity collections relayed entity by entity; tombstones too, so the leader never uploads a deleted entity again
+const RELAYED_COLLECTIONS = ['tasks', 'notes', 'boards', 'goals', 'automations', 'globalEvents', 'templates', 'tombstones'] as const;
+// Replaced as a whole. activeBoardId, user and secrets stay per tab.
+const RELAYED_FIELDS = ['settings', 'lastSynced', 'syncConflicts'] as const;
+
+type RelayedCollection = typeof RELAYED_COLLECTIONS[number];
+type RelayedField = typeof RELAYED_FIELDS[number];
+
+const CHANNEL_NAME = 'task_assist_tabs';
+const LEADER_LOCK = 'task_assist_leader';
+
+// Upsert when `value` is set, removal otherwise
+export interface TabChange {
+  collection: RelayedCollection;
+  id: string;
+  value?: any;
+}
+
+interface TabMessage {
+  type: 'changes';
+  changes: TabChange[];
+  fields: Partial<Pick<AppState, RelayedField>>;
+}
+
+type LeaderListener = () => void;
+
+/**
+ * Keeps the stores of all open tabs (including the widget) in step. Every store update that is not
+ * a plain read of IndexedDB is diffed and posted on a BroadcastChannel; other tabs apply it as a
+ * 'load' update, so only the originating tab persists, logs and records it for undo.
+ *
+ * One tab is elected leader through a Web Lock held until the tab closes. Background work that
+ * must run once per device (cloud sync, recurring tasks, reminders) checks isLeader().
+ */
+export class TabSyncService {
+  private static channel: BroadcastChannel | null = null;
+  private static unsubscribe: (() => void) | null = null;
+  private static leader = false;
+  private static leaderListeners = new Set<LeaderListener>();
+
+  // Resolves once this tab knows whether it is the leader
+  static async init(): Promise<void> {
+    if (this.unsubscribe) return;
+
+    if ('BroadcastChannel' in window) {
+      this.channel = new BroadcastChannel(CHANNEL_NAME);
+      this.channel.onmessage = (event: MessageEvent) => this.receive(event.data as TabMessage);
+      this.unsubscribe = appStore.subscribe((state, prev, meta) => this.relay(state, prev, meta));
+    }
+
+    await this.electLeader();
+  }
+
+  static isLeader(): boolean {
+    return this.leader;
+  }
+
+  // Called when this tab takes over from a leader that was closed
+  static onBecomeLeader(listener: LeaderListener): () => void {
+    this.leaderListeners.add(listener);
+    return () => this.leaderListeners.delete(listener);
+  }
+
+  // Unchanged entities keep their identity in the store, so a reference check skips them
+  static diff(prev: AppState, next: AppState): TabChange[] {
+    const changes: TabChange[] = [];
+    RELAYED_COLLECTIONS.forEach(collection => {
+      const before = (prev[collection] || []) as any[];
+      const after = (next[collection] || []) as any[];
+      if (before === after) return;
+
+      const beforeMap = new Map(before.map(e => [e.id, e]));
+      const afterIds = new Set<string>();
+      after.forEach(entity => {
+        afterIds.add(entity.id);
+        if (beforeMap.get(entity.id) !== entity) changes.push({ collection, id: entity.id, value: entity });
+      });
+      before.forEach(entity => {
+        if (!afterIds.has(entity.id)) changes.push({ collection, id: entity.id });
+      });
+    });
+    return changes;
+  }
+
+  static applyChanges(state: AppState, changes: TabChange[]): Partial<AppState> {
+    const update: Partial<AppState> = {};
+    RELAYED_COLLECTIONS.forEach(collection => {
+      const relevant = changes.filter(c => c.collection === collection);
+      if (relevant.length === 0) return;
+
+      const items = [...((state[collection] || []) as any[])];
+      const indexById = new Map(items.map((e, i) => [e.id, i]));
+      const removed = new Set<string>();
+      relevant.forEach(change => {
+        const index = indexById.get(change.id);
+        if (change.value === undefined) {
+          removed.add(change.id);
+        } else if (index === undefined) {
+          indexById.set(change.id, items.length);
+          items.push(change.value);
+          removed.delete(change.id);
+        } else {
+          items[index] = change.value;
+          removed.delete(change.id);
+        }
+      });
+      (update as any)[collection] = removed.size > 0 ? items.filter(e => !removed.has(e.id)) : items;
+    });
+    return update;
+  }
+
+  // Local edits and data written straight to IndexedDB (imports, sync) are relayed; plain reads are not,
+  // which also keeps applied messages from echoing back
+  private static relay(state: AppState, prev: AppState, meta: UpdateMeta) {
+    if (!this.channel || prev.isLoading || state.isLoading) return;
+    if (meta.source !== 'local' && !meta.persisted) return;
+
+    const fields: TabMessage['fields'] = {};
+    RELAYED_FIELDS.forEach(field => {
+      if (state[field] !== prev[field]) (fields as any)[field] = state[field];
+    });
+    const changes = this.diff(prev, state);
+    if (changes.length === 0 && Object.keys(fields).length === 0) return;
+
+    try {
+      this.channel.postMessage({ type: 'changes', changes, fields } as TabMessage);
+    } catch (e) {
+      console.error('[TabSync] Failed to relay changes', e);
+    }
+  }
+
+  private static receive(msg: TabMessage) {
+    // A locked or still loading tab reads everything from IndexedDB once it is ready
+    if (!msg || msg.type !== 'changes' || appStore.getState().isLoading) return;
+    appStore.setState(prev => ({ ...this.applyChanges(prev, msg.changes), ...msg.fields }), { source: 'load' });
+  }
+
+  private static async electLeader(): Promise<void> {
+    if (!navigator.locks) {
+      this.leader = true; // Without Web Locks every tab behaves as before
+      return;
+    }
+
+    await new Promise<void>(resolve => {
+      navigator.locks.request(LEADER_LOCK, { ifAvailable: true }, lock => {
+        if (lock) {
+          const held = this.holdLeadership();
+          resolve();
+          return held;
+        }
+        resolve();
+        // Queue up; granted when the current leader closes
+        navigator.locks.request(LEADER_LOCK, () => {
+          const held = this.holdLeadership();
+          this.leaderListeners.forEach(l => l());
+          return held;
+        });
+        return undefined;
+      });
+    });
+  }
+
+  // The returned promise never settles, so the lock is held for the lifetime of the tab
+  private static holdLeadership(): Promise<void> {
+    this.leader = true;
+    return new Promise<void>(() => {});
+  }
+}
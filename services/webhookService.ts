@@ -0,0 +1,198 @@
+
+import { AutomationRule, RuleAction, Task, WebhookDelivery } from '../types';
+import { appStore } from '../lib/store';
+import { CryptoService } from './cryptoService';
+import { StorageService } from './storageService';
+
+// The service worker drains the same queue (service-worker.js); keep the lock, tag and retry policy in step
+const DELIVERY_LOCK = 'task_assist_webhooks';
+const BACKGROUND_SYNC_TAG = 'webhook-delivery';
+export const WEBHOOK_MAX_ATTEMPTS = 10;
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+const RETRY_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+
+const DELIVERY_INTERVAL_MS = 30 * 1000;
+// Finished deliveries are kept as long as the automation log that refers to them
+const DELIVERY_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'X-TaskAssist-Signature';
+export const TIMESTAMP_HEADER = 'X-TaskAssist-Timestamp';
+
+export interface TemplateScope {
+  task: Task;
+  rule: AutomationRule;
+  now: number;
+}
+
+type DeliveryListener = () => void;
+
+/**
+ * Webhook calls of automation rules go through a queue in IndexedDB. A call is rendered and signed
+ * when the rule runs, so it can be sent later without the task or the signing secret: by any tab,
+ * or by the service worker once the device is back online (Background Sync). Calls queued while the
+ * secrets vault is locked wait for signHeld(), since their secret cannot be looked up yet.
+ * Failed attempts are retried with exponential backoff; a Web Lock keeps two senders apart.
+ */
+export class WebhookService {
+  private static timer: number | null = null;
+  private static listeners = new Set<DeliveryListener>();
+
+  static init() {
+    if (this.timer !== null) return;
+    this.timer = window.setInterval(() => this.deliver(), DELIVERY_INTERVAL_MS);
+    window.addEventListener('online', () => this.deliver(true));
+    this.signHeld();
+    this.deliver();
+  }
+
+  // Renders, signs and queues one call; resolves with the delivery id
+  static async enqueue(action: RuleAction, task: Task, rule: AutomationRule): Promise<string> {
+    const config = action.webhook || {};
+    const now = Date.now();
+    const headers: Record<string, string> = { ...config.headers };
+    if (!this.contentType(headers)) headers['Content-Type'] = 'application/json';
+    const json = this.contentType(headers).includes('json');
+    const body = config.bodyTemplate
+      ? this.renderTemplate(config.bodyTemplate, { task, rule, now }, json)
+      : JSON.stringify(task);
+
+    const { secrets, secretsLocked } = appStore.getState();
+    const secret = secrets?.webhookSecrets?.[action.value];
+    const signedHeaders = secret ? await this.sign(headers, body, secret, now) : headers;
+
+    const delivery: WebhookDelivery = {
+      id: crypto.randomUUID(),
+      url: action.value,
+      headers: signedHeaders,
+      body,
+      createdAt: now,
+      state: secretsLocked ? 'awaiting_secret' : 'pending',
+      attempts: 0,
+      nextAttemptAt: now
+    };
+    await StorageService.saveWebhookDelivery(delivery);
+    this.deliver();
+    return delivery.id;
+  }
+
+  // Signs the calls queued while the secrets vault was locked and releases them; call after unlocking
+  static async signHeld(): Promise<void> {
+    const { secrets, secretsLocked } = appStore.getState();
+    if (secretsLocked) return;
+    const now = Date.now();
+    const held = (await StorageService.getWebhookDeliveries()).filter(d => d.state === 'awaiting_secret');
+    for (const delivery of held) {
+      const secret = secrets?.webhookSecrets?.[delivery.url];
+      const headers = secret ? await this.sign(delivery.headers, delivery.body, secret, now) : delivery.headers;
+      await StorageService.saveWebhookDelivery({ ...delivery, headers, state: 'pending', nextAttemptAt: now });
+    }
+    if (held.length > 0) this.deliver();
+  }
+
+  /**
+   * Replaces {{path}} placeholders with values of the task, the rule or `now` (ISO time):
+   * {{task.title}}, {{task.tags}}, {{rule.name}}. Arrays are joined with commas, unknown paths are empty.
+   * With `json` the values are escaped for use inside JSON strings.
+   */
+  static renderTemplate(template: string, scope: TemplateScope, json: boolean): string {
+    const values: Record<string, any> = { task: scope.task, rule: scope.rule, now: new Date(scope.now).toISOString() };
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+      const value = path.split('.').reduce((obj, key) => (obj == null ? undefined : obj[key]), values as any);
+      const text = value == null ? '' : Array.isArray(value) ? value.join(', ') : typeof value === 'object' ? JSON.stringify(value) : String(value);
+      return json ? JSON.stringify(text).slice(1, -1) : text;
+    });
+  }
+
+  // 30 s, 1 min, 2 min… up to 6 h between attempts
+  static retryDelay(attempts: number): number {
+    return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_DELAY_MS);
+  }
+
+  // Sends one attempt and returns the delivery with its new state.
+  // Timeouts, rate limits and server errors are retried; other client errors are final.
+  static async attempt(delivery: WebhookDelivery, now: number = Date.now()): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    let status: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(delivery.url, { method: 'POST', headers: delivery.headers, body: delivery.body });
+      status = response.status;
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    }
+
+    const retryable = status === undefined || status === 408 || status === 429 || status >= 500;
+    const state = status !== undefined && status < 400 ? 'delivered'
+      : retryable && attempts < WEBHOOK_MAX_ATTEMPTS ? 'pending'
+      : 'failed';
+    return { ...delivery, attempts, status, error, state, nextAttemptAt: state === 'pending' ? now + this.retryDelay(attempts) : delivery.nextAttemptAt };
+  }
+
+  // Sends what is due; runs in one tab (or the service worker) at a time.
+  // `reconnected` also retries calls that failed for lack of a network, regardless of their backoff.
+  static async deliver(reconnected: boolean = false): Promise<void> {
+    try {
+      if (navigator.locks) await navigator.locks.request(DELIVERY_LOCK, () => this.drain(reconnected));
+      else await this.drain(reconnected);
+    } catch (e) {
+      console.error('[Webhook] Delivery failed', e);
+    }
+  }
+
+  static async getDeliveries(): Promise<WebhookDelivery[]> {
+    return StorageService.getWebhookDeliveries();
+  }
+
+  // Called after every pass over the queue in this tab
+  static subscribe(listener: DeliveryListener): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private static async drain(reconnected: boolean): Promise<void> {
+    if (StorageService.isLocked()) return;
+    const now = Date.now();
+    const deliveries = await StorageService.getWebhookDeliveries();
+    let offline = false;
+
+    for (const delivery of deliveries) {
+      if (delivery.state !== 'pending') {
+        if (delivery.createdAt < now - DELIVERY_RETENTION_MS) await StorageService.deleteWebhookDelivery(delivery.id);
+        continue;
+      }
+      if (delivery.nextAttemptAt > now && !(reconnected && delivery.status === undefined)) continue;
+
+      const updated = await this.attempt(delivery, now);
+      await StorageService.saveWebhookDelivery(updated);
+      if (updated.state === 'pending' && updated.status === undefined) offline = true;
+    }
+
+    if (offline) this.registerBackgroundSync();
+    this.listeners.forEach(l => l());
+  }
+
+  // Lets the service worker send the queue once the connection is back, even with the app closed
+  private static async registerBackgroundSync() {
+    try {
+      if (!('serviceWorker' in navigator)) return;
+      const registration: any = await navigator.serviceWorker.ready;
+      await registration.sync?.register(BACKGROUND_SYNC_TAG);
+    } catch (e) {
+      console.warn('[Webhook] Background sync unavailable', e);
+    }
+  }
+
+  // Receivers verify HMAC(secret, "<timestamp>.<body>")
+  private static async sign(headers: Record<string, string>, body: string, secret: string, now: number): Promise<Record<string, string>> {
+    return {
+      ...headers,
+      [TIMESTAMP_HEADER]: String(now),
+      [SIGNATURE_HEADER]: `sha256=${await CryptoService.hmacSha256(secret, `${now}.${body}`)}`
+    };
+  }
+
+  private static contentType(headers: Record<string, string>): string {
+    const key = Object.keys(headers).find(h => h.toLowerCase() === 'content-type');
+    return key ? headers[key].toLowerCase() : '';
+  }
+}
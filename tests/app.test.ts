@@ -3,7 +3,23 @@ import { runner } from '../lib/testRunner';
 import { AutomationService } from '../services/automationService';
 import { StorageService } from '../services/storageService';
 import { CryptoService } from '../services/cryptoService';
-import { Task } from '../types';
+import { SyncService } from '../services/syncService';
+import { SyncBackend } from '../services/syncBackends';
+import { OpLogService } from '../services/opLogService';
+import { SecretsService } from '../services/secretsService';
+import { PersistenceService } from '../services/persistenceService';
+import { TabSyncService } from '../services/tabSyncService';
+import { AutomationLogService } from '../services/automationLogService';
+import { WebhookService, WEBHOOK_MAX_ATTEMPTS, SIGNATURE_HEADER } from '../services/webhookService';
+import { AutomationSimulator } from '../services/automationSimulator';
+import { openDatabase, LATEST_DB_VERSION, normalizeLegacyRule, normalizeLegacyRecurrence, normalizeTaskReminders } from '../services/storageMigrations';
+import { RecurrenceService } from '../services/recurrenceService';
+import { SeriesService, SeriesChanges } from '../services/seriesService';
+import { ReminderService, ScheduledReminder } from '../services/reminderService';
+import { NotificationActionService } from '../services/notificationActionService';
+import { appStore } from '../lib/store';
+import { selectTasksByBoard, selectTasksById } from '../lib/selectors';
+import { Task, Board, AutomationRule, WebhookDelivery } from '../types';
 
 export const registerTests = () => {
 
@@ -36,6 +52,358 @@ export const registerTests = () => {
        const res = AutomationService.simulateRule(rule, [mockTask]);
        runner.expect(res.length).toBe(1);
     });
+
+    runner.it('should evaluate condition trees and apply actions in order', async () => {
+       const before: Task = {
+         id: 'r1', title: 'Fix', status: 'in-progress', tags: ['urgent'], completed: false,
+         createdAt: 0, updatedAt: 0, order: 0
+       };
+       const after: Task = { ...before, status: 'review' };
+       const rule: AutomationRule = {
+         id: 'rule-review', name: 'Review', isActive: true,
+         conditions: { type: 'group', logic: 'and', conditions: [
+           { type: 'field', field: 'status', operator: 'changed_to', value: 'review' },
+           { type: 'field', field: 'assignee', operator: 'is_empty' },
+           { type: 'group', logic: 'or', conditions: [
+             { type: 'field', field: 'tags', operator: 'contains', value: 'bug' },
+             { type: 'field', field: 'tags', operator: 'contains', value: 'urgent' }
+           ] }
+         ] },
+         actions: [{ type: 'add_tag', value: 'needs-review' }, { type: 'set_color', value: '#ff0000' }]
+       };
+
+       const result = await AutomationService.evaluateRules(after, before, [rule]);
+       runner.expect(result.tags).toEqual(['urgent', 'needs-review']);
+       runner.expect(result.color).toBe('#ff0000');
+
+       const assigned = await AutomationService.evaluateRules({ ...after, assignee: 'me' }, before, [rule]);
+       runner.expect(assigned.tags).toEqual(['urgent']);
+
+       const migrated = normalizeLegacyRule({
+         id: 'legacy', name: 'Legacy', isActive: true,
+         trigger: { type: 'tag_added', value: 'x' }, action: { type: 'add_tag', value: 'y' }
+       });
+       runner.expect(migrated.conditions.conditions).toEqual([{ type: 'field', field: 'tags', operator: 'changed_to', value: 'x' }]);
+       runner.expect(migrated.actions).toEqual([{ type: 'add_tag', value: 'y' }]);
+    });
+
+    runner.it('should identify occurrences of time-based conditions', async () => {
+       const monday9 = new Date(2024, 0, 1, 9, 0).getTime(); // 1 Jan 2024 was a Monday
+       const task: Task = {
+         id: 't1', title: 'Report', status: 'backlog', tags: [], completed: false,
+         createdAt: 0, updatedAt: monday9, order: 0, deadline: monday9 + 3 * 3600000
+       };
+       const rule: AutomationRule = {
+         id: 'rule-time', name: 'Time', isActive: true,
+         conditions: { type: 'group', logic: 'or', conditions: [
+           { type: 'deadline', hours: 24 },
+           { type: 'schedule', days: [1], time: '09:00' }
+         ] },
+         actions: [{ type: 'add_tag', value: 'soon' }]
+       };
+       const at = (now: number, t: Task = task) =>
+         AutomationService.timeOccurrences(rule, { task: t, previous: null, now, simulate: false });
+
+       const first = at(monday9 + 60000);
+       runner.expect(Object.keys(first)).toEqual(['0', '1']);
+       // Same occurrences later on: the scheduler does not fire again
+       runner.expect(at(monday9 + 3600000)).toEqual(first);
+       // A moved deadline is a new occurrence
+       runner.expect(at(monday9 + 60000, { ...task, deadline: task.deadline! + 3600000 })['0'] === first['0']).toBe(false);
+       // Outside the catch-up window of the slot, with the deadline passed
+       runner.expect(at(monday9 + 2 * 86400000)).toEqual({});
+
+       // Edits do not run time-based rules
+       const edited = await AutomationService.evaluateRules(task, null, [rule]);
+       runner.expect(edited.tags).toEqual([]);
+    });
+
+    runner.it('should simulate event sequences without side effects and detect loops', async () => {
+       const task: Task = { id: 's1', title: 'Spec', status: 'backlog', tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0 };
+       const colorRule = (id: string, from: string, to: string): AutomationRule => ({
+         id, name: id, isActive: true,
+         conditions: { type: 'group', logic: 'and', conditions: [{ type: 'field', field: 'color', operator: 'changed_to', value: from }] },
+         actions: [{ type: 'set_color', value: to }]
+       });
+       const rules: AutomationRule[] = [
+         {
+           id: 'hook', name: 'hook', isActive: true,
+           conditions: { type: 'group', logic: 'and', conditions: [{ type: 'field', field: 'status', operator: 'changed_to', value: 'review' }] },
+           actions: [{ type: 'add_tag', value: 'reviewed' }, { type: 'webhook', value: 'https://example.test' }]
+         },
+         colorRule('to-blue', '#ff0000', '#0000ff'),
+         colorRule('to-red', '#0000ff', '#ff0000')
+       ];
+
+       const realEnqueue = WebhookService.enqueue;
+       let enqueued = 0;
+       try {
+         WebhookService.enqueue = async () => { enqueued++; return 'none'; };
+         const result = await AutomationSimulator.run([
+           { taskId: 's1', changes: { status: 'review' } },
+           { taskId: 's1', changes: { color: '#ff0000' } }
+         ], [task], rules, 1000);
+
+         runner.expect(enqueued).toBe(0);
+         runner.expect(task.tags).toEqual([]);
+         runner.expect(result.runs.map(r => `${r.eventIndex}:${r.depth}:${r.ruleName}`)).toEqual(['0:0:hook', '1:0:to-blue', '1:1:to-red']);
+         runner.expect(result.tasks[0].changes.map(c => c.field)).toEqual(['status', 'tags', 'updatedAt', 'color']);
+         runner.expect(result.loops).toEqual([{ eventIndex: 1, taskId: 's1', taskTitle: 'Spec', ruleNames: ['to-blue', 'to-red'], reason: 'repeat' }]);
+       } finally {
+         WebhookService.enqueue = realEnqueue;
+       }
+    });
+
+    runner.it('should chain rules by priority and halt loops', async () => {
+       const savedState = appStore.getState();
+       const archive = { id: 'archive', title: 'Archive', columns: [{ id: 'archived', title: 'Archived', order: 0 }], updatedAt: 0 };
+       const rule = (id: string, priority: number, field: string, value: string, actions: AutomationRule['actions']): AutomationRule => ({
+         id, name: id, isActive: true, priority,
+         conditions: { type: 'group', logic: 'and', conditions: [{ type: 'field', field, operator: 'changed_to', value }] },
+         actions
+       });
+       const before: Task = { id: 'c1', title: 'Ship', status: 'review', tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0, boardId: 'main' };
+       try {
+         appStore.setState({ boards: [...savedState.boards, archive] }, { source: 'load' });
+
+         // Listed first, but runs after "done" by priority, and only once the tag is there
+         const pipeline = [
+           rule('to-archive', 2, 'tags', 'archived', [{ type: 'move_to_board', value: 'archive' }]),
+           rule('done', 1, 'status', 'done', [{ type: 'add_tag', value: 'archived' }, { type: 'set_color', value: '#999999' }]),
+           rule('recolor', 3, 'status', 'done', [{ type: 'set_color', value: '#000000' }])
+         ];
+         const depths: string[] = [];
+         const archived = await AutomationService.evaluateRules({ ...before, status: 'done' }, before, pipeline, undefined,
+           { dryRun: true, onRun: entry => depths.push(`${entry.ruleName}:${entry.depth}`) });
+         runner.expect(depths).toEqual(['done:0', 'recolor:0', 'to-archive:1']);
+         runner.expect(archived.boardId).toBe('archive');
+         runner.expect(archived.status).toBe('archived');
+         runner.expect(archived.color).toBe('#000000');
+
+         const loops: string[][] = [];
+         const flagged: string[][] = [];
+         const pingPong = [
+           rule('a', 0, 'color', '#ff0000', [{ type: 'set_color', value: '#0000ff' }]),
+           rule('b', 0, 'color', '#0000ff', [{ type: 'set_color', value: '#ff0000' }])
+         ];
+         await AutomationService.evaluateRules({ ...before, color: '#ff0000' }, before, pingPong, undefined, {
+           dryRun: true,
+           onRun: entry => setTimeout(() => { if (entry.loop) flagged.push(entry.loop); }),
+           onLoop: loop => loops.push(loop.ruleNames)
+         });
+         await new Promise(resolve => setTimeout(resolve, 0));
+         runner.expect(loops).toEqual([['a', 'b']]);
+         runner.expect(flagged).toEqual([['a', 'b']]);
+       } finally {
+         appStore.setState({ boards: savedState.boards }, { source: 'load' });
+       }
+    });
+
+    runner.it('should render, sign and retry webhook deliveries', async () => {
+       const task: Task = { id: 'w1', title: 'Say "hi"', status: 'review', tags: ['a', 'b'], completed: false, createdAt: 0, updatedAt: 0, order: 0 };
+       const rule: AutomationRule = { id: 'rule-hook', name: 'Hook', isActive: true, conditions: { type: 'group', logic: 'and', conditions: [] }, actions: [] };
+       const body = WebhookService.renderTemplate('{"text": "{{rule.name}}: {{task.title}} [{{task.tags}}]{{task.missing}}"}', { task, rule, now: 0 }, true);
+       runner.expect(JSON.parse(body).text).toBe('Hook: Say "hi" [a, b]');
+
+       runner.expect(await CryptoService.hmacSha256('key', 'The quick brown fox jumps over the lazy dog'))
+         .toBe('f7bc83f430538424b13298e6aa6fb143ef4d59a14946175997479dbc2d1a3cd8');
+       runner.expect(WebhookService.retryDelay(1)).toBe(30000);
+       runner.expect(WebhookService.retryDelay(3)).toBe(120000);
+
+       const delivery: WebhookDelivery = { id: 'd1', url: 'https://example.test', headers: {}, body, createdAt: 0, state: 'pending', attempts: 0, nextAttemptAt: 0 };
+       const realFetch = globalThis.fetch;
+       try {
+         globalThis.fetch = async () => new Response(null, { status: 503 });
+         const retried = await WebhookService.attempt(delivery, 1000);
+         runner.expect(retried.state).toBe('pending');
+         runner.expect(retried.nextAttemptAt).toBe(31000);
+
+         globalThis.fetch = async () => new Response(null, { status: 404 });
+         runner.expect((await WebhookService.attempt(retried, 2000)).state).toBe('failed');
+
+         globalThis.fetch = async () => { throw new TypeError('Failed to fetch'); };
+         const offline = await WebhookService.attempt({ ...delivery, attempts: WEBHOOK_MAX_ATTEMPTS - 1 }, 3000);
+         runner.expect(offline.state).toBe('failed');
+         runner.expect(offline.error).toBe('Failed to fetch');
+       } finally {
+         globalThis.fetch = realFetch;
+       }
+    });
+  });
+
+  runner.describe('Unit: Recurrence', () => {
+
+    runner.it('should expand RRULE recurrences across DST and migrate legacy values', () => {
+      const iso = (values: number[]) => values.map(t => new Date(t).toISOString());
+      const berlin = { timeZone: 'Europe/Berlin' };
+
+      // 09:00 local stays 09:00 after the spring change
+      runner.expect(iso(RecurrenceService.between('FREQ=DAILY;COUNT=3', Date.UTC(2024, 2, 30, 8), 0, Infinity, berlin)))
+        .toEqual(['2024-03-30T08:00:00.000Z', '2024-03-31T07:00:00.000Z', '2024-04-01T07:00:00.000Z']);
+      // 02:30 does not exist on 31 March and occurs twice on 27 October
+      runner.expect(iso(RecurrenceService.upcoming('FREQ=DAILY', Date.UTC(2024, 2, 30, 1, 30), 0, 2, berlin))[1]).toBe('2024-03-31T01:30:00.000Z');
+      runner.expect(iso(RecurrenceService.upcoming('FREQ=DAILY', Date.UTC(2024, 9, 26, 0, 30), 0, 2, berlin))[1]).toBe('2024-10-27T00:30:00.000Z');
+
+      const utc = { timeZone: 'UTC' };
+      runner.expect(iso(RecurrenceService.upcoming('FREQ=MONTHLY;BYDAY=-1FR', Date.UTC(2024, 0, 26, 9), 0, 3, utc)))
+        .toEqual(['2024-01-26T09:00:00.000Z', '2024-02-23T09:00:00.000Z', '2024-03-29T09:00:00.000Z']);
+      runner.expect(iso(RecurrenceService.upcoming('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1', Date.UTC(2024, 2, 29, 9), 0, 2, utc)))
+        .toEqual(['2024-03-29T09:00:00.000Z', '2024-04-30T09:00:00.000Z']);
+      runner.expect(iso(RecurrenceService.between('FREQ=WEEKLY;BYDAY=MO,WE;UNTIL=20240110', Date.UTC(2024, 0, 1, 9), 0, Infinity, { ...utc, exdates: [Date.UTC(2024, 0, 3, 9)] })))
+        .toEqual(['2024-01-01T09:00:00.000Z', '2024-01-08T09:00:00.000Z', '2024-01-10T09:00:00.000Z']);
+      runner.expect(RecurrenceService.next('FREQ=YEARLY', Date.UTC(2024, 1, 29, 9), Date.UTC(2024, 1, 29, 9), utc)).toBe(Date.UTC(2028, 1, 29, 9));
+
+      runner.expect(normalizeLegacyRecurrence('monthly')).toBe('FREQ=MONTHLY');
+      runner.expect(normalizeLegacyRecurrence({ frequency: 'weekly', interval: 2, daysOfWeek: [1, 3] })).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE');
+      runner.expect(normalizeLegacyRecurrence('none')).toBe(undefined);
+    });
+
+    runner.it('should keep recurring series with per-occurrence edits and skips', () => {
+      const DAY = 24 * 60 * 60 * 1000;
+      const t0 = new Date(2024, 0, 1, 9).getTime();
+      const days = (list: Task[]) => list.map(t => Math.round((t.startTime! - t0) / DAY));
+      const apply = (tasks: Task[], { upserts, deletes }: SeriesChanges) => {
+        const updated = new Map(upserts.map(t => [t.id, t]));
+        const kept = tasks.filter(t => !deletes.includes(t.id)).map(t => updated.get(t.id) || t);
+        return [...kept, ...upserts.filter(t => !tasks.some(old => old.id === t.id))];
+      };
+      const master: Task = {
+        id: 'series', title: 'Отчёт', status: 'done', completed: true, tags: [], order: 0, createdAt: t0, updatedAt: t0,
+        startTime: t0, endTime: t0 + 3600000, recurrence: 'FREQ=DAILY;COUNT=10', timeLogs: [{ start: t0, end: t0 + 1000 }]
+      };
+      const now = t0 + 2.5 * DAY;
+
+      // The latest due occurrence is stored, without the master's state and time logs
+      const due = SeriesService.materializeDue([master], now);
+      runner.expect(days(due)).toEqual([2]);
+      runner.expect(due[0].seriesId).toBe('series');
+      runner.expect(due[0].timeLogs).toBe(undefined);
+      let tasks = [master, ...due];
+      runner.expect(SeriesService.materializeDue(tasks, now).length).toBe(0);
+      runner.expect(days(SeriesService.virtualInstances(tasks, t0, t0 + 5 * DAY, now))).toEqual([3, 4, 5]);
+
+      tasks = apply(tasks, SeriesService.skip(SeriesService.resolve(SeriesService.instanceId('series', t0 + 3 * DAY), tasks)!, tasks, now));
+      runner.expect(days(SeriesService.virtualInstances(tasks, t0, t0 + 5 * DAY, now))).toEqual([4, 5]);
+
+      // This and following: the series ends before day 5, COUNT is shared out
+      const fifth = SeriesService.resolve(SeriesService.instanceId('series', t0 + 5 * DAY), tasks)!;
+      tasks = apply(tasks, SeriesService.edit(fifth, { ...fifth, title: 'Новый отчёт', recurrence: master.recurrence }, 'following', tasks, now));
+      runner.expect(tasks.find(t => t.id === 'series')!.recurrence).toBe('FREQ=DAILY;COUNT=5');
+      runner.expect(tasks.find(t => t.id === fifth.id)!.recurrence).toBe('FREQ=DAILY;COUNT=5');
+      runner.expect(tasks.find(t => t.id === fifth.id)!.seriesId).toBe(undefined);
+
+      // All occurrences of the first series, edited from an instance
+      const second = tasks.find(t => t.id === due[0].id)!;
+      tasks = apply(tasks, SeriesService.edit(second, { ...second, title: 'Сводка', recurrence: 'FREQ=DAILY;COUNT=5' }, 'all', tasks, now));
+      runner.expect(tasks.find(t => t.id === 'series')!.title).toBe('Сводка');
+      runner.expect(tasks.find(t => t.id === fifth.id)!.title).toBe('Новый отчёт');
+
+      // Only the master's own occurrence: the rule moves on to the next occurrence not stored yet (day 3 is skipped)
+      const head = tasks.find(t => t.id === 'series')!;
+      tasks = apply(tasks, SeriesService.edit(head, { ...head, title: 'Первый' }, 'this', tasks, now));
+      const first = tasks.find(t => t.id === 'series')!;
+      const successor = tasks.find(t => t.id === first.seriesId)!;
+      runner.expect(first.title).toBe('Первый');
+      runner.expect(first.recurrence).toBe(undefined);
+      runner.expect(days([successor])).toEqual([4]);
+      runner.expect(successor.recurrence).toBe('FREQ=DAILY;COUNT=5');
+      runner.expect(successor.title).toBe('Сводка');
+    });
+  });
+
+  runner.describe('Unit: Reminders', () => {
+
+    runner.it('should find due reminders, including unstored occurrences, and compute snoozes', () => {
+      const HOUR = 60 * 60 * 1000;
+      const t0 = new Date(2024, 0, 1, 9).getTime();
+      const base = { status: 'backlog', tags: [], completed: false, order: 0, createdAt: t0, updatedAt: t0 };
+      const at = (time: number, fired?: boolean) => [{ id: 'r', time, fired }];
+      const tasks: Task[] = [
+        { ...base, id: 'missed', title: 'Позвонить', reminders: at(t0 - 3 * HOUR) },
+        { ...base, id: 'fired', title: 'Уже было', reminders: at(t0 - HOUR, true) },
+        { ...base, id: 'done', title: 'Готово', reminders: at(t0 - HOUR), completed: true },
+        { ...base, id: 'later', title: 'Позже', reminders: at(t0 + 2 * HOUR) },
+        // Reminder an hour before each daily occurrence; the one of tomorrow is not stored yet
+        { ...base, id: 'daily', title: 'Планёрка', startTime: t0 - 14 * HOUR, reminders: [{ id: 'r', offset: { anchor: 'startTime', minutesBefore: 60 }, fired: true }], recurrence: 'FREQ=DAILY' }
+      ];
+      const now = t0;
+      const ids = (list: ScheduledReminder[]) => list.map(entry => entry.task.id);
+
+      runner.expect(ids(ReminderService.due(tasks, now))).toEqual(['missed']);
+      runner.expect(ids(ReminderService.due(tasks, t0 + 9 * HOUR))).toEqual(['missed', 'later', SeriesService.instanceId('daily', t0 + 10 * HOUR)]);
+      runner.expect(ids(ReminderService.pending(tasks, now))[1]).toBe('later');
+
+      // Caught up after a sleep: the notification says it is late, and offers the task actions and longer snoozes
+      const [missed] = ReminderService.due(tasks, now);
+      const options = ReminderService.notificationOptions(missed, now);
+      runner.expect(options.body!.includes('пропущено')).toBeTruthy();
+      runner.expect(options.actions!.map(a => a.action)).toEqual(['complete', 'snooze', 'open', 'snooze-1h', 'snooze-tomorrow']);
+      runner.expect(ReminderService.notificationOptions({ ...missed, time: now }, now).body!.includes('пропущено')).toBe(false);
+
+      runner.expect(NotificationActionService.snoozeUntil('snooze', now)).toBe(now + 15 * 60 * 1000);
+      runner.expect(NotificationActionService.snoozeUntil('snooze-1h', now)).toBe(now + HOUR);
+      runner.expect(NotificationActionService.snoozeUntil('snooze-tomorrow', now)).toBe(new Date(2024, 0, 2, 9).getTime());
+    });
+
+    runner.it('should resolve offset reminders against the moved dates, defaults and legacy reminders', () => {
+      const HOUR = 60 * 60 * 1000;
+      const t0 = new Date(2024, 0, 1, 9).getTime();
+      const task: Task = {
+        id: 'meeting', title: 'Созвон', status: 'backlog', tags: [], completed: false, order: 0, createdAt: t0, updatedAt: t0,
+        eventType: 'meeting', startTime: t0 + 24 * HOUR, deadline: t0 + 48 * HOUR,
+        reminders: [
+          { id: 'day', offset: { anchor: 'startTime', minutesBefore: 24 * 60 } },
+          { id: 'soon', offset: { anchor: 'deadline', minutesBefore: 15 } },
+          { id: 'fixed', time: t0 + 5 * HOUR, snoozedUntil: t0 + 6 * HOUR }
+        ]
+      };
+      const times = (t: Task) => t.reminders!.map(r => ReminderService.timeOf(t, r));
+      runner.expect(times(task)).toEqual([t0, t0 + 48 * HOUR - 15 * 60 * 1000, t0 + 6 * HOUR]);
+      // Dragged a day later: offsets follow the dates, the fixed reminder stays
+      runner.expect(times({ ...task, startTime: task.startTime! + 24 * HOUR, deadline: task.deadline! + 24 * HOUR }))
+        .toEqual([t0 + 24 * HOUR, t0 + 72 * HOUR - 15 * 60 * 1000, t0 + 6 * HOUR]);
+
+      // Dropped on the next day in the calendar: the start, end and deadline keep their distances
+      const moved = { ...task, endTime: t0 + 25 * HOUR, ...SeriesService.moveDates({ ...task, endTime: t0 + 25 * HOUR }, t0 + 48 * HOUR) };
+      runner.expect([moved.startTime, moved.endTime, moved.deadline]).toEqual([t0 + 48 * HOUR, t0 + 49 * HOUR, t0 + 72 * HOUR]);
+      runner.expect(times(moved)).toEqual([t0 + 24 * HOUR, t0 + 72 * HOUR - 15 * 60 * 1000, t0 + 6 * HOUR]);
+
+      const settings = { reminderDefaults: { meeting: [{ anchor: 'startTime' as const, minutesBefore: 10 }] } };
+      runner.expect(ReminderService.defaultsFor('meeting', settings).map(r => r.offset)).toEqual([{ anchor: 'startTime', minutesBefore: 10 }]);
+      runner.expect(ReminderService.defaultsFor('personal', settings).length).toBe(0);
+
+      const legacy = normalizeTaskReminders({ ...task, reminders: undefined, reminderTime: t0, reminderFired: true } as any);
+      runner.expect(legacy.reminders).toEqual([{ id: 'legacy', time: t0, fired: true }]);
+      runner.expect('reminderTime' in legacy).toBe(false);
+      runner.expect(normalizeTaskReminders(task)).toBe(task);
+    });
+
+    runner.it('should apply notification actions to a task', () => {
+      const now = new Date(2024, 0, 1, 9).getTime();
+      const task: Task = {
+        id: 'n1', title: 'Отчёт', status: 'todo', tags: [], completed: false, order: 0, createdAt: 0, updatedAt: 0, boardId: 'b1',
+        reminders: [{ id: 'r', time: now - 60 * 1000, fired: true }]
+      };
+      const boards: Board[] = [
+        { id: 'b1', title: 'Доска', updatedAt: 0, columns: [{ id: 'todo', title: 'Todo', order: 0 }, { id: 'done', title: 'Done', order: 1 }] },
+        { id: 'b2', title: 'Релизы', updatedAt: 0, columns: [{ id: 'shipped', title: 'Выпущено', order: 1 }, { id: 'todo', title: 'Todo', order: 0 }] }
+      ];
+
+      const completed = NotificationActionService.applyToTask(task, 'complete', boards, 'r', now)!;
+      runner.expect([completed.status, completed.completed]).toEqual(['done', true]);
+      runner.expect(NotificationActionService.applyToTask(completed, 'complete', boards, 'r', now)).toBe(null);
+      runner.expect(NotificationActionService.applyToTask(task, 'open', boards, 'r', now)).toBe(null);
+      // Custom columns: the last one; an unknown board keeps the status
+      runner.expect(NotificationActionService.applyToTask({ ...task, boardId: 'b2' }, 'complete', boards, 'r', now)!.status).toBe('shipped');
+      runner.expect(NotificationActionService.applyToTask({ ...task, boardId: 'gone' }, 'complete', boards, 'r', now)!.status).toBe('todo');
+
+      // The reminder that fired is moved; a notification without one (an automation) adds a reminder
+      const snoozed = NotificationActionService.applyToTask(task, 'snooze', boards, 'r', now)!;
+      runner.expect(snoozed.reminders).toEqual([{ id: 'r', time: now - 60 * 1000, fired: false, snoozedUntil: now + 15 * 60 * 1000 }]);
+      const added = NotificationActionService.applyToTask(task, 'snooze', boards, undefined, now)!;
+      runner.expect(added.reminders!.length).toBe(2);
+      runner.expect(ReminderService.timeOf(added, added.reminders![1])).toBe(now + 15 * 60 * 1000);
+    });
   });
 
   runner.describe('Unit: Crypto Service', async () => {
@@ -48,6 +416,188 @@ export const registerTests = () => {
         runner.expect(decrypted).toBe(text);
         runner.expect(encrypted === text).toBe(false);
      });
+
+     runner.it('should write a versioned envelope and still read legacy blobs', async () => {
+        const envelope = CryptoService.parseEnvelope(await CryptoService.encrypt('Message', 'password123', 1000));
+        runner.expect(envelope?.version).toBe(1);
+        runner.expect(envelope?.iterations).toBe(1000);
+
+        // salt+iv+ciphertext with PBKDF2 at 100k iterations, as written before envelopes
+        const legacy = 'Ko/6xrLCnRwg1+akRxYayUF2gqPdt6sZOdB9WmB5mlL3C7htw752AfG5YSWvmBx2JYLxFiqM+d4/';
+        runner.expect(CryptoService.isEncrypted(legacy)).toBe(true);
+        runner.expect(await CryptoService.decrypt(legacy, 'password123')).toBe('Legacy backup');
+     });
+
+     runner.it('should keep secrets out of payloads and settings merges', () => {
+        const local = { ...appStore.getState(), secrets: { githubToken: 'local-token', encryptionPassword: 'pwd' } };
+        const legacyCloud: any = { ...appStore.getState(), settings: { theme: 'light', githubToken: 'cloud-token' } };
+        const merged = SyncService.merge(local, legacyCloud, null);
+        const redacted = SecretsService.redactState(merged);
+
+        runner.expect(merged.secrets?.githubToken).toBe('local-token');
+        runner.expect((merged.settings as any).githubToken).toBe(undefined);
+        runner.expect(redacted.secrets).toBe(undefined);
+     });
+  });
+
+  runner.describe('Unit: Sync Merge', () => {
+     const baseTask: Task = {
+       id: 'm1', title: 'Merge me', status: 'backlog', tags: ['a'], completed: false,
+       createdAt: 0, updatedAt: 1, order: 0
+     };
+     const withTasks = (tasks: Task[]) => ({ ...appStore.getState(), tasks, notes: [] });
+
+     runner.it('should merge independent field edits from both sides', () => {
+        const local = { ...baseTask, tags: ['a', 'phone'], updatedAt: 2 };
+        const cloud = { ...baseTask, deadline: 5000, updatedAt: 3 };
+        const merged = SyncService.merge(withTasks([local]), withTasks([cloud]), withTasks([baseTask]));
+
+        runner.expect(merged.tasks[0].tags).toEqual(['a', 'phone']);
+        runner.expect(merged.tasks[0].deadline).toBe(5000);
+        runner.expect(merged.syncConflicts?.length).toBe(0);
+     });
+
+     runner.it('should record a conflict when both sides edit the title', () => {
+        const local = { ...baseTask, title: 'Local title', updatedAt: 2 };
+        const cloud = { ...baseTask, title: 'Cloud title', updatedAt: 3 };
+        const merged = SyncService.merge(withTasks([local]), withTasks([cloud]), withTasks([baseTask]));
+
+        runner.expect(merged.tasks[0].title).toBe('Cloud title');
+        runner.expect(merged.syncConflicts?.[0].field).toBe('title');
+        runner.expect(merged.syncConflicts?.[0].localValue).toBe('Local title');
+     });
+
+     runner.it('should not resurrect a task deleted on the other device', () => {
+        const local = { ...withTasks([]), tombstones: [{ id: 'tasks:m1', entityType: 'tasks' as const, entityId: 'm1', deletedAt: Date.now() }] };
+        const merged = SyncService.merge(local, withTasks([baseTask]), withTasks([baseTask]));
+
+        runner.expect(merged.tasks.length).toBe(0);
+        runner.expect(merged.tombstones?.length).toBe(1);
+     });
+
+     runner.it('should merge board columns added on both sides and reattach orphaned tasks', () => {
+        const board = { id: 'b1', title: 'Board', updatedAt: 1, columns: [{ id: 'todo', title: 'To Do', order: 0 }] };
+        const local = { ...withTasks([{ ...baseTask, boardId: 'missing' }]), boards: [{ ...board, updatedAt: 2, columns: [...board.columns, { id: 'qa', title: 'QA', order: 1 }] }] };
+        const cloud = { ...withTasks([]), boards: [{ ...board, updatedAt: 3, columns: [...board.columns, { id: 'done', title: 'Done', order: 2 }] }] };
+        const merged = SyncService.merge(local, cloud, { ...withTasks([]), boards: [board] });
+
+        runner.expect(merged.boards[0].columns.map(c => c.id)).toEqual(['todo', 'qa', 'done']);
+        runner.expect(merged.tasks[0].boardId).toBe('b1');
+     });
+
+     runner.it('should not sync while the secrets vault is locked', async () => {
+        const writes: string[] = [];
+        const backend: SyncBackend = {
+          id: 'webdav',
+          list: async () => [],
+          read: async () => null,
+          write: async name => { writes.push(name); },
+          remove: async () => {},
+          metadata: async () => null
+        };
+        const locked = { ...withTasks([baseTask]), settings: { syncProvider: 'webdav' as const, webdavUrl: 'https://dav.example' }, secrets: {}, secretsLocked: true };
+
+        runner.expect(SyncService.resolveBackend(locked)).toBe(null);
+        runner.expect((await SyncService.sync(locked, backend)).success).toBe(false);
+        runner.expect(writes.length).toBe(0);
+     });
+
+     runner.it('should replay recorded ops of another device', () => {
+        const edited = withTasks([{ ...baseTask, title: 'Renamed', updatedAt: 2 }]);
+        const ops = [
+          ...OpLogService.diff(withTasks([baseTask]), edited, 'other'),
+          ...OpLogService.diff(edited, withTasks([]), 'other')
+        ].map((op, i) => ({ ...op, seq: i + 1 }));
+        const { state, applied } = OpLogService.applyOps(withTasks([baseTask]), ops, []);
+
+        runner.expect(ops.map(op => op.kind)).toEqual(['patch', 'delete']);
+        runner.expect(applied).toBe(2);
+        runner.expect(state.tasks.length).toBe(0);
+        runner.expect(state.tombstones?.[0].entityId).toBe('m1');
+
+        // Concurrent edits of different fields: no conflict on updatedAt, which keeps the newer value
+        const remote = OpLogService.diff(withTasks([baseTask]), withTasks([{ ...baseTask, title: 'Renamed', updatedAt: 2 }]), 'other');
+        const local = OpLogService.diff(withTasks([baseTask]), withTasks([{ ...baseTask, status: 'done', updatedAt: 3 }]), 'me');
+        const merged = OpLogService.applyOps(withTasks([{ ...baseTask, status: 'done', updatedAt: 3 }]), remote.map(op => ({ ...op, seq: 1 })), local.map(op => ({ ...op, seq: 1 })));
+        runner.expect(merged.conflicts.length).toBe(0);
+        runner.expect([merged.state.tasks[0].title, merged.state.tasks[0].status, merged.state.tasks[0].updatedAt]).toEqual(['Renamed', 'done', 3]);
+     });
+  });
+
+  runner.describe('Unit: Undo History', () => {
+
+     runner.it('should undo and redo grouped changes', async () => {
+        const savedState = appStore.getState();
+        const savedHistory = appStore.getHistory();
+        const task = (id: string, status: string): Task => ({
+           id, title: id, status, tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0
+        });
+        try {
+           appStore.setState({ isLoading: false, tasks: [task('h1', 'backlog')], tombstones: [] }, { source: 'load' });
+           appStore.clearHistory();
+
+           await appStore.batch('Bulk', () => {
+              appStore.updateTask(task('h1', 'done'));
+              appStore.addTask(task('h2', 'backlog'));
+           });
+           appStore.deleteTask('h2');
+           runner.expect(appStore.getHistory().undo.map(e => e.label)).toEqual(['Bulk', 'Удаление задачи «h2»']);
+
+           appStore.undo();
+           appStore.undo();
+           runner.expect(appStore.getState().tasks.map(t => `${t.id}:${t.status}`)).toEqual(['h1:backlog']);
+           runner.expect(appStore.getState().tombstones?.map(t => t.entityId)).toEqual(['h2']);
+
+           appStore.redo();
+           runner.expect(appStore.getState().tasks.map(t => t.id).sort()).toEqual(['h1', 'h2']);
+           runner.expect(appStore.getState().tombstones?.length).toBe(0);
+        } finally {
+           appStore.setState(savedState, { source: 'load' });
+           appStore.setHistory(savedHistory);
+        }
+     });
+  });
+
+  runner.describe('Unit: Store Selectors', () => {
+
+     runner.it('should keep untouched groups referentially stable', () => {
+        const task = (id: string, boardId: string, updatedAt = 0): Task => ({
+           id, title: id, status: 'backlog', boardId, tags: [], completed: false, createdAt: 0, updatedAt, order: 0
+        });
+        const before = { ...appStore.getState(), tasks: [task('s1', 'a'), task('s2', 'b')] };
+        const after = { ...before, tasks: [before.tasks[0], task('s2', 'b', 1)] };
+
+        const groupsBefore = selectTasksByBoard(before);
+        runner.expect(selectTasksByBoard(before)).toBe(groupsBefore);
+
+        const groupsAfter = selectTasksByBoard(after);
+        runner.expect(groupsAfter.get('a')).toBe(groupsBefore.get('a'));
+        runner.expect(groupsAfter.get('b') === groupsBefore.get('b')).toBe(false);
+        runner.expect(selectTasksById(after).get('s2')?.updatedAt).toBe(1);
+     });
+  });
+
+  runner.describe('Unit: Tab Sync', () => {
+
+     runner.it('should replay a relayed diff onto another tab', () => {
+        const task = (id: string, title = id): Task => ({
+           id, title, status: 'backlog', tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0
+        });
+        const tab = { ...appStore.getState(), tasks: [task('t1'), task('t2'), task('t3')], tombstones: [] };
+        const edited = {
+           ...tab,
+           tasks: [tab.tasks[0], task('t3', 'Renamed'), task('t4')],
+           tombstones: [{ id: 'tasks:t2', entityType: 'tasks' as const, entityId: 't2', deletedAt: 1 }]
+        };
+
+        const changes = TabSyncService.diff(tab, edited);
+        runner.expect(changes.length).toBe(4);
+
+        const applied = { ...tab, ...TabSyncService.applyChanges(tab, changes) };
+        runner.expect(applied.tasks.map(t => `${t.id}:${t.title}`)).toEqual(['t1:t1', 't3:Renamed', 't4:t4']);
+        runner.expect(applied.tasks[0]).toBe(tab.tasks[0]);
+        runner.expect(applied.tombstones?.map(t => t.entityId)).toEqual(['t2']);
+     });
   });
 
   // 2. INTEGRATION TESTS (IndexedDB)
@@ -79,6 +629,232 @@ export const registerTests = () => {
         // Cleanup
         await StorageService.deleteTask('test-id-1');
      });
+
+     runner.it('should seal records at rest and refuse reads while locked', async () => {
+        const key = await CryptoService.generateKey();
+        const task: Task = {
+           id: 'test-sealed', title: 'Sealed Task', status: 'backlog', tags: [], completed: false,
+           createdAt: Date.now(), updatedAt: Date.now(), order: 1
+        };
+        StorageService.setEncryption(true, key);
+        try {
+           await StorageService.saveTask(task);
+           runner.expect((await StorageService.getTasks()).find(t => t.id === 'test-sealed')?.title).toBe('Sealed Task');
+
+           StorageService.setEncryption(true, null);
+           let rejected = false;
+           await StorageService.getTasks().catch(() => { rejected = true; });
+           runner.expect(rejected).toBe(true);
+        } finally {
+           StorageService.setEncryption(false, null);
+           await StorageService.deleteTask('test-sealed');
+        }
+     });
+
+     runner.it('should page through indexed task queries', async () => {
+        const ids = [1, 2, 3, 4, 5].map(i => `test-query-${i}`);
+        await Promise.all(ids.map((id, i) => StorageService.saveTask({
+           id, title: id, status: i < 4 ? 'todo' : 'done', tags: i % 2 === 0 ? ['even'] : [], completed: false,
+           createdAt: i, updatedAt: i, order: i, boardId: 'test-query-board', deadline: 1000 + i
+        })));
+        try {
+           const seen: string[] = [];
+           let cursor: string | undefined;
+           do {
+              const page = await StorageService.queryTasks({ boardId: 'test-query-board', status: 'todo', limit: 3, cursor });
+              seen.push(...page.tasks.map(t => t.id));
+              cursor = page.cursor;
+           } while (cursor);
+           runner.expect(seen.sort()).toEqual(ids.slice(0, 4));
+
+           const tagged = await StorageService.queryTasks({ tag: 'even', dueBefore: 1003 });
+           runner.expect(tagged.tasks.map(t => t.id).sort()).toEqual(['test-query-1', 'test-query-3']);
+        } finally {
+           await Promise.all(ids.map(id => StorageService.deleteTask(id)));
+        }
+     });
+
+     runner.it('should log automation runs per task and prune old entries', async () => {
+        const task: Task = { id: 'test-log-task', title: 'Logged', status: 'review', tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0 };
+        const rule: AutomationRule = {
+           id: 'test-log-rule', name: 'Log', isActive: true,
+           conditions: { type: 'group', logic: 'and', conditions: [{ type: 'field', field: 'status', operator: 'changed_to', value: 'review' }] },
+           actions: [{ type: 'add_tag', value: 'checked' }]
+        };
+        const recorded = new Promise(resolve => {
+           const unsubscribe = AutomationLogService.subscribe(entry => {
+              if (entry.taskId === 'test-log-task') { unsubscribe(); resolve(entry); }
+           });
+        });
+        // Dated in 1970, so pruning by age removes only this entry
+        const realNow = Date.now;
+        Date.now = () => 1;
+        try {
+           await AutomationService.evaluateRules(task, { ...task, status: 'todo' }, [rule]);
+        } finally {
+           Date.now = realNow;
+        }
+        await recorded;
+
+        const [entry] = await AutomationLogService.getForTask('test-log-task');
+        runner.expect(entry.ruleName).toBe('Log');
+        runner.expect(entry.matched).toEqual(rule.conditions.conditions);
+        runner.expect(entry.changes).toEqual([{ field: 'tags', before: [], after: ['checked'] }]);
+
+        await StorageService.pruneAutomationLog(Number.MAX_SAFE_INTEGER, 2);
+        runner.expect((await AutomationLogService.getForTask('test-log-task')).length).toBe(0);
+     });
+
+     runner.it('should hold webhook calls until the secrets vault is unlocked', async () => {
+        const task: Task = { id: 'test-held', title: 'Held', status: 'review', tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0 };
+        const rule: AutomationRule = { id: 'rule-held', name: 'Held', isActive: true, conditions: { type: 'group', logic: 'and', conditions: [] }, actions: [] };
+        const url = 'https://held.example.test';
+        const saved = appStore.getState();
+        try {
+           appStore.setState({ secrets: {}, secretsLocked: true }, { source: 'load' });
+           const id = await WebhookService.enqueue({ type: 'webhook', value: url }, task, rule);
+           const held = (await WebhookService.getDeliveries()).find(d => d.id === id)!;
+           runner.expect(held.state).toBe('awaiting_secret');
+           runner.expect(SIGNATURE_HEADER in held.headers).toBe(false);
+
+           appStore.setState({ secrets: { webhookSecrets: { [url]: 'key' } }, secretsLocked: false }, { source: 'load' });
+           await WebhookService.signHeld();
+           const released = (await WebhookService.getDeliveries()).find(d => d.id === id)!;
+           runner.expect(released.state).toBe('pending');
+           runner.expect(released.headers[SIGNATURE_HEADER].startsWith('sha256=')).toBeTruthy();
+           await StorageService.deleteWebhookDelivery(id);
+        } finally {
+           appStore.setState({ secrets: saved.secrets, secretsLocked: saved.secretsLocked }, { source: 'load' });
+        }
+     });
+
+     runner.it('should keep imported entities edited after their deletion', async () => {
+        const base: Task = { id: '', title: 'Импорт', status: 'backlog', tags: [], completed: false, createdAt: 0, updatedAt: 2000, order: 0 };
+        await StorageService.saveTask({ ...base, id: 'test-resurrected' });
+        await StorageService.saveTask({ ...base, id: 'test-deleted' });
+        await StorageService.applyTombstones([
+           { id: 'tasks:test-resurrected', entityType: 'tasks', entityId: 'test-resurrected', deletedAt: 1000 },
+           { id: 'tasks:test-deleted', entityType: 'tasks', entityId: 'test-deleted', deletedAt: 3000 }
+        ]);
+
+        const ids = (await StorageService.getTasks()).map(t => t.id);
+        runner.expect(ids.includes('test-resurrected')).toBe(true);
+        runner.expect(ids.includes('test-deleted')).toBe(false);
+        await StorageService.deleteTask('test-resurrected');
+     });
+  });
+
+  runner.describe('Integration: Store Persistence', () => {
+     const task = (id: string, status: string): Task => ({
+        id, title: id, status, tags: [], completed: false, createdAt: 0, updatedAt: 0, order: 0
+     });
+
+     // Runs `fn` on a loaded store and puts the previous state back afterwards
+     const withLoadedStore = async (fn: () => Promise<void>) => {
+        const saved = appStore.getState();
+        appStore.setState({ isLoading: false }, { source: 'load' });
+        PersistenceService.init();
+        try {
+           await fn();
+        } finally {
+           await PersistenceService.flush();
+           appStore.setState(saved, { source: 'load' });
+        }
+     };
+
+     runner.it('should write store actions through to IndexedDB', async () => {
+        await withLoadedStore(async () => {
+           appStore.addTask(task('persist-1', 'backlog'));
+           appStore.addTask(task('persist-2', 'backlog'));
+           appStore.updateTask(task('persist-1', 'done'));
+           appStore.deleteTask('persist-2');
+           appStore.setGoals([...appStore.getState().goals, { id: 'persist-goal', title: 'Goal', targetValue: 1, currentValue: 0, unit: 'tasks', period: 'weekly' }]);
+           await PersistenceService.flush();
+
+           const tasks = await StorageService.getTasks();
+           runner.expect(tasks.find(t => t.id === 'persist-1')?.status).toBe('done');
+           runner.expect(tasks.some(t => t.id === 'persist-2')).toBe(false);
+           runner.expect((await StorageService.getGoals()).some(g => g.id === 'persist-goal')).toBe(true);
+           runner.expect((await StorageService.getTombstones()).some(t => t.id === 'tasks:persist-2')).toBe(true);
+
+           appStore.deleteTask('persist-1');
+           appStore.setGoals(appStore.getState().goals.filter(g => g.id !== 'persist-goal'));
+           await PersistenceService.flush();
+           runner.expect((await StorageService.getTasks()).some(t => t.id === 'persist-1')).toBe(false);
+        });
+     });
+
+     runner.it('should retry a failed batch', async () => {
+        const original = StorageService.applyWrites;
+        let calls = 0;
+        StorageService.applyWrites = async (writes) => {
+           if (calls++ === 0) throw new Error('Simulated write failure');
+           return original.call(StorageService, writes);
+        };
+        try {
+           await withLoadedStore(async () => {
+              appStore.addTask(task('persist-retry', 'backlog'));
+              await PersistenceService.flush();
+              runner.expect(PersistenceService.hasPending()).toBe(true);
+
+              await new Promise(resolve => setTimeout(resolve, 700));
+              await PersistenceService.flush();
+              runner.expect(calls).toBe(2);
+              runner.expect((await StorageService.getTasks()).some(t => t.id === 'persist-retry')).toBe(true);
+              appStore.deleteTask('persist-retry');
+           });
+        } finally {
+           StorageService.applyWrites = original;
+        }
+     });
+  });
+
+  runner.describe('Integration: Schema Migrations', () => {
+
+     runner.it('should upgrade a v1 database to the latest schema', async () => {
+        const name = 'TaskAssistDB_migration_test';
+        await new Promise(resolve => { const r = indexedDB.deleteDatabase(name); r.onsuccess = r.onerror = resolve; });
+
+        // Shape of the very first release: tasks and notes only, tasks without status/boardId
+        const v1 = await new Promise<IDBDatabase>((resolve, reject) => {
+           const request = indexedDB.open(name, 1);
+           request.onupgradeneeded = () => {
+              request.result.createObjectStore('tasks', { keyPath: 'id' });
+              request.result.createObjectStore('notes', { keyPath: 'id' });
+           };
+           request.onsuccess = () => resolve(request.result);
+           request.onerror = () => reject(request.error);
+        });
+        await new Promise((resolve, reject) => {
+           const tx = v1.transaction('tasks', 'readwrite');
+           tx.objectStore('tasks').put({ id: 'legacy-1', title: 'Old Task', completed: true, createdAt: 1 });
+           tx.oncomplete = resolve;
+           tx.onerror = () => reject(tx.error);
+        });
+        v1.close();
+
+        const db = await openDatabase(name);
+        try {
+           runner.expect(db.version).toBe(LATEST_DB_VERSION);
+           runner.expect(db.objectStoreNames.contains('oplog')).toBe(true);
+
+           const read = (store: string, key: string) => new Promise<any>((resolve, reject) => {
+              const request = db.transaction(store, 'readonly').objectStore(store).get(key);
+              request.onsuccess = () => resolve(request.result);
+              request.onerror = () => reject(request.error);
+           });
+           const task = await read('tasks', 'legacy-1');
+           runner.expect(task.status).toBe('done');
+           runner.expect(task.tags).toEqual([]);
+           runner.expect(task.boardId).toBe('default-board');
+           // v14 wrote recurrence 'none', which v20 turns into no recurrence
+           runner.expect(task.recurrence).toBe(undefined);
+           runner.expect((await read('boards', 'default-board'))?.columns.length).toBeGreaterThan(0);
+        } finally {
+           db.close();
+           indexedDB.deleteDatabase(name);
+        }
+     });
   });
 
   // 3. PERFORMANCE TESTS
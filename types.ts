@@ -8,7 +8,7 @@ export interface TimeLog {
   end?: number;
 }
 
-// Updated Recurrence to object for complex rules
+// Recurrence before RRULE values; see normalizeLegacyRecurrence
 export interface RecurrenceConfig {
   frequency: 'none' | 'daily' | 'weekly' | 'monthly';
   interval: number; // e.g. every 1 week
@@ -25,6 +25,24 @@ export interface Board {
   id: string;
   title: string;
   columns: BoardColumn[];
+  updatedAt: number; // Compared during sync merge (0 for legacy/default boards)
+}
+
+export type ReminderAnchor = 'startTime' | 'deadline';
+
+// Minutes before the task's start or deadline
+export interface ReminderOffset {
+  anchor: ReminderAnchor;
+  minutesBefore: number;
+}
+
+// A reminder at a fixed time, or at an offset that moves with the task's dates; see ReminderService
+export interface TaskReminder {
+  id: string;
+  time?: number; // timestamp; unset for offset reminders
+  offset?: ReminderOffset;
+  snoozedUntil?: number; // replaces the reminder's time once snoozed
+  fired?: boolean;
 }
 
 export interface Task {
@@ -49,14 +67,16 @@ export interface Task {
   eventType?: EventType;
   color?: string;     // hex code or tailwind class
   
-  // Reminder Properties
-  reminderTime?: number; // timestamp
-  reminderFired?: boolean;
+  reminders?: TaskReminder[];
 
   // New Smart Features
   timeLogs?: TimeLog[];
-  recurrence?: RecurrenceConfig | string; // Backward compatibility with string
-  lastRecurrence?: number; // timestamp of last spawn
+  // Recurring series (see SeriesService): the master holds the rule, instances point at it
+  recurrence?: string; // RFC 5545 RRULE value, e.g. "FREQ=MONTHLY;BYDAY=-1FR"; see RecurrenceService
+  recurrenceStart?: number; // DTSTART of the series; the task's own start when missing
+  recurrenceExceptions?: number[]; // EXDATE: skipped occurrence starts
+  seriesId?: string; // Instances: id of the master task
+  recurrenceId?: number; // RECURRENCE-ID: original start of the occurrence, kept when it is rescheduled
   
   // Google Calendar Integration
   gCalEventId?: string;
@@ -94,6 +114,7 @@ export interface Goal {
 }
 
 // Automation Types
+// Trigger kinds of single-trigger rules, kept to migrate them (see LegacyAutomationRule)
 export type TriggerType = 
   | 'status_change' 
   | 'tag_added' 
@@ -102,9 +123,163 @@ export type TriggerType =
   | 'weather_condition'
   | 'inactivity';
 
-export type ActionType = 'add_tag' | 'set_color' | 'assign_user' | 'webhook' | 'create_notification';
+export type ActionType = 'add_tag' | 'set_color' | 'assign_user' | 'move_to_board' | 'webhook' | 'create_notification'; // move_to_board: value is the board id
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'     // Substring for text, element for arrays (tags)
+  | 'not_contains'
+  | 'is_empty'
+  | 'is_not_empty'
+  | 'greater_than'
+  | 'less_than'
+  | 'changed'      // Differs from the previous version of the task
+  | 'changed_to';  // Became the value in this update; for arrays: the value was added
+
+export type WeatherType = 'sunny' | 'rain' | 'cloudy' | 'snow';
+
+// Compares one Task property, e.g. { field: 'status', operator: 'changed_to', value: 'review' }
+export interface FieldCondition {
+  type: 'field';
+  field: string;
+  operator: ConditionOperator;
+  value?: string;
+}
+
+export interface LocationCondition {
+  type: 'location';
+  event: 'enter' | 'leave';
+  location: { lat: number; lng: number; radius: number }; // Radius in meters
+}
+
+export interface WeatherCondition {
+  type: 'weather';
+  weather: WeatherType;
+}
+
+// Time-based conditions are checked in the background by SchedulerService, not on task edits.
+// Each fires once per task per occurrence (see AutomationRunMark).
+
+// No update for this many days (open tasks only)
+export interface InactivityCondition {
+  type: 'inactivity';
+  days: number;
+}
+
+// Deadline within the next N hours (open tasks only)
+export interface DeadlineCondition {
+  type: 'deadline';
+  hours: number;
+}
+
+// Deadline has passed (open tasks only)
+export interface OverdueCondition {
+  type: 'overdue';
+}
+
+// Weekly time slot, e.g. every Monday at 9:00
+export interface ScheduleCondition {
+  type: 'schedule';
+  days: number[]; // 0 = Sunday
+  time: string; // 'HH:MM', local time
+}
+
+export interface ConditionGroup {
+  type: 'group';
+  logic: 'and' | 'or';
+  conditions: RuleCondition[];
+}
+
+export type TimeCondition = InactivityCondition | DeadlineCondition | OverdueCondition | ScheduleCondition;
+
+export type RuleCondition = ConditionGroup | FieldCondition | LocationCondition | WeatherCondition | TimeCondition;
+
+// Extra settings of a 'webhook' action, whose value is the URL.
+// The signing secret is kept per URL in the local vault (AppSecrets.webhookSecrets).
+export interface WebhookConfig {
+  headers?: Record<string, string>;
+  bodyTemplate?: string; // Placeholders like {{task.title}}; the task as JSON when empty
+}
+
+export interface RuleAction {
+  type: ActionType;
+  value: string;
+  webhook?: WebhookConfig;
+}
+
+// 'awaiting_secret': queued while the secrets vault was locked, signed once it is unlocked
+export type WebhookDeliveryState = 'awaiting_secret' | 'pending' | 'delivered' | 'failed';
+
+// One queued webhook call, rendered and signed when the rule ran (see WebhookService)
+export interface WebhookDelivery {
+  id: string;
+  url: string;
+  headers: Record<string, string>;
+  body: string;
+  createdAt: number;
+  state: WebhookDeliveryState;
+  attempts: number;
+  nextAttemptAt: number;
+  status?: number; // HTTP status of the last attempt
+  error?: string; // Network error of the last attempt
+}
 
 export interface AutomationRule {
+  id: string;
+  name: string;
+  isActive: boolean;
+  description?: string;
+  conditions: ConditionGroup; // An empty root group never matches
+  actions: RuleAction[]; // Applied in order
+  priority?: number; // Lower runs first, 0 by default; equal priorities keep the order of the list
+  lastRun?: number;
+}
+
+// Scheduler bookkeeping for one rule and task: the last fired occurrence of each time condition,
+// keyed by the condition's path in the tree (e.g. '0.1')
+export interface AutomationRunMark {
+  id: string; // `${ruleId}:${taskId}`
+  ruleId: string;
+  taskId: string;
+  occurrences: Record<string, string>;
+  firedAt: number;
+}
+
+export type AutomationRunSource = 'edit' | 'scheduler';
+
+// Outcome of one action of a logged run
+export interface ActionResult {
+  type: ActionType;
+  value: string;
+  deliveryId?: string; // Queued webhook call, see WebhookDelivery
+  error?: string;
+}
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+// One rule run, kept in the automation log with a retention limit (see AutomationLogService)
+export interface AutomationLogEntry {
+  id: string;
+  timestamp: number;
+  source: AutomationRunSource;
+  ruleId: string;
+  ruleName: string;
+  taskId: string;
+  taskTitle: string;
+  matched: RuleCondition[]; // Leaf conditions that held
+  actions: ActionResult[];
+  changes: FieldChange[]; // Task fields changed by this rule's actions
+  depth?: number; // Pass of the rule chain: 0 reacts to the change itself, N to the changes of pass N - 1
+  loop?: string[]; // Set on the run where the chain was halted: the rules that kept changing the task
+}
+
+// Rule shape before condition trees: exactly one trigger and one action
+export interface LegacyAutomationRule {
   id: string;
   name: string;
   isActive: boolean;
@@ -114,13 +289,10 @@ export interface AutomationRule {
     value: string; // Generic value
     // Extended Config
     location?: { lat: number; lng: number; radius: number }; // Radius in meters
-    weather?: 'sunny' | 'rain' | 'cloudy' | 'snow';
+    weather?: WeatherType;
     inactivityDays?: number;
   };
-  action: {
-    type: ActionType;
-    value: string;
-  };
+  action: RuleAction;
   lastRun?: number;
 }
 
@@ -143,6 +315,9 @@ export interface DashboardWidgetConfig {
 
 export type AuthProvider = 'google' | 'yandex' | 'github' | 'local';
 
+// Where sync data is stored; independent of the login provider
+export type SyncProviderId = 'google_drive' | 'github_gist' | 'yandex_disk' | 'webdav' | 'local_folder';
+
 export interface User {
   id: string;
   name: string;
@@ -174,6 +349,7 @@ export interface GlobalEvent {
   type: GlobalEventType;
   isRecurringYearly: boolean; // For birthdays/fixed holidays
   color?: string;
+  updatedAt: number;
 }
 
 export interface WorkSchedule {
@@ -191,19 +367,19 @@ export interface WorkSchedule {
 }
 
 export interface AppSettings {
-  openRouterApiKey?: string;
   aiModel?: string;
   theme?: ThemeMode;
-  reminderDefaultMinutes?: number;
+  reminderDefaults?: Partial<Record<EventType, ReminderOffset[]>>; // Reminders new tasks of each event type start with
   dashboardLayout?: DashboardWidgetConfig[];
   
   // Schedule Config
   workSchedule?: WorkSchedule;
   
   // Sync & Backup
-  githubToken?: string;
+  syncProvider?: SyncProviderId; // Defaults to the storage of the login provider
+  webdavUrl?: string;
+  webdavUsername?: string;
   githubGistId?: string;
-  encryptionPassword?: string;
   syncStrategy?: 'manual' | 'auto' | 'cloud_force';
   
   // Copilot Settings
@@ -216,11 +392,40 @@ export interface AppSettings {
   localModelId?: string;
 }
 
+// Credentials live in the local vault only (SecretsService) and never leave the device
+export interface AppSecrets {
+  openRouterApiKey?: string;
+  githubToken?: string;
+  encryptionPassword?: string; // E2EE password for cloud sync
+  webdavPassword?: string;
+  webhookSecrets?: Record<string, string>; // HMAC signing secret per webhook URL
+}
+
+export type SecretKey = keyof AppSecrets;
+
+export interface SecretsVault {
+  secrets?: AppSecrets; // Plain, when no passphrase is set
+  wrapped?: string; // AppSecrets encrypted with the vault passphrase
+}
+
+// App lock: the random data key that seals IndexedDB records, wrapped once per unlock method
+export interface AppLockConfig {
+  enabled: boolean;
+  passphraseKey: string; // Data key encrypted with the passphrase (CryptoService envelope)
+  webauthn?: {
+    credentialId: string; // base64
+    salt: string; // base64, PRF input
+    wrappedKey: string; // Data key encrypted with the PRF output
+  };
+  idleMinutes: number; // 0 = lock only on startup
+}
+
 export interface BackupSnapshot {
   id: string;
   timestamp: number;
   label: string;
   data: AppState;
+  cursors?: Record<string, number>; // Sync checkpoints only: last op seq folded in, per device
 }
 
 export interface AppState {
@@ -237,6 +442,10 @@ export interface AppState {
   settings: AppSettings;
   isLoading: boolean;
   lastSynced?: number; 
+  syncConflicts?: SyncConflict[]; // Unresolved field conflicts from the last three-way merge
+  tombstones?: Tombstone[]; // Deletion records, synced so other devices drop the entity too
+  secrets?: AppSecrets; // Device-local, stripped from every payload that leaves the app
+  secretsLocked?: boolean; // Vault is wrapped with a passphrase that was not entered yet
 }
 
 export type ViewMode = 'tasks' | 'board' | 'calendar' | 'notes' | 'analytics' | 'automation' | 'settings';
@@ -246,6 +455,91 @@ export interface SyncResult {
   data?: AppState;
   timestamp?: number;
   error?: string;
+  conflicts?: SyncConflict[];
+  hasRemoteChanges?: boolean; // Merged data differs from local and must be applied
+}
+
+// --- SYNC MERGE TYPES ---
+
+export type SyncEntityType = 'tasks' | 'notes' | 'boards';
+
+export type TombstoneEntityType = 'tasks' | 'notes' | 'boards' | 'goals' | 'automations' | 'globalEvents';
+
+// Entity collections persisted by the store's write-through layer (templates are not synced, so no tombstones)
+export type PersistedEntityType = TombstoneEntityType | 'templates';
+
+// Upsert when `value` is set, deletion otherwise
+export interface EntityWrite {
+  entityType: PersistedEntityType;
+  id: string;
+  value?: any;
+}
+
+export interface Tombstone {
+  id: string; // `${entityType}:${entityId}`
+  entityType: TombstoneEntityType;
+  entityId: string;
+  deletedAt: number;
+}
+
+// One recorded store mutation. `patch` carries only the changed fields.
+export interface SyncOp {
+  seq: number; // Local autoincrement, per device
+  deviceId: string;
+  ts: number;
+  entityType: TombstoneEntityType;
+  entityId: string;
+  kind: 'put' | 'patch' | 'delete';
+  value?: any; // Whole entity for put, changed fields for patch
+  unset?: string[]; // Fields removed by a patch
+}
+
+// One undoable user action. `before`/`after` are entity snapshots, undefined when the entity did not exist.
+export interface HistoryChange {
+  entityType: TombstoneEntityType;
+  entityId: string;
+  before?: any;
+  after?: any;
+}
+
+export interface HistoryEntry {
+  id: string;
+  label: string;
+  ts: number;
+  changes: HistoryChange[];
+}
+
+export interface HistoryStacks {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// Filters for StorageService.queryTasks; all of them match fields that stay readable on sealed records
+export interface TaskQuery {
+  boardId?: string;
+  status?: TaskStatus;
+  completed?: boolean;
+  dueBefore?: number; // Tasks with a deadline strictly before this timestamp
+  tag?: string;
+  limit?: number;
+  cursor?: string; // Opaque, from TaskPage.cursor
+}
+
+export interface TaskPage {
+  tasks: Task[];
+  cursor?: string; // Set when more tasks may follow
+}
+
+export interface SyncConflict {
+  id: string; // `${entityType}:${entityId}:${field}`
+  entityType: SyncEntityType;
+  entityId: string;
+  entityTitle: string;
+  field: string;
+  baseValue?: any;
+  localValue: any;
+  cloudValue: any;
+  detectedAt: number;
 }
 
 export interface ChatMessage {